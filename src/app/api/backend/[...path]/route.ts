@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server';
+import {
+    BackendProfiles,
+    PROFILE_HEADER,
+    PROXY_ERROR_HEADER,
+    REPOSITORY_HEADER,
+} from '@/services/backendProfiles';
+import { resolveCredential } from '../../credentials/credentialStore';
+import { verifiedSession } from '../../session/sessionCookie';
+import { findAllowedRoute } from '../allowlist';
+import { clientAddress, consumeRateLimit } from '../rateLimiter';
+
+// Server-side proxy in front of the codeAnalyzer backend.
+// Keeps the API key out of the browser bundle, enforces the path allowlist and per-client rate limits.
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept', 'last-event-id'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'cache-control', 'retry-after'];
+
+const jsonError = (status: number, error: string, message: string, headers: Record<string, string> = {}) =>
+    Response.json({ error, message }, { status, headers });
+
+// Server-only keys: BACKEND_API_KEY_<PROFILE_ID> for a single profile, BACKEND_API_KEY for all
+const resolveApiKey = (profileId: string): string | undefined => {
+    const profileVariable = `BACKEND_API_KEY_${profileId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    return process.env[profileVariable] || process.env.BACKEND_API_KEY || process.env.API_KEY || undefined;
+};
+
+// Git host credentials for the repository a request is about, as headers for the backend's clone.
+// The repository comes from the client's header or the url query parameter; the owner only from
+// the signed session cookie, so nobody can have another user's credential attached. Never logged.
+const credentialHeaders = (request: NextRequest): Record<string, string> => {
+    const owner = verifiedSession(request)?.subject;
+    const repoUrl = request.headers.get(REPOSITORY_HEADER) || request.nextUrl.searchParams.get('url');
+    if (!owner || !repoUrl) {
+        return {};
+    }
+
+    let host: string;
+    try {
+        // host keeps a non-default port, matching how credentials are saved (git.example.com:8443)
+        host = new URL(repoUrl).host.toLowerCase();
+    } catch {
+        return {};
+    }
+    const credential = resolveCredential(owner, host);
+    if (!credential) {
+        return {};
+    }
+    return {
+        'X-Git-Credential-Type': credential.kind,
+        // Deploy keys span several lines, which headers cannot carry
+        'X-Git-Credential': credential.kind === 'deploy-key'
+            ? Buffer.from(credential.secret, 'utf8').toString('base64')
+            : credential.secret,
+        ...(credential.username ? { 'X-Git-Username': credential.username } : {}),
+    };
+};
+
+const proxy = async (request: NextRequest, context: RouteContext): Promise<Response> => {
+    const { path: segments } = await context.params;
+    const path = segments.join('/');
+    const method = request.method.toUpperCase();
+
+    // Keyed by address, not session: sign-in hands out a new session for any email
+    const rateLimit = consumeRateLimit(`proxy:${clientAddress(request)}`);
+    if (!rateLimit.allowed) {
+        return jsonError(429, 'Too Many Requests', 'Rate limit exceeded - please slow down', {
+            'Retry-After': String(rateLimit.retryAfterSeconds),
+        });
+    }
+
+    // encodeURIComponent leaves dot segments alone, so URL normalization upstream could turn an
+    // allowed path like user/../repositories into one outside the allowlisted prefix
+    if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+        return jsonError(400, 'Bad Request', 'Empty, "." and ".." path segments are not allowed', {
+            [PROXY_ERROR_HEADER]: 'invalid-path',
+        });
+    }
+
+    const allowedRoute = findAllowedRoute(method, path);
+    if (!allowedRoute) {
+        return jsonError(403, 'Forbidden', `${method} /${path} is not allowed through the backend proxy`, {
+            [PROXY_ERROR_HEADER]: 'route-not-allowed',
+        });
+    }
+
+    const requestedProfile = request.headers.get(PROFILE_HEADER);
+    const profile = requestedProfile
+        ? BackendProfiles.list().find(candidate => candidate.id === requestedProfile)
+        : BackendProfiles.getActive();
+    if (!profile || profile.mock) {
+        return jsonError(400, 'Bad Request', `Unknown backend profile "${requestedProfile}"`);
+    }
+
+    const headers = new Headers();
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+        const value = request.headers.get(name);
+        if (value) {
+            headers.set(name, value);
+        }
+    });
+    const apiKey = resolveApiKey(profile.id);
+    if (allowedRoute.requiresApiKey && apiKey) {
+        headers.set('X-API-Key', apiKey);
+    }
+    if (allowedRoute.attachesCredentials) {
+        Object.entries(credentialHeaders(request)).forEach(([name, value]) => headers.set(name, value));
+    }
+
+    const upstreamUrl = `${BackendProfiles.getApiBaseUrl(profile)}/${segments.map(encodeURIComponent).join('/')}${request.nextUrl.search}`;
+    const init: RequestInit & { duplex?: 'half' } = {
+        method,
+        headers,
+        // Abort the upstream call when the browser goes away (Stop buttons, timeouts)
+        signal: request.signal,
+        redirect: 'manual',
+    };
+    if (method !== 'GET' && method !== 'HEAD') {
+        init.body = request.body;
+        init.duplex = 'half';
+    }
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(upstreamUrl, init);
+    } catch (error) {
+        if (request.signal.aborted) {
+            return new Response(null, { status: 499 });
+        }
+        console.warn(`Backend proxy could not reach ${profile.baseUrl}:`, error instanceof Error ? error.message : error);
+        // Tells the client's circuit breaker that the backend itself is down, not the proxy
+        return jsonError(502, 'Bad Gateway', `Backend at ${profile.baseUrl} is not reachable`, {
+            [PROXY_ERROR_HEADER]: 'upstream-unreachable',
+        });
+    }
+
+    const responseHeaders = new Headers();
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+        const value = upstream.headers.get(name);
+        if (value) {
+            responseHeaders.set(name, value);
+        }
+    });
+
+    // Bodies are streamed through untouched so SSE chat answers keep arriving token by token
+    return new Response(upstream.body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers: responseHeaders,
+    });
+};
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const DELETE = proxy;
@@ -0,0 +1,44 @@
+// Backend paths the proxy is willing to forward, relative to /api/{version}.
+// Anything not listed here is rejected before it reaches the backend.
+
+interface AllowedRoute {
+    method: string;
+    pattern: RegExp;
+    requiresApiKey: boolean;
+    attachesCredentials: boolean; // Clones the repository - gets the user's git host credentials
+}
+
+const SEGMENT = '[^/]+';
+
+const route = (method: string, path: string, requiresApiKey = true, attachesCredentials = false): AllowedRoute => ({
+    method,
+    pattern: new RegExp(`^${path.replace(/\{[^}]+\}/g, SEGMENT)}$`),
+    requiresApiKey,
+    attachesCredentials,
+});
+
+export const ALLOWED_ROUTES: AllowedRoute[] = [
+    // Health checks never carried the API key
+    route('GET', 'analysis/health', false),
+    route('GET', 'analysis/progress'),
+    route('GET', 'analysis/events'),
+    route('POST', 'analysis/start', true, true),
+    route('POST', 'chat/message', true, true),
+    route('GET', 'chat/session/{sessionId}/context'),
+    route('POST', 'repository/clone', true, true),
+    route('POST', 'repository/upload'),
+    route('GET', 'repository/files'),
+    route('GET', 'repository/file'),
+    route('DELETE', 'repository/cleanup'),
+    route('POST', 'query/ask'),
+    route('POST', 'query/search'),
+    route('GET', 'query/endpoints'),
+    route('GET', 'query/spring-components'),
+    route('POST', 'user/session/start'),
+    route('POST', 'user/session/continue'),
+    route('GET', 'user/{email}/repositories'),
+    route('GET', 'user/{email}/session'),
+];
+
+export const findAllowedRoute = (method: string, path: string): AllowedRoute | undefined =>
+    ALLOWED_ROUTES.find(candidate => candidate.method === method.toUpperCase() && candidate.pattern.test(path));
@@ -0,0 +1,66 @@
+// Per-client token bucket for the backend proxy and sign-in. State lives in memory, so limits apply
+// per server instance - good enough to stop a runaway client from flooding the backend.
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// Reverse proxies in front of the app that append the address they saw to X-Forwarded-For.
+// Entries left of theirs are whatever the client sent, so only the trusted hops are read.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+const REQUESTS_PER_MINUTE = Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE ?? 120);
+const BURST = Number(process.env.PROXY_RATE_LIMIT_BURST ?? 30);
+const REFILL_PER_MS = REQUESTS_PER_MINUTE / 60000;
+const IDLE_BUCKET_TTL_MS = 10 * 60 * 1000;
+
+const buckets = new Map<string, Bucket>();
+let lastSweep = Date.now();
+
+// Drop buckets of users that have been idle for a while so the map does not grow forever
+const sweep = (now: number) => {
+    if (now - lastSweep < IDLE_BUCKET_TTL_MS) {
+        return;
+    }
+    lastSweep = now;
+    buckets.forEach((bucket, key) => {
+        if (now - bucket.updatedAt > IDLE_BUCKET_TTL_MS) {
+            buckets.delete(key);
+        }
+    });
+};
+
+export interface RateLimitResult {
+    allowed: boolean;
+    retryAfterSeconds: number;
+}
+
+export const consumeRateLimit = (key: string, now: number = Date.now()): RateLimitResult => {
+    sweep(now);
+
+    const bucket = buckets.get(key) ?? { tokens: BURST, updatedAt: now };
+    bucket.tokens = Math.min(BURST, bucket.tokens + (now - bucket.updatedAt) * REFILL_PER_MS);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / REFILL_PER_MS / 1000),
+    };
+};
+
+// Client address as recorded by the outermost trusted proxy. Route handlers cannot see the socket
+// address, so without a trusted proxy every client shares one bucket rather than trusting headers
+// the client could set itself.
+export const clientAddress = (request: Request): string => {
+    if (TRUSTED_PROXY_HOPS === 0) {
+        return 'untrusted';
+    }
+    const hops = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()) ?? [];
+    return hops[hops.length - TRUSTED_PROXY_HOPS] || 'unknown';
+};
@@ -0,0 +1,121 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { GitCredentialInput, GitCredentialKind, GitCredentialSummary } from '@/types';
+
+// Server-side store for git host credentials, one per owner and host. The owner is the subject
+// of the signed session cookie (see api/session), not an email the client could name. Secrets are kept
+// AES-256-GCM encrypted and never leave the server except as headers on proxied requests.
+// Like the rate limiter, state lives in memory per server instance.
+
+interface StoredCredential {
+    kind: GitCredentialKind;
+    username?: string;
+    hint: string;
+    updatedAt: number;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
+export interface ResolvedCredential {
+    kind: GitCredentialKind;
+    username?: string;
+    secret: string;
+}
+
+interface StoreState {
+    key: Buffer;
+    credentials: Map<string, StoredCredential>;
+}
+
+// Route bundles get their own module instances, so the proxy and the credentials route
+// share the store through globalThis
+const globalStore = globalThis as typeof globalThis & { __gitCredentialStore?: StoreState };
+
+const store = (): StoreState => {
+    if (!globalStore.__gitCredentialStore) {
+        const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+        if (!secret) {
+            console.warn('CREDENTIALS_ENCRYPTION_KEY is not set - using a random key, saved credentials last until the server restarts');
+        }
+        globalStore.__gitCredentialStore = {
+            key: secret ? createHash('sha256').update(secret).digest() : randomBytes(32),
+            credentials: new Map(),
+        };
+    }
+    return globalStore.__gitCredentialStore;
+};
+
+const storeKey = (owner: string, host: string) => `${owner}|${host.trim().toLowerCase()}`;
+
+// Enough to recognise a credential in the list without revealing it
+const describeSecret = (kind: GitCredentialKind, secret: string): string => kind === 'token'
+    ? `…${secret.slice(-4)}`
+    : `SHA256:${createHash('sha256').update(secret.trim()).digest('base64').slice(0, 12)}`;
+
+export const listCredentials = (owner: string): GitCredentialSummary[] => {
+    const prefix = storeKey(owner, '');
+    return [...store().credentials.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, credential]) => ({
+            host: key.slice(prefix.length),
+            kind: credential.kind,
+            username: credential.username,
+            hint: credential.hint,
+            updatedAt: credential.updatedAt,
+        }))
+        .sort((a, b) => a.host.localeCompare(b.host));
+};
+
+export const saveCredential = (owner: string, input: GitCredentialInput): GitCredentialSummary => {
+    const { key, credentials } = store();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(input.secret, 'utf8'), cipher.final()]);
+
+    const credential: StoredCredential = {
+        kind: input.kind,
+        username: input.username || undefined,
+        hint: describeSecret(input.kind, input.secret),
+        updatedAt: Date.now(),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+    };
+    const host = input.host.trim().toLowerCase();
+    credentials.set(storeKey(owner, host), credential);
+
+    return { host, kind: credential.kind, username: credential.username, hint: credential.hint, updatedAt: credential.updatedAt };
+};
+
+export const deleteCredential = (owner: string, host: string): boolean =>
+    store().credentials.delete(storeKey(owner, host));
+
+// Everything saved under a session - used when its user signs out
+export const deleteAllCredentials = (owner: string): void => {
+    const prefix = storeKey(owner, '');
+    const { credentials } = store();
+    [...credentials.keys()].filter(key => key.startsWith(prefix)).forEach(key => credentials.delete(key));
+};
+
+// Decrypted credential for the proxy - null when the owner has none for the host
+export const resolveCredential = (owner: string, host: string): ResolvedCredential | null => {
+    const { key, credentials } = store();
+    const credential = credentials.get(storeKey(owner, host));
+    if (!credential) {
+        return null;
+    }
+
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(credential.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(credential.tag, 'base64'));
+        const secret = Buffer.concat([
+            decipher.update(Buffer.from(credential.ciphertext, 'base64')),
+            decipher.final(),
+        ]).toString('utf8');
+        return { kind: credential.kind, username: credential.username, secret };
+    } catch {
+        // Never include the error - it may echo key material
+        console.warn(`Stored credential for ${host} could not be decrypted - ignoring it`);
+        return null;
+    }
+};
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { GitCredentialInput } from '@/types';
+import { verifiedSession } from '../session/sessionCookie';
+import { deleteCredential, listCredentials, saveCredential } from './credentialStore';
+
+// Credentials manager API for private repositories. Secrets are accepted here and never
+// returned - GET only lists hosts with a masked hint. Request bodies are never logged.
+
+export const dynamic = 'force-dynamic';
+
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d+)?$/;
+const MAX_SECRET_LENGTH = 16384;
+
+const jsonError = (status: number, error: string, message: string) =>
+    Response.json({ error, message }, { status });
+
+// Credentials belong to the signed-in session, identified the same way the proxy does
+const requestOwner = (request: NextRequest): string | null =>
+    verifiedSession(request)?.subject ?? null;
+
+const parseInput = (body: unknown): GitCredentialInput | string => {
+    if (typeof body !== 'object' || body === null) {
+        return 'Expected a JSON object';
+    }
+    const { host, kind, username, secret } = body as Record<string, unknown>;
+    if (typeof host !== 'string' || !HOST_PATTERN.test(host.trim().toLowerCase())) {
+        return 'host must be a host name such as github.com, with a port when it is not the default (git.example.com:8443)';
+    }
+    if (kind !== 'token' && kind !== 'deploy-key') {
+        return 'kind must be "token" or "deploy-key"';
+    }
+    if (typeof secret !== 'string' || !secret.trim() || secret.length > MAX_SECRET_LENGTH) {
+        return 'secret is required';
+    }
+    if (kind === 'deploy-key' && !secret.includes('PRIVATE KEY-----')) {
+        return 'A deploy key must be a private key in OpenSSH or PEM format';
+    }
+    if (username !== undefined && typeof username !== 'string') {
+        return 'username must be a string';
+    }
+    return {
+        host: host.trim().toLowerCase(),
+        kind,
+        username: username?.trim() || undefined,
+        secret: kind === 'token' ? secret.trim() : secret,
+    };
+};
+
+export const GET = async (request: NextRequest): Promise<Response> => {
+    const owner = requestOwner(request);
+    if (!owner) {
+        return jsonError(401, 'Unauthorized', 'Sign in to manage repository credentials');
+    }
+    return Response.json(listCredentials(owner));
+};
+
+export const PUT = async (request: NextRequest): Promise<Response> => {
+    const owner = requestOwner(request);
+    if (!owner) {
+        return jsonError(401, 'Unauthorized', 'Sign in to manage repository credentials');
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return jsonError(400, 'Bad Request', 'Expected a JSON object');
+    }
+    const input = parseInput(body);
+    if (typeof input === 'string') {
+        return jsonError(400, 'Bad Request', input);
+    }
+    return Response.json(saveCredential(owner, input));
+};
+
+export const DELETE = async (request: NextRequest): Promise<Response> => {
+    const owner = requestOwner(request);
+    if (!owner) {
+        return jsonError(401, 'Unauthorized', 'Sign in to manage repository credentials');
+    }
+
+    const host = request.nextUrl.searchParams.get('host');
+    if (!host) {
+        return jsonError(400, 'Bad Request', 'host is required');
+    }
+    return deleteCredential(owner, host)
+        ? new Response(null, { status: 204 })
+        : jsonError(404, 'Not Found', `No credential saved for ${host}`);
+};
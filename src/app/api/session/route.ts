@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientAddress, consumeRateLimit } from '../backend/rateLimiter';
+import { deleteAllCredentials } from '../credentials/credentialStore';
+import { clearSessionCookie, issueSession, setSessionCookie, verifiedSession } from './sessionCookie';
+
+// Sign-in for the server routes: issues the signed session cookie the credentials route and the
+// backend proxy identify users by. Signing out drops the cookie and the credentials saved under it.
+
+export const dynamic = 'force-dynamic';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const jsonError = (status: number, error: string, message: string, headers: Record<string, string> = {}) =>
+    Response.json({ error, message }, { status, headers });
+
+export const POST = async (request: NextRequest): Promise<Response> => {
+    const rateLimit = consumeRateLimit(`sign-in:${clientAddress(request)}`);
+    if (!rateLimit.allowed) {
+        return jsonError(429, 'Too Many Requests', 'Too many sign-ins - please slow down', {
+            'Retry-After': String(rateLimit.retryAfterSeconds),
+        });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return jsonError(400, 'Bad Request', 'Expected a JSON object');
+    }
+    const email = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).email : undefined;
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        return jsonError(400, 'Bad Request', 'email must be an email address');
+    }
+
+    const { session, cookie } = issueSession(request, email.trim().toLowerCase());
+    return setSessionCookie(NextResponse.json({ email: session.email }), cookie);
+};
+
+export const DELETE = async (request: NextRequest): Promise<Response> => {
+    const session = verifiedSession(request);
+    if (session) {
+        deleteAllCredentials(session.subject);
+    }
+    return clearSessionCookie(new NextResponse(null, { status: 204 }));
+};
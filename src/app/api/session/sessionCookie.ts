@@ -0,0 +1,86 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Signed, httpOnly session cookie issued at sign-in. The server routes trust only this cookie to
+// tell users apart - never a header or body field the browser chooses. The app has no passwords,
+// so the cookie carries a random subject minted at sign-in: server-side state such as saved
+// credentials is keyed by it, and cannot be claimed by signing in with someone else's email.
+
+export const SESSION_COOKIE = 'analyzer_session';
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export interface VerifiedSession {
+    email: string;
+    subject: string;
+}
+
+// Shared through globalThis like the credential store, so every route bundle verifies with the same key
+const globalKeys = globalThis as typeof globalThis & { __sessionSigningKey?: Buffer };
+
+const signingKey = (): Buffer => {
+    if (!globalKeys.__sessionSigningKey) {
+        const secret = process.env.SESSION_SECRET;
+        if (!secret) {
+            console.warn('SESSION_SECRET is not set - using a random key, sessions last until the server restarts');
+        }
+        globalKeys.__sessionSigningKey = secret ? Buffer.from(secret, 'utf8') : randomBytes(32);
+    }
+    return globalKeys.__sessionSigningKey;
+};
+
+const sign = (payload: string): string => createHmac('sha256', signingKey()).update(payload).digest('base64url');
+
+const decode = (value: string | undefined): VerifiedSession | null => {
+    const [payload, signature] = value?.split('.') ?? [];
+    if (!payload || !signature) {
+        return null;
+    }
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+    try {
+        const { email, sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof email !== 'string' || typeof sub !== 'string' || typeof exp !== 'number' || exp < Date.now()) {
+            return null;
+        }
+        return { email, subject: sub };
+    } catch {
+        return null;
+    }
+};
+
+// The signed-in user, or null when the request carries no valid session cookie
+export const verifiedSession = (request: NextRequest): VerifiedSession | null =>
+    decode(request.cookies.get(SESSION_COOKIE)?.value);
+
+// Signing in again with the same email keeps the subject, so saved state survives cookie renewal
+export const issueSession = (request: NextRequest, email: string): { session: VerifiedSession; cookie: string } => {
+    const current = verifiedSession(request);
+    const subject = current?.email === email ? current.subject : randomBytes(16).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+        email,
+        sub: subject,
+        exp: Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+    }), 'utf8').toString('base64url');
+    return { session: { email, subject }, cookie: `${payload}.${sign(payload)}` };
+};
+
+export const setSessionCookie = (response: NextResponse, value: string): NextResponse => {
+    response.cookies.set({
+        name: SESSION_COOKIE,
+        value,
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+    return response;
+};
+
+export const clearSessionCookie = (response: NextResponse): NextResponse => {
+    response.cookies.set({ name: SESSION_COOKIE, value: '', httpOnly: true, path: '/', maxAge: 0 });
+    return response;
+};
@@ -6,7 +6,7 @@ const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
     title: 'AI Code Analysis Agent',
-    description: 'Analyze Java repositories with AI-powered natural language queries',
+    description: 'Analyze code repositories with AI-powered natural language queries',
 };
 
 export default function RootLayout({
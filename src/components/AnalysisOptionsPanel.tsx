@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, SlidersHorizontal } from 'lucide-react';
+import { AnalysisOptions } from '@/types';
+import { hasCustomAnalysisOptions, parsePatternList } from '@/utils/pathFilters';
+
+interface AnalysisOptionsPanelProps {
+    options: AnalysisOptions;
+    disabled?: boolean;
+    onChange: (options: AnalysisOptions) => void;
+}
+
+// Collapsible "Advanced options" for the analyze request: path globs, size limit, test sources
+const AnalysisOptionsPanel: React.FC<AnalysisOptionsPanelProps> = ({ options, disabled = false, onChange }) => {
+    const [isOpen, setIsOpen] = useState(() => hasCustomAnalysisOptions(options));
+    // Pattern lists are edited as free text and parsed when the field loses focus
+    const [includeText, setIncludeText] = useState(options.includePatterns.join('\n'));
+    const [excludeText, setExcludeText] = useState(options.excludePatterns.join('\n'));
+
+    // Options replaced from outside (saved options, switching jobs) refresh the text fields
+    useEffect(() => {
+        setIncludeText(options.includePatterns.join('\n'));
+    }, [options.includePatterns]);
+
+    useEffect(() => {
+        setExcludeText(options.excludePatterns.join('\n'));
+    }, [options.excludePatterns]);
+
+    const customized = hasCustomAnalysisOptions(options);
+
+    return (
+        <div className="border border-gray-200 rounded-md">
+            <button
+                type="button"
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
+            >
+                <span className="flex items-center">
+                    {isOpen ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                    <SlidersHorizontal className="w-4 h-4 mr-2 text-gray-500" />
+                    Advanced options
+                </span>
+                {customized && !isOpen && (
+                    <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">Customized</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="px-3 pb-3 space-y-3 text-sm">
+                    <div>
+                        <label htmlFor="include-patterns" className="block text-xs font-medium text-gray-600 mb-1">
+                            Include paths <span className="font-normal text-gray-400">(globs, one per line - empty for all)</span>
+                        </label>
+                        <textarea
+                            id="include-patterns"
+                            rows={2}
+                            value={includeText}
+                            disabled={disabled}
+                            onChange={(e) => setIncludeText(e.target.value)}
+                            onBlur={() => onChange({ ...options, includePatterns: parsePatternList(includeText) })}
+                            placeholder="src/main/**"
+                            className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="exclude-patterns" className="block text-xs font-medium text-gray-600 mb-1">
+                            Exclude paths <span className="font-normal text-gray-400">(globs, one per line)</span>
+                        </label>
+                        <textarea
+                            id="exclude-patterns"
+                            rows={2}
+                            value={excludeText}
+                            disabled={disabled}
+                            onChange={(e) => setExcludeText(e.target.value)}
+                            onBlur={() => onChange({ ...options, excludePatterns: parsePatternList(excludeText) })}
+                            placeholder={'**/generated/**\nvendor/**'}
+                            className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="max-file-size" className="text-xs font-medium text-gray-600">
+                            Max file size (KB)
+                        </label>
+                        <input
+                            id="max-file-size"
+                            type="number"
+                            min={1}
+                            value={options.maxFileSizeKb ?? ''}
+                            disabled={disabled}
+                            onChange={(e) => {
+                                const value = parseInt(e.target.value, 10);
+                                onChange({ ...options, maxFileSizeKb: Number.isFinite(value) && value > 0 ? value : null });
+                            }}
+                            placeholder="No limit"
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-xs text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </div>
+
+                    <label className="flex items-center text-xs text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={options.includeTestSources}
+                            disabled={disabled}
+                            onChange={(e) => onChange({ ...options, includeTestSources: e.target.checked })}
+                            className="mr-2"
+                        />
+                        Include test sources (src/test, *Test.java, *IT.java, *.spec.ts)
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisOptionsPanel;
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { PHASE_LABELS } from '@/services/analysisLifecycle';
+import { AnalysisStatus } from '@/types';
+
+interface AnalysisProgressProps {
+    status: AnalysisStatus | null;
+    startedAt: number | null;
+}
+
+interface ProgressSample {
+    time: number;
+    processedFiles: number;
+}
+
+// Throughput is measured over the most recent minute so the estimate follows speed changes
+const THROUGHPUT_WINDOW_MS = 60000;
+
+const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    if (hours > 0) {
+        return `${hours}h ${minutes}m`;
+    }
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+// Remaining time from recent file throughput, falling back to the overall percentage rate
+// (the only information available right after a page reload)
+const estimateRemaining = (status: AnalysisStatus, samples: ProgressSample[], elapsed: number): number | null => {
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    if (first && last && status.totalFiles > 0 && last.processedFiles > first.processedFiles) {
+        const filesPerMs = (last.processedFiles - first.processedFiles) / (last.time - first.time);
+        return (status.totalFiles - status.processedFiles) / filesPerMs;
+    }
+    if (status.progressPercentage > 0 && status.progressPercentage < 100) {
+        return elapsed * (100 - status.progressPercentage) / status.progressPercentage;
+    }
+    return null;
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ status, startedAt }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const samplesRef = useRef<ProgressSample[]>([]);
+
+    // Tick once a second for the elapsed time display
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    useEffect(() => {
+        if (!status) {
+            samplesRef.current = [];
+            return;
+        }
+        const time = Date.now();
+        samplesRef.current = [
+            ...samplesRef.current.filter(sample =>
+                time - sample.time <= THROUGHPUT_WINDOW_MS && sample.processedFiles <= status.processedFiles),
+            { time, processedFiles: status.processedFiles }
+        ];
+    }, [status]);
+
+    const elapsed = startedAt ? now - startedAt : 0;
+    const percentage = Math.min(100, Math.max(0, status?.progressPercentage ?? 0));
+    const remaining = status ? estimateRemaining(status, samplesRef.current, elapsed) : null;
+
+    return (
+        <div className="px-3 py-2 rounded-lg border border-blue-200 bg-blue-50">
+            <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2 font-medium text-blue-800">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {status ? status.message || PHASE_LABELS[status.status] : 'Starting analysis...'}
+                </div>
+                <span className="text-blue-700 font-semibold">{percentage}%</span>
+            </div>
+            <div className="mt-2 h-2 w-full bg-blue-100 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-blue-500 rounded-full transition-all duration-500"
+                    style={{ width: `${percentage}%` }}
+                />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-blue-700 opacity-80">
+                <span>
+                    {status && status.totalFiles > 0
+                        ? `${status.processedFiles} / ${status.totalFiles} files`
+                        : 'Counting files...'}
+                </span>
+                <span>
+                    {startedAt ? `Elapsed ${formatDuration(elapsed)}` : ''}
+                    {remaining !== null ? ` · ~${formatDuration(remaining)} left` : ''}
+                </span>
+            </div>
+        </div>
+    );
+};
+
+export default AnalysisProgress;
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, FileArchive, Upload, X } from 'lucide-react';
+import { ArchiveUpload } from '@/types';
+import { ARCHIVE_EXTENSIONS, MAX_ARCHIVE_SIZE_MB } from '@/utils/repositoryRef';
+
+interface ArchiveDropZoneProps {
+    upload: ArchiveUpload | null;
+    disabled?: boolean;
+    onUpload: (archive: File) => void;
+    onCancel: () => void;
+}
+
+const formatBytes = (bytes: number): string => bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Drop target (or file picker) for a local project archive, with upload progress
+const ArchiveDropZone: React.FC<ArchiveDropZoneProps> = ({ upload, disabled = false, onUpload, onCancel }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const isUploading = upload !== null && !upload.error;
+
+    const handleFiles = (files: FileList | null) => {
+        const archive = files?.[0];
+        if (archive && !disabled && !isUploading) {
+            onUpload(archive);
+        }
+    };
+
+    if (isUploading) {
+        const percentage = upload.totalBytes > 0 ? Math.min(100, Math.round(upload.loadedBytes / upload.totalBytes * 100)) : 0;
+        return (
+            <div className="p-3 border border-blue-200 bg-blue-50 rounded-md text-sm">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center text-blue-800 truncate">
+                        <FileArchive className="w-4 h-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{upload.fileName}</span>
+                    </span>
+                    <button onClick={onCancel} className="p-1 text-blue-400 hover:text-red-600 flex-shrink-0" title="Stop upload">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="mt-2 h-2 bg-blue-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percentage}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-blue-700">
+                    {percentage < 100
+                        ? `Uploading ${formatBytes(upload.loadedBytes)} of ${formatBytes(upload.totalBytes)} (${percentage}%)`
+                        : 'Unpacking on the server...'}
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    if (!disabled) {
+                        setIsDragging(true);
+                    }
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    handleFiles(e.dataTransfer.files);
+                }}
+                onClick={() => !disabled && inputRef.current?.click()}
+                className={`p-4 border-2 border-dashed rounded-md text-center text-sm transition-colors ${
+                    disabled
+                        ? 'border-gray-200 text-gray-400 cursor-not-allowed'
+                        : isDragging
+                            ? 'border-blue-400 bg-blue-50 text-blue-700 cursor-copy'
+                            : 'border-gray-300 text-gray-500 hover:border-blue-300 hover:bg-gray-50 cursor-pointer'
+                }`}
+            >
+                <Upload className="w-5 h-5 mx-auto mb-1" />
+                <p>Drop a project archive here or <span className="text-blue-600 underline">browse</span></p>
+                <p className="text-xs text-gray-400 mt-1">{ARCHIVE_EXTENSIONS.join(', ')} up to {MAX_ARCHIVE_SIZE_MB} MB</p>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept={ARCHIVE_EXTENSIONS.join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFiles(e.target.files);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {upload?.error && (
+                <p className="text-xs text-red-600 mt-1 flex items-center justify-between">
+                    <span className="flex items-center">
+                        <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                        {upload.error}
+                    </span>
+                    <button onClick={onCancel} className="p-0.5 text-red-400 hover:text-red-700" title="Dismiss">
+                        <X className="w-3 h-3" />
+                    </button>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ArchiveDropZone;
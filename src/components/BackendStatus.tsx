@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { apiService } from '@/services/api';
-import { AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import { BackendProfiles } from '@/services/backendProfiles';
+import { getCircuitBreaker } from '@/services/resilience';
+import { AlertTriangle, CheckCircle, RefreshCw, ZapOff } from 'lucide-react';
 
 const BackendStatus: React.FC = () => {
-    const [status, setStatus] = useState<'checking' | 'connected' | 'error'>('checking');
+    const [status, setStatus] = useState<'checking' | 'connected' | 'error' | 'circuit-open'>('checking');
     const [message, setMessage] = useState<string>('Checking backend connectivity...');
+    const [activeProfileId, setActiveProfileId] = useState<string>(() => BackendProfiles.getActive().id);
+    const profiles = BackendProfiles.list();
 
     const checkBackend = async () => {
         setStatus('checking');
@@ -12,6 +16,11 @@ const BackendStatus: React.FC = () => {
         
         try {
             const result = await apiService.healthCheck();
+            // A failed probe while the circuit is open keeps the circuit message from the subscription below
+            if (result.status !== 'connected' && getCircuitBreaker(BackendProfiles.getActive().id).getSnapshot().state === 'open') {
+                setStatus('circuit-open');
+                return;
+            }
             setStatus(result.status === 'connected' ? 'connected' : 'error');
             setMessage(result.message);
         } catch {
@@ -24,6 +33,29 @@ const BackendStatus: React.FC = () => {
         checkBackend();
     }, []);
 
+    // Re-check connectivity whenever a different backend profile becomes active
+    useEffect(() => {
+        return BackendProfiles.subscribe(profile => {
+            setActiveProfileId(profile.id);
+            checkBackend();
+        });
+    }, []);
+
+    // Reflect the active profile's circuit breaker so one message replaces a wall of failing calls
+    useEffect(() => {
+        return getCircuitBreaker(activeProfileId).subscribe(snapshot => {
+            if (snapshot.state === 'open') {
+                setStatus('circuit-open');
+                setMessage(`Backend stopped responding after ${snapshot.consecutiveFailures} failed connection attempts - requests are paused${
+                    snapshot.retryAt ? ` until ${new Date(snapshot.retryAt).toLocaleTimeString()}` : ''
+                }`);
+            } else if (snapshot.state === 'closed') {
+                setStatus(prev => prev === 'circuit-open' ? 'connected' : prev);
+                setMessage(prev => prev.startsWith('Backend stopped responding') ? 'Backend server is reachable' : prev);
+            }
+        });
+    }, [activeProfileId]);
+
     const getStatusIcon = () => {
         switch (status) {
             case 'checking':
@@ -32,6 +64,8 @@ const BackendStatus: React.FC = () => {
                 return <CheckCircle className="w-4 h-4 text-green-500" />;
             case 'error':
                 return <AlertTriangle className="w-4 h-4 text-red-500" />;
+            case 'circuit-open':
+                return <ZapOff className="w-4 h-4 text-amber-600" />;
         }
     };
 
@@ -43,6 +77,8 @@ const BackendStatus: React.FC = () => {
                 return 'border-green-200 bg-green-50';
             case 'error':
                 return 'border-red-200 bg-red-50';
+            case 'circuit-open':
+                return 'border-amber-200 bg-amber-50';
         }
     };
 
@@ -51,11 +87,25 @@ const BackendStatus: React.FC = () => {
             {getStatusIcon()}
             <div className="flex-1">
                 <div className="text-sm font-medium">
-                    Backend Status: {status === 'connected' ? 'Connected' : status === 'error' ? 'Disconnected' : 'Checking...'}
+                    Backend Status: {status === 'connected' ? 'Connected' : status === 'error' ? 'Disconnected' : status === 'circuit-open' ? 'Unavailable (circuit open)' : 'Checking...'}
                 </div>
                 <div className="text-xs opacity-75">{message}</div>
             </div>
-            {status === 'error' && (
+            {profiles.length > 1 && (
+                <select
+                    value={activeProfileId}
+                    onChange={(e) => BackendProfiles.setActive(e.target.value)}
+                    className="px-2 py-1 text-xs bg-white border border-gray-300 rounded"
+                    title="Backend profile"
+                >
+                    {profiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+            {(status === 'error' || status === 'circuit-open') && (
                 <button
                     onClick={checkBackend}
                     className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50"
@@ -5,33 +5,84 @@ import FileExplorer from './FileExplorer';
 import HistoryPanel from './HistoryPanel';
 import RepositoryInput from './RepositoryInput';
 import EmailLogin from './EmailLogin';
-import { Github } from 'lucide-react';
+import { GitBranch, Github } from 'lucide-react';
 import UserMenu from './UserMenu';
+import BackendStatus from './BackendStatus';
+import AnalysisProgress from './AnalysisProgress';
+import DebugDrawer from './DebugDrawer';
+import JobsPanel from './JobsPanel';
+import CredentialsManager from './CredentialsManager';
+import CodeViewer from './CodeViewer';
 import { apiService } from '@/services/api';
+import { credentialsService } from '@/services/credentials';
+import { serverSession } from '@/services/serverSession';
+import { createLogger } from '@/utils/logger';
+import { describeRepository } from '@/utils/repositoryRef';
+
+const log = createLogger('session');
 
 const CodeAnalyzerDashboard: React.FC = () => {
     const [isClient, setIsClient] = useState(false);
     const [userEmail, setUserEmail] = useState<string | null>(null);
+    // Signed session cookie for the app's own server routes has been issued
+    const [hasServerSession, setHasServerSession] = useState(false);
+    const [isCredentialsOpen, setIsCredentialsOpen] = useState(false);
+    const [credentialsHost, setCredentialsHost] = useState<string | null>(null);
+    const [isViewerOpen, setIsViewerOpen] = useState(false);
 
     const {
         repoUrl,
+        repoRef,
+        analysisOptions,
+        excludedFiles,
         isAnalyzing,
         analysisHistory,
         currentStatus,
-        fileStructure,
+        analysisStatus,
+        analysisStartedAt,
+        analysisError,
+        accessDenied,
+        fileTree,
+        isBuildingTree,
+        treeView,
+        springComponents,
         selectedFile,
         setRepoUrl,
+        setRepoRef,
+        setAnalysisOptions,
         setSelectedFile,
+        setTreeView,
         analyzeRepository,
         explainFile,
-        completeAnalysis,
         sessionId,
         isInitialized,
         askQuestion,
+        cancelAnalysis,
+        cancelQuestion,
         explainFileQuestion,
         clearSession,
         qaHistory,
-
+        jobs,
+        activeJobId,
+        switchJob,
+        openRepository,
+        queueRepository,
+        prioritizeJob,
+        cancelJob,
+        removeJob,
+        upload,
+        uploadArchive,
+        cancelUpload,
+        changeSummary,
+        fileChanges,
+        analyzedCommit,
+        analyzedRepoUrl,
+        analyzedRef,
+        reanalyzeJob,
+        askAboutChanges,
+        askAboutLines,
+        askAboutFiles,
+        runFileAction,
     } = useAnalysis(userEmail || undefined);
 
     // Ensure we only render on client to avoid hydration issues and check for stored email
@@ -47,17 +98,50 @@ const CodeAnalyzerDashboard: React.FC = () => {
     // Initialize user session when email, sessionId, and initialization are complete
     useEffect(() => {
         if (userEmail && sessionId && isClient && isInitialized) {
-            console.log('Starting user session with sessionId:', sessionId, 'for email:', userEmail);
             apiService.startUserSession(sessionId, userEmail)
-                .then(response => {
-                    console.log('User session started successfully:', response);
+                .then(() => {
+                    log.info('User session started', { sessionId });
                 })
                 .catch(error => {
-                    console.warn('Failed to start user session (backend may not be ready):', error);
+                    log.warn('Failed to start user session (backend may not be ready)', error);
                 });
         }
     }, [userEmail, sessionId, isClient, isInitialized]);
 
+    // The app's server routes know the user only through the session cookie issued here
+    useEffect(() => {
+        if (!userEmail) {
+            return;
+        }
+        let isCurrent = true;
+        serverSession.signIn(userEmail)
+            .then(() => {
+                if (isCurrent) {
+                    setHasServerSession(true);
+                }
+            })
+            .catch(error => {
+                log.warn('Could not sign in to the server routes - saved credentials are unavailable', error);
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [userEmail]);
+
+    // Saved credential hosts - shown next to the repository URL
+    useEffect(() => {
+        if (hasServerSession) {
+            credentialsService.list().catch(error => {
+                log.warn('Could not load saved repository credentials', error);
+            });
+        }
+    }, [hasServerSession]);
+
+    const openCredentials = (host?: string) => {
+        setCredentialsHost(host ?? null);
+        setIsCredentialsOpen(true);
+    };
+
     // Handle email submission
     const handleEmailSubmit = (email: string) => {
         localStorage.setItem('userEmail', email);
@@ -67,6 +151,11 @@ const CodeAnalyzerDashboard: React.FC = () => {
     // Handle logout
     const handleLogout = () => {
         localStorage.removeItem('userEmail');
+        setHasServerSession(false);
+        credentialsService.forget();
+        serverSession.signOut().catch(error => {
+            log.warn('Could not end the server session', error);
+        });
         clearSession(); // Clear chat session
         setUserEmail(null);
     };
@@ -74,17 +163,18 @@ const CodeAnalyzerDashboard: React.FC = () => {
     // Handle repository selection from menu
     const handleRepositorySelect = async (repositoryUrl: string) => {
         try {
-            // Load repository session and files
-            setRepoUrl(repositoryUrl);
-            
+            // Reopen the repository's analysis job when there is one - it sets its own context
+            if (openRepository(repositoryUrl)) {
+                return;
+            }
+
             // Set repository context using our consistent sessionId (wait for initialization)
             if (userEmail && sessionId && isInitialized) {
-                console.log('Setting repository context with sessionId:', sessionId);
-                const sessionResponse = await apiService.continueUserSession(sessionId, userEmail, repositoryUrl);
-                console.log('Continue session response:', sessionResponse);
+                await apiService.continueUserSession(sessionId, userEmail, repositoryUrl);
+                log.info('Repository selected from history', { repositoryUrl });
             }
         } catch (error) {
-            console.error('Failed to load repository:', error);
+            log.error('Failed to load repository', error);
         }
     };
 
@@ -98,7 +188,7 @@ const CodeAnalyzerDashboard: React.FC = () => {
                             AI Code Analysis Agent
                         </h1>
                         <p className="text-gray-600">
-                            Analyze Java repositories with natural language queries
+                            Analyze code repositories with natural language queries
                         </p>
                     </div>
                     <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 h-[calc(100vh-200px)]">
@@ -143,8 +233,10 @@ const CodeAnalyzerDashboard: React.FC = () => {
     const handleFileSelect = (filePath: string | FileTreeNode | { isFile: true; fullPath: string }) => {
         if (typeof filePath === 'string') {
             setSelectedFile(filePath);
+            setIsViewerOpen(true);
         } else if (filePath && typeof filePath === 'object' && 'isFile' in filePath && filePath.isFile === true && 'fullPath' in filePath) {
             setSelectedFile(typeof filePath.fullPath === 'string' ? filePath.fullPath : null);
+            setIsViewerOpen(true);
         }
     };
 
@@ -157,15 +249,23 @@ const CodeAnalyzerDashboard: React.FC = () => {
                     <div className="flex justify-between items-center mb-6">
                         <UserMenu 
                             userEmail={userEmail}
+                            sessionId={sessionId}
                             onLogout={handleLogout}
                             onSelectRepository={handleRepositorySelect}
+                            onManageCredentials={() => openCredentials()}
                         />
-                        {repoUrl && (
+                        {analyzedRepoUrl && (
                             <div className="flex items-center space-x-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg">
                                 <Github className="w-4 h-4 text-blue-600" />
                                 <span className="text-sm font-medium text-blue-700">
-                                    {repoUrl.split('/').slice(-2).join('/')}
+                                    {describeRepository(analyzedRepoUrl)}
                                 </span>
+                                {analyzedRef && (
+                                    <span className="flex items-center px-2 py-0.5 bg-white border border-blue-200 rounded text-xs font-mono text-blue-700" title="Analyzed ref">
+                                        <GitBranch className="w-3 h-3 mr-1" />
+                                        {analyzedRef}
+                                    </span>
+                                )}
                             </div>
                         )}
                     </div>
@@ -176,28 +276,24 @@ const CodeAnalyzerDashboard: React.FC = () => {
                             AI Code Analysis Agent
                         </h1>
                         <p className="text-gray-600">
-                            Analyze Java repositories with natural language queries
+                            Analyze code repositories with natural language queries
                         </p>
                     </div>
 
-                    {/* Repository Status */}
-                    {repoUrl && (
-                        <div className="mt-4 text-center">
-
-                            {/* Debug: Manual Complete Button (remove in production) */}
-                            {isAnalyzing && (
-                                <div className="space-y-2">
-                                    <button
-                                        onClick={completeAnalysis}
-                                        className="px-4 py-1 bg-green-500 text-white text-xs rounded-full hover:bg-green-600 transition-colors"
-                                    >
-                                        Complete Analysis & Load Files
-                                    </button>
-                                    {/* Debug info */}
-                                    <p className="text-xs text-gray-500">
-                                        Session: {sessionId ? `Active (${sessionId.substring(0, 10)}...)` : 'None'}
-                                    </p>
+                    {/* Backend Connectivity & Profile Selection */}
+                    <div className="mt-4 max-w-xl mx-auto">
+                        <BackendStatus />
+                    </div>
+
+                    {/* Live Analysis Progress */}
+                    {isAnalyzing && (
+                        <div className="mt-3 max-w-xl mx-auto">
+                            {currentStatus === 'queued' ? (
+                                <div className="px-3 py-2 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600">
+                                    Waiting for a free analysis slot...
                                 </div>
+                            ) : (
+                                <AnalysisProgress status={analysisStatus} startedAt={analysisStartedAt} />
                             )}
                         </div>
                     )}
@@ -209,36 +305,100 @@ const CodeAnalyzerDashboard: React.FC = () => {
                     {/* Left Panel - File Structure */}
                     <div className="lg:col-span-1">
                         <FileExplorer
-                            fileStructure={fileStructure}
+                            fileTree={fileTree}
+                            isBuildingTree={isBuildingTree}
+                            treeView={treeView}
+                            onTreeViewChange={setTreeView}
                             selectedFile={selectedFile}
                             onFileSelect={handleFileSelect}
                             onExplainFile={explainFile}
+                            excludedFiles={excludedFiles}
+                            fileChanges={fileChanges}
+                            changeSummary={changeSummary}
+                            onAskAboutChanges={askAboutChanges}
+                            onAskAboutFiles={askAboutFiles}
+                            springComponents={springComponents}
+                            onFileAction={runFileAction}
                         />
                     </div>
 
-                    {/* Center Panel - Repository Input */}
-                    <div className="lg:col-span-2">
-                        <RepositoryInput
-                            repoUrl={repoUrl}
-                            isAnalyzing={isAnalyzing}
-                            currentStatus={currentStatus}
-                            onUrlChange={setRepoUrl}
-                            onAnalyze={analyzeRepository}
-                            onAskQuestion={askQuestion}
-                            explainFileQuestion={explainFileQuestion}
-                            qaHistory={qaHistory}
-                        />
+                    {/* Center Panel - Code Viewer & Repository Input */}
+                    <div className="lg:col-span-2 flex flex-col gap-6 min-h-0">
+                        {isViewerOpen && selectedFile && analyzedRepoUrl && (
+                            <div className="h-[45%] min-h-0 flex-shrink-0">
+                                <CodeViewer
+                                    repoUrl={analyzedRepoUrl}
+                                    repoRef={analyzedRef ?? undefined}
+                                    filePath={selectedFile}
+                                    onAskAboutLines={askAboutLines}
+                                    onClose={() => setIsViewerOpen(false)}
+                                />
+                            </div>
+                        )}
+                        <div className="flex-1 min-h-0 overflow-y-auto">
+                            <RepositoryInput
+                                repoUrl={repoUrl}
+                                isAnalyzing={isAnalyzing}
+                                currentStatus={currentStatus}
+                                onUrlChange={setRepoUrl}
+                                repoRef={repoRef}
+                                onRefChange={setRepoRef}
+                                analysisOptions={analysisOptions}
+                                onOptionsChange={setAnalysisOptions}
+                                analysisError={analysisError}
+                                accessDenied={accessDenied}
+                                onManageCredentials={openCredentials}
+                                upload={upload}
+                                onUploadArchive={uploadArchive}
+                                onCancelUpload={cancelUpload}
+                                onReanalyze={activeJobId ? () => reanalyzeJob(activeJobId) : undefined}
+                                analyzedCommit={analyzedCommit}
+                                onAnalyze={analyzeRepository}
+                                onAskQuestion={askQuestion}
+                                onStopAnalysis={cancelAnalysis}
+                                onStopQuestion={cancelQuestion}
+                                explainFileQuestion={explainFileQuestion}
+                                qaHistory={qaHistory}
+                                onOpenFile={handleFileSelect}
+                            />
+                        </div>
                     </div>
 
-                    {/* Right Panel - History */}
-                    <div className="lg:col-span-1">
-                        <HistoryPanel
-                            history={analysisHistory}
-                            currentStatus={currentStatus}
-                        />
+                    {/* Right Panel - Jobs & History */}
+                    <div className="lg:col-span-1 flex flex-col gap-6 min-h-0">
+                        <div className="max-h-[40%] flex flex-col">
+                            <JobsPanel
+                                jobs={jobs}
+                                activeJobId={activeJobId}
+                                onSelectJob={switchJob}
+                                onQueueRepository={queueRepository}
+                                onPrioritizeJob={prioritizeJob}
+                                onCancelJob={cancelJob}
+                                onRemoveJob={removeJob}
+                                onReanalyzeJob={reanalyzeJob}
+                            />
+                        </div>
+                        <div className="flex-1 min-h-0">
+                            <HistoryPanel
+                                history={analysisHistory}
+                                currentStatus={currentStatus}
+                            />
+                        </div>
                     </div>
                 </div>
             </div>
+
+            <CredentialsManager
+                isOpen={isCredentialsOpen}
+                initialHost={credentialsHost}
+                onClose={() => setIsCredentialsOpen(false)}
+            />
+
+            {/* Debug console - development only unless NEXT_PUBLIC_DEBUG_CONSOLE is set */}
+            <DebugDrawer
+                sessionId={sessionId}
+                currentStatus={currentStatus}
+            />
         </div>
     );
 };
@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, ChevronUp, FileCode, Loader, MessageCircle, Search, X } from 'lucide-react';
+import { apiService, isRequestCancelled } from '@/services/api';
+import { FileContent } from '@/types';
+import { detectLanguage } from '@/utils/languages';
+import { createLogger } from '@/utils/logger';
+import { computeFoldRegions, FoldRegion, SourceToken, TokenKind, tokenizeSource } from '@/utils/syntaxHighlighter';
+
+const log = createLogger('viewer');
+
+interface CodeViewerProps {
+    repoUrl: string;
+    repoRef?: string;
+    filePath: string;
+    onAskAboutLines: (filePath: string, startLine: number, endLine: number, snippet: string, question: string) => void;
+    onClose: () => void;
+}
+
+// Line numbers are 1-based like in editors
+interface LineRange {
+    start: number;
+    end: number;
+}
+
+interface SearchMatch {
+    line: number;
+    from: number;
+    to: number;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+    keyword: 'text-purple-700 font-medium',
+    type: 'text-blue-700',
+    string: 'text-green-700',
+    comment: 'text-gray-400 italic',
+    annotation: 'text-amber-700',
+    number: 'text-orange-600',
+    punctuation: 'text-gray-600',
+    plain: 'text-gray-900',
+};
+
+const findMatches = (lines: string[], query: string): SearchMatch[] => {
+    if (!query) {
+        return [];
+    }
+    const needle = query.toLowerCase();
+    const matches: SearchMatch[] = [];
+    lines.forEach((text, index) => {
+        const haystack = text.toLowerCase();
+        let from = haystack.indexOf(needle);
+        while (from !== -1) {
+            matches.push({ line: index + 1, from, to: from + needle.length });
+            from = haystack.indexOf(needle, from + needle.length);
+        }
+    });
+    return matches;
+};
+
+// Tokens of one line, cut at search match boundaries so matches can be marked
+const renderTokens = (tokens: SourceToken[], matches: SearchMatch[], active: SearchMatch | null): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let offset = 0;
+    tokens.forEach(token => {
+        const tokenEnd = offset + token.text.length;
+        const cuts = new Set([offset, tokenEnd]);
+        matches.forEach(match => {
+            [match.from, match.to].filter(cut => cut > offset && cut < tokenEnd).forEach(cut => cuts.add(cut));
+        });
+        const points = [...cuts].sort((a, b) => a - b);
+        for (let i = 0; i < points.length - 1; i++) {
+            const match = matches.find(candidate => candidate.from <= points[i] && candidate.to >= points[i + 1]);
+            const text = token.text.slice(points[i] - offset, points[i + 1] - offset);
+            const highlight = match ? (match === active ? ' bg-orange-300' : ' bg-yellow-200') : '';
+            nodes.push(<span key={`${points[i]}`} className={`${TOKEN_CLASSES[token.kind]}${highlight}`}>{text}</span>);
+        }
+        offset = tokenEnd;
+    });
+    return nodes;
+};
+
+// Read-only source view of the selected file, with folding, in-file search and line-range questions
+const CodeViewer: React.FC<CodeViewerProps> = ({ repoUrl, repoRef, filePath, onAskAboutLines, onClose }) => {
+    const [file, setFile] = useState<FileContent | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [foldedStarts, setFoldedStarts] = useState<Set<number>>(new Set());
+    const [query, setQuery] = useState('');
+    const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+    const [selection, setSelection] = useState<LineRange | null>(null);
+    const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+    const [lineQuestion, setLineQuestion] = useState('');
+    const codeRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setError(null);
+        setFile(null);
+        setFoldedStarts(new Set());
+        setSelection(null);
+        setSelectionAnchor(null);
+        apiService.getFileContent(repoUrl, filePath, { ref: repoRef || undefined, signal: controller.signal })
+            .then(setFile)
+            .catch(loadError => {
+                if (isRequestCancelled(loadError)) {
+                    return;
+                }
+                log.warn('Could not load file content', { filePath, error: loadError });
+                setError(loadError instanceof Error ? loadError.message : 'Could not load the file');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) {
+                    setIsLoading(false);
+                }
+            });
+        return () => controller.abort();
+    }, [repoUrl, repoRef, filePath]);
+
+    const sourceLines = useMemo(() => file ? file.content.replace(/\r\n?/g, '\n').split('\n') : [], [file]);
+    const fileName = filePath.split('/').pop() || filePath;
+    const language = detectLanguage(filePath);
+    const tokenLines = useMemo(
+        () => file ? tokenizeSource(file.content, language.id, fileName) : [],
+        [file, language.id, fileName]
+    );
+    const foldRegions = useMemo(() => {
+        const regions = new Map<number, FoldRegion>();
+        computeFoldRegions(tokenLines).forEach(region => regions.set(region.start, region));
+        return regions;
+    }, [tokenLines]);
+
+    const matches = useMemo(() => findMatches(sourceLines, query), [sourceLines, query]);
+    const activeMatch = matches.length > 0 ? matches[Math.min(activeMatchIndex, matches.length - 1)] : null;
+
+    // 0-based indexes of the lines left after folding
+    const visibleLines = useMemo(() => {
+        const visible: number[] = [];
+        for (let index = 0; index < tokenLines.length; index++) {
+            visible.push(index);
+            const region = foldRegions.get(index);
+            if (region && foldedStarts.has(index)) {
+                index = region.end - 1;
+            }
+        }
+        return visible;
+    }, [tokenLines, foldRegions, foldedStarts]);
+
+    // Jumping to a match opens any fold hiding it and scrolls it into view
+    useEffect(() => {
+        if (!activeMatch) {
+            return;
+        }
+        const lineIndex = activeMatch.line - 1;
+        setFoldedStarts(previous => {
+            const hiding = [...previous].filter(start => {
+                const region = foldRegions.get(start);
+                return region && start < lineIndex && lineIndex < region.end;
+            });
+            if (hiding.length === 0) {
+                return previous;
+            }
+            const next = new Set(previous);
+            hiding.forEach(start => next.delete(start));
+            return next;
+        });
+        requestAnimationFrame(() => {
+            codeRef.current?.querySelector(`[data-line="${activeMatch.line}"]`)?.scrollIntoView({ block: 'nearest' });
+        });
+    }, [activeMatch, foldRegions]);
+
+    const toggleFold = (start: number) => {
+        setFoldedStarts(previous => {
+            const next = new Set(previous);
+            if (next.has(start)) {
+                next.delete(start);
+            } else {
+                next.add(start);
+            }
+            return next;
+        });
+    };
+
+    const stepMatch = (direction: 1 | -1) => {
+        if (matches.length > 0) {
+            setActiveMatchIndex(current => (Math.min(current, matches.length - 1) + direction + matches.length) % matches.length);
+        }
+    };
+
+    const handleLineClick = (line: number, extend: boolean) => {
+        if (extend && selectionAnchor !== null) {
+            setSelection({ start: Math.min(selectionAnchor, line), end: Math.max(selectionAnchor, line) });
+            return;
+        }
+        if (selection && selection.start === line && selection.end === line) {
+            setSelection(null);
+            setSelectionAnchor(null);
+            return;
+        }
+        setSelection({ start: line, end: line });
+        setSelectionAnchor(line);
+    };
+
+    const askAboutSelection = () => {
+        if (!selection || !lineQuestion.trim()) {
+            return;
+        }
+        const snippet = sourceLines.slice(selection.start - 1, selection.end).join('\n');
+        onAskAboutLines(filePath, selection.start, selection.end, snippet, lineQuestion);
+        setLineQuestion('');
+    };
+
+    const gutterWidth = `${String(sourceLines.length).length + 1}ch`;
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border flex flex-col min-h-0 h-full">
+            <div className="px-4 py-2 border-b bg-gray-50 flex items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-gray-900 flex items-center min-w-0" title={filePath}>
+                    <FileCode className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="truncate">{fileName}</span>
+                    {sourceLines.length > 0 && (
+                        <span className="ml-2 text-xs font-normal text-gray-500 flex-shrink-0">{language.label} · {sourceLines.length} lines</span>
+                    )}
+                </h3>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <div className="flex items-center border border-gray-300 rounded-md bg-white px-2">
+                        <Search className="w-3.5 h-3.5 text-gray-400" />
+                        <input
+                            type="text"
+                            value={query}
+                            onChange={(e) => {
+                                setQuery(e.target.value);
+                                setActiveMatchIndex(0);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    stepMatch(e.shiftKey ? -1 : 1);
+                                } else if (e.key === 'Escape') {
+                                    setQuery('');
+                                }
+                            }}
+                            placeholder="Find in file"
+                            className="w-32 px-1.5 py-1 text-xs focus:outline-none"
+                        />
+                        {query && (
+                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                                {matches.length > 0 ? `${Math.min(activeMatchIndex, matches.length - 1) + 1}/${matches.length}` : '0/0'}
+                            </span>
+                        )}
+                    </div>
+                    <button onClick={() => stepMatch(-1)} disabled={matches.length === 0} className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300" title="Previous match (Shift+Enter)">
+                        <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => stepMatch(1)} disabled={matches.length === 0} className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-300" title="Next match (Enter)">
+                        <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700" title="Close viewer">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div ref={codeRef} className="flex-1 min-h-0 overflow-auto font-mono text-xs leading-5">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-8 text-gray-500 font-sans text-sm">
+                        <Loader className="w-4 h-4 mr-2 animate-spin" />
+                        Loading {fileName}...
+                    </div>
+                ) : error ? (
+                    <div className="p-4 text-sm text-red-600 font-sans">{error}</div>
+                ) : (
+                    <div style={{ minWidth: 'max-content' }}>
+                        {visibleLines.map(index => {
+                            const line = index + 1;
+                            const region = foldRegions.get(index);
+                            const isFolded = region !== undefined && foldedStarts.has(index);
+                            const isSelected = selection !== null && line >= selection.start && line <= selection.end;
+                            const lineMatches = matches.filter(match => match.line === line);
+                            return (
+                                <div key={index} data-line={line} className={`flex ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                                    <button
+                                        onClick={(e) => handleLineClick(line, e.shiftKey)}
+                                        className={`text-right pr-2 select-none flex-shrink-0 ${isSelected ? 'text-blue-600' : 'text-gray-400 hover:text-gray-700'}`}
+                                        style={{ width: gutterWidth }}
+                                        title="Select line (Shift+click to select a range)"
+                                    >
+                                        {line}
+                                    </button>
+                                    <span className="w-4 flex-shrink-0 select-none">
+                                        {region && (
+                                            <button onClick={() => toggleFold(index)} className="text-gray-400 hover:text-gray-700 align-middle" title={isFolded ? 'Unfold' : 'Fold'}>
+                                                {isFolded ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                            </button>
+                                        )}
+                                    </span>
+                                    <span className="whitespace-pre pr-4">
+                                        {renderTokens(tokenLines[index], lineMatches, activeMatch)}
+                                        {isFolded && region && (
+                                            <button
+                                                onClick={() => toggleFold(index)}
+                                                className="ml-1 px-1 rounded bg-gray-100 text-gray-500 hover:bg-gray-200 font-sans"
+                                                title="Unfold"
+                                            >
+                                                ⋯ {region.end - index - 1} lines
+                                            </button>
+                                        )}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Question about the selected lines */}
+            {selection && (
+                <div className="p-3 border-t bg-gray-50">
+                    <div className="flex items-center justify-between mb-2 text-xs text-gray-600">
+                        <span>
+                            {selection.start === selection.end ? `Line ${selection.start}` : `Lines ${selection.start}–${selection.end}`} selected
+                        </span>
+                        <button
+                            onClick={() => {
+                                setSelection(null);
+                                setSelectionAnchor(null);
+                            }}
+                            className="text-gray-400 hover:text-gray-700"
+                            title="Clear selection"
+                        >
+                            <X className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={lineQuestion}
+                            onChange={(e) => setLineQuestion(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    askAboutSelection();
+                                }
+                            }}
+                            placeholder="Ask about these lines, e.g. why is this synchronized?"
+                            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                            onClick={askAboutSelection}
+                            disabled={!lineQuestion.trim()}
+                            className="px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 disabled:bg-gray-300 flex items-center"
+                        >
+                            <MessageCircle className="w-4 h-4 mr-1" />
+                            Ask
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CodeViewer;
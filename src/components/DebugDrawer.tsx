@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bug, Trash2, X } from 'lucide-react';
+import { clearLogEntries, getLogEntries, LogEntry, LogLevel, subscribeToLogs } from '@/utils/logger';
+
+interface DebugDrawerProps {
+    sessionId: string | null;
+    currentStatus: string;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Shown in development, or in other builds when explicitly enabled
+const isDebugConsoleEnabled = () =>
+    process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_DEBUG_CONSOLE === 'true';
+
+const levelClasses: Record<LogLevel, string> = {
+    debug: 'text-gray-500',
+    info: 'text-blue-600',
+    warn: 'text-amber-600',
+    error: 'text-red-600',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+});
+
+const DebugDrawer: React.FC<DebugDrawerProps> = ({ sessionId, currentStatus }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [entries, setEntries] = useState<LogEntry[]>([]);
+    const [namespace, setNamespace] = useState('all');
+    const [minLevel, setMinLevel] = useState<LogLevel>('debug');
+
+    // Only follow the log buffer while the drawer is open
+    useEffect(() => {
+        if (!isOpen) {
+            return;
+        }
+        setEntries(getLogEntries());
+        return subscribeToLogs(setEntries);
+    }, [isOpen]);
+
+    // Namespaces that have logged something, plus the selected one so a cleared log keeps it
+    const namespaces = useMemo(
+        () => ['all', ...Array.from(new Set([...entries.map(entry => entry.namespace), namespace].filter(name => name !== 'all'))).sort()],
+        [entries, namespace]
+    );
+
+    const visibleEntries = useMemo(() => entries
+        .filter(entry => namespace === 'all' || entry.namespace === namespace)
+        .filter(entry => LEVELS.indexOf(entry.level) >= LEVELS.indexOf(minLevel))
+        .reverse(), [entries, namespace, minLevel]);
+
+    if (!isDebugConsoleEnabled()) {
+        return null;
+    }
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                className="fixed bottom-4 right-4 z-40 flex items-center space-x-1 px-3 py-2 bg-gray-800 text-white text-xs rounded-full shadow-lg hover:bg-gray-700 transition-colors"
+                title="Open debug console"
+            >
+                <Bug className="w-4 h-4" />
+                <span>Debug</span>
+            </button>
+        );
+    }
+
+    return (
+        <div className="fixed inset-x-0 bottom-0 z-40 h-80 bg-white border-t border-gray-300 shadow-2xl flex flex-col">
+            <div className="flex items-center justify-between px-4 py-2 border-b bg-gray-50">
+                <div className="flex items-center space-x-3 text-xs">
+                    <Bug className="w-4 h-4 text-gray-700" />
+                    <span className="font-semibold text-gray-900">Debug console</span>
+                    <span className="text-gray-500">
+                        Status: <span className="font-medium text-gray-700">{currentStatus}</span>
+                    </span>
+                    <span className="text-gray-500">
+                        Session: {sessionId ? `${sessionId.substring(0, 12)}…` : 'None'}
+                    </span>
+                </div>
+                <div className="flex items-center space-x-2 text-xs">
+                    <select
+                        value={namespace}
+                        onChange={(e) => setNamespace(e.target.value)}
+                        className="border border-gray-300 rounded px-1 py-0.5"
+                    >
+                        {namespaces.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={minLevel}
+                        onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+                        className="border border-gray-300 rounded px-1 py-0.5"
+                    >
+                        {LEVELS.map(level => (
+                            <option key={level} value={level}>{level}+</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={clearLogEntries}
+                        className="p-1 text-gray-500 hover:text-gray-800"
+                        title="Clear log"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setIsOpen(false)}
+                        className="p-1 text-gray-500 hover:text-gray-800"
+                        title="Close debug console"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto font-mono text-xs px-4 py-2 space-y-1">
+                {visibleEntries.length === 0 ? (
+                    <p className="text-gray-400">No log entries yet.</p>
+                ) : (
+                    visibleEntries.map(entry => (
+                        <div key={entry.id} className="flex items-start space-x-2">
+                            <span className="text-gray-400 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                            <span className={`w-10 flex-shrink-0 uppercase ${levelClasses[entry.level]}`}>{entry.level}</span>
+                            <span className="w-16 flex-shrink-0 text-purple-600">{entry.namespace}</span>
+                            <span className="text-gray-800 break-all">
+                                {entry.message}
+                                {entry.data !== undefined && (
+                                    <span className="text-gray-500"> {JSON.stringify(entry.data)}</span>
+                                )}
+                            </span>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DebugDrawer;
@@ -0,0 +1,128 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Bug, Copy, FileSearch, FlaskConical, FolderSearch, LucideIcon, ScrollText, Search } from 'lucide-react';
+import { FileAction } from '@/types';
+
+interface FileContextMenuProps {
+    path: string;
+    isFolder: boolean;
+    x: number;
+    y: number;
+    onAction: (action: FileAction) => void;
+    onCopyPath: () => void;
+    onClose: () => void;
+}
+
+interface MenuItem {
+    label: string;
+    icon: LucideIcon;
+    action: FileAction | 'copyPath';
+}
+
+const FILE_ITEMS: MenuItem[] = [
+    { label: 'Explain', icon: Search, action: 'explain' },
+    { label: 'Summarize', icon: ScrollText, action: 'summarize' },
+    { label: 'Find usages', icon: FileSearch, action: 'findUsages' },
+    { label: 'Generate unit tests', icon: FlaskConical, action: 'generateTests' },
+    { label: 'Review for bugs', icon: Bug, action: 'reviewBugs' },
+    { label: 'Copy path', icon: Copy, action: 'copyPath' },
+];
+
+const FOLDER_ITEMS: MenuItem[] = [
+    { label: 'Summarize this package', icon: FolderSearch, action: 'summarizePackage' },
+    { label: 'Copy path', icon: Copy, action: 'copyPath' },
+];
+
+// Keeps the menu this far from the window edges
+const EDGE_MARGIN = 8;
+
+// Right-click menu for a file explorer row. Opens at the pointer (or below the focused row when
+// opened from the keyboard) and closes on any outside click, Escape or once an item is picked.
+const FileContextMenu: React.FC<FileContextMenuProps> = ({ path, isFolder, x, y, onAction, onCopyPath, onClose }) => {
+    const menuRef = useRef<HTMLDivElement>(null);
+    const [position, setPosition] = useState({ left: x, top: y });
+    const items = isFolder ? FOLDER_ITEMS : FILE_ITEMS;
+
+    // Flip back inside the window when the menu would overflow it
+    useLayoutEffect(() => {
+        const menu = menuRef.current;
+        if (!menu) {
+            return;
+        }
+        setPosition({
+            left: Math.max(EDGE_MARGIN, Math.min(x, window.innerWidth - menu.offsetWidth - EDGE_MARGIN)),
+            top: Math.max(EDGE_MARGIN, Math.min(y, window.innerHeight - menu.offsetHeight - EDGE_MARGIN)),
+        });
+        menu.querySelector('button')?.focus();
+    }, [x, y]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // Arrow keys move between items
+    const handleMenuKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') {
+            return;
+        }
+        e.preventDefault();
+        const buttons = Array.from(menuRef.current?.querySelectorAll('button') ?? []);
+        const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        buttons[(index + step + buttons.length) % buttons.length]?.focus();
+    };
+
+    const pick = (item: MenuItem) => {
+        if (item.action === 'copyPath') {
+            onCopyPath();
+        } else {
+            onAction(item.action);
+        }
+        onClose();
+    };
+
+    return (
+        <>
+            <div
+                className="fixed inset-0 z-40"
+                onClick={onClose}
+                onContextMenu={(e) => {
+                    e.preventDefault();
+                    onClose();
+                }}
+            />
+            <div
+                ref={menuRef}
+                role="menu"
+                aria-label={`Actions for ${path}`}
+                onKeyDown={handleMenuKeyDown}
+                className="fixed z-50 min-w-48 py-1 bg-white border border-gray-200 rounded-md shadow-lg text-sm"
+                style={position}
+            >
+                <div className="px-3 py-1 text-[11px] text-gray-400 truncate max-w-64" title={path}>
+                    {path.split('/').pop() || path}
+                </div>
+                {items.map((item, index) => (
+                    <React.Fragment key={item.action}>
+                        {item.action === 'copyPath' && index > 0 && <div className="my-1 border-t border-gray-100" />}
+                        <button
+                            role="menuitem"
+                            onClick={() => pick(item)}
+                            className="w-full flex items-center px-3 py-1.5 text-left text-gray-800 hover:bg-blue-50 focus:bg-blue-50 focus:outline-none"
+                        >
+                            <item.icon className="w-4 h-4 mr-2 text-gray-500" />
+                            {item.label}
+                        </button>
+                    </React.Fragment>
+                ))}
+            </div>
+        </>
+    );
+};
+
+export default FileContextMenu;
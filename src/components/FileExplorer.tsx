@@ -1,17 +1,160 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { FileText, Folder, FolderOpen, Search } from 'lucide-react';
-import { FileExplorerProps, FileTreeNode } from '@/types';
+import React, { useState, useRef, useEffect, useCallback, useDeferredValue, useMemo } from 'react';
+import {
+    BookOpen,
+    Boxes,
+    CheckSquare,
+    ChevronsDownUp,
+    ChevronsUpDown,
+    Coffee,
+    Container,
+    Database,
+    FileCode,
+    FileCode2,
+    FileCog,
+    FileJson,
+    FileText,
+    Filter,
+    FlaskConical,
+    Folder,
+    FolderOpen,
+    FolderTree,
+    GitCompare,
+    Globe,
+    Hammer,
+    Layers,
+    Loader,
+    LucideIcon,
+    Package,
+    Palette,
+    Search,
+    Terminal,
+    Workflow,
+    X,
+} from 'lucide-react';
+import { FileAction, FileChangeKind, FileExplorerProps, FileTreeView, MultiFileAction, SpringComponent, SpringStereotype } from '@/types';
+import { countChanges, shortCommit } from '@/utils/fileChanges';
+import { folderPaths, visibleTreeRows, withAncestors } from '@/utils/fileTree';
+import { FuzzyMatch, fuzzyMatchPath } from '@/utils/fuzzyMatch';
+import { detectLanguage, LanguageId, languageBreakdown } from '@/utils/languages';
+import FileContextMenu from './FileContextMenu';
+
+const CHANGE_BADGES: Record<FileChangeKind, { label: string; title: string; className: string }> = {
+    added: { label: 'A', title: 'Added since last analysis', className: 'bg-green-100 text-green-700' },
+    modified: { label: 'M', title: 'Modified since last analysis', className: 'bg-amber-100 text-amber-700' },
+    removed: { label: 'D', title: 'Removed since last analysis', className: 'bg-red-100 text-red-700' },
+};
+
+// In the order the filter chips are shown
+const STEREOTYPE_BADGES: Record<SpringStereotype, { label: string; className: string }> = {
+    Controller: { label: 'CTRL', className: 'bg-blue-100 text-blue-700' },
+    Service: { label: 'SVC', className: 'bg-purple-100 text-purple-700' },
+    Repository: { label: 'REPO', className: 'bg-emerald-100 text-emerald-700' },
+    Configuration: { label: 'CONF', className: 'bg-orange-100 text-orange-700' },
+    Entity: { label: 'ENT', className: 'bg-cyan-100 text-cyan-800' },
+    Component: { label: 'COMP', className: 'bg-gray-200 text-gray-700' },
+};
+
+// Entities are not beans, so they have no bean name or injected dependencies to show
+const componentTooltip = (component: SpringComponent): string => component.stereotype === 'Entity' ? `@Entity ${component.name}` : [
+    `@${component.stereotype} ${component.name}`,
+    `Bean: ${component.beanName ?? component.name.charAt(0).toLowerCase() + component.name.slice(1)}`,
+    component.dependencies.length > 0 ? `Injects: ${component.dependencies.join(', ')}` : 'No injected dependencies',
+].join('\n');
+
+const LANGUAGE_ICONS: Record<LanguageId, LucideIcon> = {
+    java: Coffee,
+    kotlin: FileCode2,
+    groovy: FileCode2,
+    typescript: FileCode,
+    javascript: FileCode,
+    python: FileCode,
+    go: FileCode,
+    sql: Database,
+    yaml: FileCog,
+    properties: FileCog,
+    json: FileJson,
+    xml: FileCode,
+    html: Globe,
+    css: Palette,
+    markdown: BookOpen,
+    shell: Terminal,
+    build: Hammer,
+    docker: Container,
+    other: FileText,
+};
+
+const TREE_VIEWS: { view: FileTreeView; label: string; icon: LucideIcon }[] = [
+    { view: 'directory', label: 'Directories', icon: FolderTree },
+    { view: 'package', label: 'Packages', icon: Package },
+];
+
+const MULTI_FILE_ACTIONS: { action: MultiFileAction; label: string; icon: LucideIcon; title: string }[] = [
+    { action: 'explain', label: 'Explain together', icon: Layers, title: 'Explain how the selected files work together' },
+    { action: 'compare', label: 'Compare', icon: GitCompare, title: 'Compare the selected files' },
+    { action: 'trace', label: 'Trace interactions', icon: Workflow, title: 'Trace the calls between the selected files' },
+];
+// Larger selections make for a question too broad to answer well
+const MAX_FILES_PER_QUESTION = 20;
+
+// Rows have a fixed height so only the ones in view need to be rendered
+const ROW_HEIGHT = 28;
+const TREE_PADDING = 16;
+const OVERSCAN_ROWS = 10;
+const INDENT_PX = 16;
+
+// Name with the matched characters marked; positions index into the full path
+const highlightName = (name: string, nameStart: number, positions?: number[]): React.ReactNode => {
+    const marked = new Set(positions?.filter(position => position >= nameStart && position < nameStart + name.length));
+    if (marked.size === 0) {
+        return name;
+    }
+    return [...name].map((char, index) => marked.has(nameStart + index)
+        ? <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{char}</mark>
+        : char);
+};
 
 const FileExplorer: React.FC<FileExplorerProps> = ({
-                                                       fileStructure,
+                                                       fileTree,
+                                                       isBuildingTree = false,
+                                                       treeView = 'directory',
+                                                       onTreeViewChange,
                                                        selectedFile,
                                                        onFileSelect,
-                                                       onExplainFile
+                                                       onExplainFile,
+                                                       excludedFiles,
+                                                       fileChanges,
+                                                       changeSummary,
+                                                       onAskAboutChanges,
+                                                       onAskAboutFiles,
+                                                       springComponents,
+                                                       onFileAction
                                                    }) => {
     const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
-    const [treeHeight, setTreeHeight] = useState<number>(200);
+    const [filter, setFilter] = useState('');
+    // Languages to show - empty shows every file
+    const [languageFilter, setLanguageFilter] = useState<Set<LanguageId>>(new Set());
+    // Spring stereotypes to show - empty shows every file
+    const [stereotypeFilter, setStereotypeFilter] = useState<Set<SpringStereotype>>(new Set());
+    const [focusedPath, setFocusedPath] = useState<string | null>(null);
+    // Files ticked for a combined question, in the order they were picked
+    const [checkedFiles, setCheckedFiles] = useState<Set<string>>(new Set());
+    // Where a shift-click range starts
+    const [anchorPath, setAnchorPath] = useState<string | null>(null);
+    const [contextMenu, setContextMenu] = useState<{ path: string; isFolder: boolean; x: number; y: number } | null>(null);
+    // File to explain once it has become the selected file
+    const [pendingExplain, setPendingExplain] = useState<string | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
     const fileTreeRef = useRef<HTMLDivElement>(null);
-    const contentRef = useRef<HTMLDivElement>(null);
+    // Matching runs over every path, so typing stays responsive while it catches up
+    const deferredFilter = useDeferredValue(filter);
+
+    // Ticked files that are no longer listed (another repository, a new analysis) are dropped
+    useEffect(() => {
+        setCheckedFiles(prev => [...prev].every(path => fileTree.index.has(path))
+            ? prev
+            : new Set([...prev].filter(path => fileTree.index.has(path))));
+    }, [fileTree]);
 
     // Auto-scroll to right function
     const autoScrollRight = useCallback(() => {
@@ -22,21 +165,49 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
         }, 100);
     }, []);
 
-    // Update height when expanded folders change
+    // Track the visible height so the rendered window covers it
     useEffect(() => {
-        if (contentRef.current) {
-            const contentHeight = contentRef.current.scrollHeight;
-            const newHeight = Math.min(contentHeight + 32, window.innerHeight * 0.6);
-            
-            // Only update if height actually changed to prevent infinite re-renders
-            setTreeHeight(prevHeight => {
-                if (Math.abs(prevHeight - newHeight) > 1) {
-                    return newHeight;
-                }
-                return prevHeight;
-            });
+        const element = fileTreeRef.current;
+        if (!element) {
+            return;
+        }
+        const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+        observer.observe(element);
+        setViewportHeight(element.clientHeight);
+        return () => observer.disconnect();
+    }, []);
+
+    // Folders whose files are all excluded by the analysis options are greyed out as well.
+    // Children always come after their parent, so one backwards pass settles every folder.
+    const excludedFolders = useMemo(() => {
+        const folders = new Set<string>();
+        if (!excludedFiles || excludedFiles.size === 0) {
+            return folders;
+        }
+        const allExcluded = fileTree.nodes.map(node => !node.isFile || excludedFiles.has(node.path));
+        for (let id = fileTree.nodes.length - 1; id >= 0; id--) {
+            const node = fileTree.nodes[id];
+            if (node.parent !== -1 && !allExcluded[id]) {
+                allExcluded[node.parent] = false;
+            }
+            if (!node.isFile && allExcluded[id]) {
+                folders.add(node.path);
+            }
         }
-    }, [expandedFolders, fileStructure]);
+        return folders;
+    }, [fileTree, excludedFiles]);
+
+    // Folders containing changed files get a marker so changes can be found when collapsed
+    const changedFolders = useMemo(() => {
+        const folders = new Set<string>();
+        fileChanges?.forEach((_, path) => {
+            const parts = path.split('/');
+            for (let depth = 1; depth < parts.length; depth++) {
+                folders.add(parts.slice(0, depth).join('/'));
+            }
+        });
+        return folders;
+    }, [fileChanges]);
 
     // Toggle folder expansion
     const toggleFolder = (path: string) => {
@@ -52,95 +223,705 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
         autoScrollRight();
     };
 
-    // Render file tree recursively
-    const renderFileTree = (tree: FileTreeNode, path = ''): React.ReactNode => {
-        return Object.entries(tree).map(([name, value]) => {
-            const currentPath = path ? `${path}/${name}` : name;
-
-            // Check if it's a file
-            if (typeof value === 'object' && 'isFile' in value && value.isFile) {
-                return (
-                    <div
-                        key={currentPath}
-                        className={`flex items-center py-1 px-2 cursor-pointer hover:bg-blue-50 rounded text-sm transition-colors ${
-                            selectedFile === value.fullPath ? 'bg-blue-100 border-l-2 border-blue-500' : ''
-                        }`}
-                        onClick={() => {
-                            onFileSelect(value.fullPath);
-                            autoScrollRight();
-                        }}
-                    >
-                        <FileText className="w-4 h-4 mr-2 text-gray-600 flex-shrink-0" />
-                        <span className="text-gray-900 whitespace-nowrap" title={name}>
-              {name}
-            </span>
-                    </div>
-                );
+    // Matched files by node id
+    const filterMatches = useMemo(() => {
+        const matches = new Map<number, FuzzyMatch>();
+        if (!deferredFilter.trim()) {
+            return matches;
+        }
+        fileTree.nodes.forEach((node, id) => {
+            if (node.isFile) {
+                const match = fuzzyMatchPath(deferredFilter, node.path);
+                if (match) {
+                    matches.set(id, match);
+                }
+            }
+        });
+        return matches;
+    }, [fileTree, deferredFilter]);
+
+    const fileLanguages = useMemo(
+        () => fileTree.nodes.map(node => node.isFile ? detectLanguage(node.path).id : null),
+        [fileTree]
+    );
+    const breakdown = useMemo(
+        () => languageBreakdown(fileTree.nodes.filter(node => node.isFile).map(node => node.path)),
+        [fileTree]
+    );
+
+    // Files per stereotype, for the filter chips
+    const stereotypeCounts = useMemo(() => {
+        const counts = new Map<SpringStereotype, number>();
+        springComponents?.forEach((component, path) => {
+            if (fileTree.index.has(path)) {
+                counts.set(component.stereotype, (counts.get(component.stereotype) ?? 0) + 1);
+            }
+        });
+        return (Object.keys(STEREOTYPE_BADGES) as SpringStereotype[])
+            .filter(stereotype => counts.has(stereotype))
+            .map(stereotype => ({ stereotype, files: counts.get(stereotype) as number }));
+    }, [fileTree, springComponents]);
+    // A filter on stereotypes that are no longer reported would hide every file
+    const activeStereotypes = useMemo(
+        () => new Set([...stereotypeFilter].filter(stereotype => stereotypeCounts.some(count => count.stereotype === stereotype))),
+        [stereotypeFilter, stereotypeCounts]
+    );
+
+    const isFiltering = deferredFilter.trim().length > 0 || languageFilter.size > 0 || activeStereotypes.size > 0;
+    // Files passing the name, language and stereotype filters
+    const matchedFiles = useMemo(() => {
+        if (!isFiltering) {
+            return undefined;
+        }
+        const candidates = deferredFilter.trim()
+            ? [...filterMatches.keys()]
+            : fileTree.nodes.flatMap((node, id) => node.isFile ? [id] : []);
+        return new Set(candidates.filter(id => {
+            if (languageFilter.size > 0 && !languageFilter.has(fileLanguages[id] as LanguageId)) {
+                return false;
+            }
+            const stereotype = springComponents?.get(fileTree.nodes[id].path)?.stereotype;
+            return activeStereotypes.size === 0 || (stereotype !== undefined && activeStereotypes.has(stereotype));
+        }));
+    }, [fileTree, fileLanguages, filterMatches, deferredFilter, languageFilter, springComponents, activeStereotypes, isFiltering]);
+    // While filtering, only matches and the folders leading to them are shown
+    const includedNodes = useMemo(
+        () => matchedFiles ? withAncestors(fileTree, matchedFiles) : undefined,
+        [fileTree, matchedFiles]
+    );
+
+    const toggleStereotype = (stereotype: SpringStereotype) => {
+        setStereotypeFilter(prev => {
+            const next = new Set(prev);
+            if (next.has(stereotype)) {
+                next.delete(stereotype);
             } else {
-                // It's a folder
-                const isExpanded = expandedFolders.has(currentPath);
-                return (
-                    <div key={currentPath}>
-                        <div
-                            className="flex items-center py-1 px-2 cursor-pointer hover:bg-gray-50 rounded text-sm font-medium transition-colors"
-                            onClick={() => toggleFolder(currentPath)}
-                        >
-                            {isExpanded ? (
-                                <FolderOpen className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
-                            ) : (
-                                <Folder className="w-4 h-4 mr-2 text-gray-600 flex-shrink-0" />
-                            )}
-                            <span className="text-gray-800 whitespace-nowrap" title={name}>
-                {name}
-              </span>
-                        </div>
-                        {isExpanded && (
-                            <div className="ml-4 border-l border-gray-200 pl-2">
-                                {renderFileTree(value as FileTreeNode, currentPath)}
-                            </div>
-                        )}
-                    </div>
-                );
+                next.add(stereotype);
+            }
+            return next;
+        });
+    };
+
+    const toggleLanguage = (language: LanguageId) => {
+        setLanguageFilter(prev => {
+            const next = new Set(prev);
+            if (next.has(language)) {
+                next.delete(language);
+            } else {
+                next.add(language);
+            }
+            return next;
+        });
+    };
+
+    // Folders leading to matches open up; they stay open when the filter is cleared
+    useEffect(() => {
+        if (includedNodes) {
+            const folders = folderPaths(fileTree, includedNodes);
+            setExpandedFolders(prev => folders.every(folder => prev.has(folder)) ? prev : new Set([...prev, ...folders]));
+        }
+    }, [fileTree, includedNodes]);
+
+    const visibleRows = useMemo(
+        () => visibleTreeRows(fileTree, expandedFolders, includedNodes),
+        [fileTree, expandedFolders, includedNodes]
+    );
+
+    const rowIndexOf = (path: string | null): number => {
+        const id = path === null ? undefined : fileTree.index.get(path);
+        return id === undefined ? -1 : visibleRows.indexOf(id);
+    };
+
+    // Keep the focused row in view - it may not be rendered yet, so scroll by position. Runs when
+    // the row moves (focus, view switch, rebuilt tree), not on every render.
+    const focusedIndex = useMemo(() => {
+        const id = focusedPath === null ? undefined : fileTree.index.get(focusedPath);
+        return id === undefined ? -1 : visibleRows.indexOf(id);
+    }, [focusedPath, fileTree, visibleRows]);
+    useEffect(() => {
+        const element = fileTreeRef.current;
+        if (!element || focusedIndex < 0) {
+            return;
+        }
+        const top = TREE_PADDING + focusedIndex * ROW_HEIGHT;
+        if (top < element.scrollTop) {
+            element.scrollTop = top - TREE_PADDING;
+        } else if (top + ROW_HEIGHT > element.scrollTop + element.clientHeight) {
+            element.scrollTop = top + ROW_HEIGHT + TREE_PADDING - element.clientHeight;
+        }
+    }, [focusedIndex]);
+
+    useEffect(() => {
+        if (pendingExplain && pendingExplain === selectedFile) {
+            setPendingExplain(null);
+            onExplainFile();
+        }
+    }, [pendingExplain, selectedFile, onExplainFile]);
+
+    const expandAll = () => setExpandedFolders(new Set(folderPaths(fileTree, includedNodes)));
+    const collapseAll = () => {
+        setExpandedFolders(new Set());
+        // Focus moves to the top-level entry holding the focused row
+        setFocusedPath(current => {
+            let id = current === null ? undefined : fileTree.index.get(current);
+            if (id === undefined) {
+                return current;
             }
+            while (fileTree.nodes[id].parent !== -1) {
+                id = fileTree.nodes[id].parent;
+            }
+            return fileTree.nodes[id].path;
         });
     };
 
-    const hasFiles = Object.keys(fileStructure).length > 0;
+    const selectFile = (filePath: string) => {
+        setFocusedPath(filePath);
+        onFileSelect(filePath);
+        autoScrollRight();
+    };
+
+    const toggleChecked = (filePath: string) => {
+        setCheckedFiles(prev => {
+            const next = new Set(prev);
+            if (next.has(filePath)) {
+                next.delete(filePath);
+            } else {
+                next.add(filePath);
+            }
+            return next;
+        });
+        setAnchorPath(filePath);
+    };
+
+    // Shift-click ticks every file shown between the anchor and the clicked row
+    const checkRange = (filePath: string) => {
+        const from = rowIndexOf(anchorPath ?? selectedFile);
+        const to = rowIndexOf(filePath);
+        if (from < 0 || to < 0) {
+            toggleChecked(filePath);
+            return;
+        }
+        const range = visibleRows
+            .slice(Math.min(from, to), Math.max(from, to) + 1)
+            .map(id => fileTree.nodes[id])
+            .filter(node => node.isFile)
+            .map(node => node.path);
+        setCheckedFiles(prev => new Set([...prev, ...range]));
+        setFocusedPath(filePath);
+    };
+
+    const explainPath = (filePath: string) => {
+        if (filePath === selectedFile) {
+            onExplainFile();
+        } else {
+            selectFile(filePath);
+            setPendingExplain(filePath);
+        }
+    };
+
+    const openContextMenu = (path: string, isFolder: boolean, x: number, y: number) => {
+        setFocusedPath(path);
+        setContextMenu({ path, isFolder, x, y });
+    };
+
+    // Opened from the keyboard, the menu appears under the focused row
+    const openContextMenuBelowRow = (rowIndex: number) => {
+        const element = fileTreeRef.current;
+        const node = fileTree.nodes[visibleRows[rowIndex]];
+        if (!element || !node) {
+            return;
+        }
+        const treeBox = element.getBoundingClientRect();
+        openContextMenu(
+            node.path,
+            !node.isFile,
+            treeBox.left + TREE_PADDING + node.depth * INDENT_PX - element.scrollLeft,
+            treeBox.top + TREE_PADDING + (rowIndex + 1) * ROW_HEIGHT - element.scrollTop
+        );
+    };
+
+    // Keyboard users carry on in the tree once the menu is gone
+    const closeContextMenu = useCallback(() => {
+        setContextMenu(null);
+        fileTreeRef.current?.focus();
+    }, []);
+
+    // Files acted on are opened in the viewer as well, next to the answer
+    const runAction = (action: FileAction, path: string) => {
+        if (action !== 'summarizePackage' && path !== selectedFile) {
+            selectFile(path);
+        }
+        onFileAction?.(action, path);
+    };
+
+    // Arrow keys move between rows, Right/Left open and close folders, Enter selects, e explains
+    const handleTreeKeyDown = (e: React.KeyboardEvent) => {
+        if (visibleRows.length === 0 || e.metaKey || e.ctrlKey || e.altKey) {
+            return;
+        }
+        const index = rowIndexOf(focusedPath);
+        const node = index >= 0 ? fileTree.nodes[visibleRows[index]] : null;
+        const isOpen = node !== null && !node.isFile && expandedFolders.has(node.path);
+        const focusRow = (rowIndex: number) => {
+            setFocusedPath(fileTree.nodes[visibleRows[Math.max(0, Math.min(rowIndex, visibleRows.length - 1))]].path);
+        };
+        const pageRows = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT) - 1);
+
+        switch (e.key) {
+            case 'ArrowDown':
+                focusRow(index + 1);
+                break;
+            case 'ArrowUp':
+                focusRow(index - 1);
+                break;
+            case 'PageDown':
+                focusRow(index + pageRows);
+                break;
+            case 'PageUp':
+                focusRow(index - pageRows);
+                break;
+            case 'Home':
+                focusRow(0);
+                break;
+            case 'End':
+                focusRow(visibleRows.length - 1);
+                break;
+            case 'ArrowRight':
+                if (node && !node.isFile) {
+                    if (isOpen) {
+                        focusRow(fileTree.nodes[visibleRows[index + 1]]?.parent === visibleRows[index] ? index + 1 : index);
+                    } else {
+                        toggleFolder(node.path);
+                    }
+                }
+                break;
+            case 'ArrowLeft':
+                if (isOpen && node) {
+                    toggleFolder(node.path);
+                } else if (node && node.parent !== -1) {
+                    setFocusedPath(fileTree.nodes[node.parent].path);
+                }
+                break;
+            case 'Enter':
+                if (node?.isFile) {
+                    selectFile(node.path);
+                } else if (node) {
+                    toggleFolder(node.path);
+                }
+                break;
+            case 'e':
+                if (node?.isFile) {
+                    explainPath(node.path);
+                }
+                break;
+            case ' ':
+                if (node?.isFile && onAskAboutFiles) {
+                    toggleChecked(node.path);
+                }
+                break;
+            case 'ContextMenu':
+            case 'F10':
+                if (!node || !onFileAction || (e.key === 'F10' && !e.shiftKey)) {
+                    return;
+                }
+                openContextMenuBelowRow(index);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+    // Enter in the filter picks the best match; arrow down moves into the tree
+    const handleFilterKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            let bestId: number | null = null;
+            let bestScore = -1;
+            for (const [id, match] of filterMatches) {
+                if (match.score > bestScore && (!matchedFiles || matchedFiles.has(id))) {
+                    bestId = id;
+                    bestScore = match.score;
+                }
+            }
+            if (bestId !== null) {
+                selectFile(fileTree.nodes[bestId].path);
+            }
+        } else if (e.key === 'ArrowDown' && visibleRows.length > 0) {
+            e.preventDefault();
+            if (rowIndexOf(focusedPath) < 0) {
+                const firstFile = visibleRows.find(id => fileTree.nodes[id].isFile) ?? visibleRows[0];
+                setFocusedPath(fileTree.nodes[firstFile].path);
+            }
+            fileTreeRef.current?.focus();
+        } else if (e.key === 'Escape') {
+            setFilter('');
+        }
+    };
+
+    const renderRow = (id: number): React.ReactNode => {
+        const node = fileTree.nodes[id];
+        const isFocused = focusedPath === node.path;
+        const indent = { paddingLeft: `${8 + node.depth * INDENT_PX}px` };
+
+        if (node.isFile) {
+            const isExcluded = excludedFiles?.has(node.path) ?? false;
+            const change = fileChanges?.get(node.path);
+            const language = fileLanguages[id] ?? 'other';
+            const LanguageIcon = LANGUAGE_ICONS[language];
+            const isChecked = checkedFiles.has(node.path);
+            const component = springComponents?.get(node.path);
+            return (
+                <div
+                    key={id}
+                    className={`group flex items-center pr-2 cursor-pointer hover:bg-blue-50 rounded text-sm transition-colors ${
+                        selectedFile === node.path ? 'bg-blue-100 border-l-2 border-blue-500' : isChecked ? 'bg-blue-50' : ''
+                    } ${isExcluded ? 'opacity-40' : ''} ${isFocused ? 'ring-1 ring-inset ring-blue-400' : ''}`}
+                    style={{ ...indent, height: ROW_HEIGHT }}
+                    onMouseDown={(e) => {
+                        // Keep shift-click from selecting text
+                        if (e.shiftKey) {
+                            e.preventDefault();
+                        }
+                    }}
+                    onContextMenu={onFileAction ? (e) => {
+                        e.preventDefault();
+                        openContextMenu(node.path, false, e.clientX, e.clientY);
+                    } : undefined}
+                    onClick={(e) => {
+                        if (e.shiftKey && onAskAboutFiles) {
+                            checkRange(node.path);
+                        } else {
+                            selectFile(node.path);
+                            setAnchorPath(node.path);
+                        }
+                    }}
+                >
+                    {onAskAboutFiles && (
+                        <input
+                            type="checkbox"
+                            checked={isChecked}
+                            onChange={() => toggleChecked(node.path)}
+                            onClick={(e) => e.stopPropagation()}
+                            tabIndex={-1}
+                            className={`w-3.5 h-3.5 mr-1.5 flex-shrink-0 cursor-pointer ${
+                                isChecked || checkedFiles.size > 0 ? '' : 'opacity-0 group-hover:opacity-100'
+                            }`}
+                            title="Select for a combined question (Shift+click a row to select a range)"
+                        />
+                    )}
+                    <span title={detectLanguage(node.path).label} className="flex-shrink-0">
+                        <LanguageIcon className="w-4 h-4 mr-2 text-gray-600" />
+                    </span>
+                    <span
+                        className={`whitespace-nowrap ${change === 'removed' ? 'text-gray-400 line-through' : 'text-gray-900'}`}
+                        title={isExcluded ? `${node.name} (excluded from analysis)` : node.name}
+                    >
+                        {highlightName(node.name, node.path.length - node.name.length, filterMatches.get(id)?.positions)}
+                    </span>
+                    {component && (
+                        <span
+                            className={`ml-2 px-1 rounded text-[9px] font-semibold leading-4 tracking-wide cursor-help ${STEREOTYPE_BADGES[component.stereotype].className}`}
+                            title={componentTooltip(component)}
+                        >
+                            {STEREOTYPE_BADGES[component.stereotype].label}
+                        </span>
+                    )}
+                    {change && (
+                        <span
+                            className={`ml-2 px-1 rounded text-[10px] font-semibold leading-4 ${CHANGE_BADGES[change].className}`}
+                            title={CHANGE_BADGES[change].title}
+                        >
+                            {CHANGE_BADGES[change].label}
+                        </span>
+                    )}
+                </div>
+            );
+        }
+
+        const isExpanded = expandedFolders.has(node.path);
+        const isExcluded = excludedFolders.has(node.path);
+        return (
+            <div
+                key={id}
+                className={`flex items-center pr-2 cursor-pointer hover:bg-gray-50 rounded text-sm font-medium transition-colors ${
+                    isExcluded ? 'opacity-40' : ''
+                } ${isFocused ? 'ring-1 ring-inset ring-blue-400' : ''}`}
+                style={{ ...indent, height: ROW_HEIGHT }}
+                onClick={() => {
+                    setFocusedPath(node.path);
+                    toggleFolder(node.path);
+                }}
+                onContextMenu={onFileAction ? (e) => {
+                    e.preventDefault();
+                    openContextMenu(node.path, true, e.clientX, e.clientY);
+                } : undefined}
+            >
+                {node.kind === 'sourceSet' ? (
+                    /test/i.test(node.name) ? (
+                        <FlaskConical className="w-4 h-4 mr-2 text-green-600 flex-shrink-0" />
+                    ) : (
+                        <Boxes className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+                    )
+                ) : node.kind === 'package' ? (
+                    <Package className={`w-4 h-4 mr-2 flex-shrink-0 ${isExpanded ? 'text-blue-600' : 'text-amber-700'}`} />
+                ) : isExpanded ? (
+                    <FolderOpen className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+                ) : (
+                    <Folder className="w-4 h-4 mr-2 text-gray-600 flex-shrink-0" />
+                )}
+                <span className="text-gray-800 whitespace-nowrap" title={isExcluded ? `${node.name} (excluded from analysis)` : node.name}>
+                    {node.name}
+                </span>
+                {changedFolders.has(node.path) && (
+                    <span className="ml-2 w-1.5 h-1.5 rounded-full bg-amber-400 flex-shrink-0" title="Contains changes since last analysis" />
+                )}
+            </div>
+        );
+    };
+
+    // Rendered window of rows, with some extra above and below for smooth scrolling
+    const firstRow = Math.max(0, Math.floor((scrollTop - TREE_PADDING) / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(visibleRows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+    const hasFiles = fileTree.fileCount > 0;
 
     return (
         <div className="bg-white rounded-lg shadow-sm border flex flex-col" style={{ height: 'fit-content' }}>
             {/* Header */}
             <div className="p-4 border-b bg-gray-50 rounded-t-lg">
-                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
-                    <FileText className="w-5 h-5 mr-2" />
-                    File Structure
-                </h3>
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                        <FileText className="w-5 h-5 mr-2" />
+                        File Structure
+                    </h3>
+                    {hasFiles && (
+                        <div className="flex items-center gap-1">
+                            {isBuildingTree && <Loader className="w-3.5 h-3.5 text-gray-400 animate-spin" />}
+                            {onTreeViewChange && (
+                                <div className="flex mr-1 border border-gray-300 rounded-md overflow-hidden">
+                                    {TREE_VIEWS.map(({ view, label, icon: ViewIcon }) => (
+                                        <button
+                                            key={view}
+                                            onClick={() => onTreeViewChange(view)}
+                                            className={`p-1 ${treeView === view ? 'bg-blue-100 text-blue-700' : 'bg-white text-gray-500 hover:text-gray-800'}`}
+                                            title={`${label} view`}
+                                            aria-pressed={treeView === view}
+                                        >
+                                            <ViewIcon className="w-4 h-4" />
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <button onClick={expandAll} className="p-1 text-gray-500 hover:text-gray-800 hover:bg-gray-200 rounded" title="Expand all">
+                                <ChevronsUpDown className="w-4 h-4" />
+                            </button>
+                            <button onClick={collapseAll} className="p-1 text-gray-500 hover:text-gray-800 hover:bg-gray-200 rounded" title="Collapse all">
+                                <ChevronsDownUp className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {hasFiles && (
+                    <div className="mt-3 flex items-center border border-gray-300 rounded-md bg-white px-2">
+                        <Filter className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                        <input
+                            type="text"
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            onKeyDown={handleFilterKeyDown}
+                            placeholder="Filter files, e.g. ownerctrl"
+                            className="flex-1 min-w-0 px-2 py-1.5 text-sm focus:outline-none"
+                        />
+                        {(filter.trim() || languageFilter.size > 0 || activeStereotypes.size > 0) && (
+                            <>
+                                <span className="text-xs text-gray-500 whitespace-nowrap">{matchedFiles?.size ?? 0} found</span>
+                                <button
+                                    onClick={() => {
+                                        setFilter('');
+                                        setLanguageFilter(new Set());
+                                        setStereotypeFilter(new Set());
+                                    }}
+                                    className="ml-1 p-0.5 text-gray-400 hover:text-gray-700"
+                                    title="Clear filters"
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Language breakdown by file count - the chips filter the tree */}
+                {hasFiles && (
+                    <div className="mt-3">
+                        <div className="flex h-1.5 rounded-full overflow-hidden bg-gray-200">
+                            {breakdown.map(share => (
+                                <div
+                                    key={share.language.id}
+                                    className={share.language.color}
+                                    style={{ width: `${share.percentage}%` }}
+                                    title={`${share.language.label}: ${share.files} files`}
+                                />
+                            ))}
+                        </div>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                            {breakdown.map(share => {
+                                const isActive = languageFilter.has(share.language.id);
+                                return (
+                                    <button
+                                        key={share.language.id}
+                                        onClick={() => toggleLanguage(share.language.id)}
+                                        className={`flex items-center px-1.5 py-0.5 rounded border text-[11px] transition-colors ${
+                                            isActive
+                                                ? 'border-blue-400 bg-blue-50 text-blue-800'
+                                                : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                                        }`}
+                                        title={`${share.files} ${share.language.label} files - click to ${isActive ? 'remove from' : 'add to'} the filter`}
+                                    >
+                                        <span className={`w-2 h-2 rounded-full mr-1 ${share.language.color}`} />
+                                        {share.language.label}
+                                        <span className="ml-1 text-gray-400">
+                                            {share.percentage < 1 ? '<1' : Math.round(share.percentage)}%
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {/* Spring stereotypes - the chips filter the tree */}
+                {stereotypeCounts.length > 0 && (
+                    <div className="mt-2 flex flex-wrap items-center gap-1">
+                        <span className="text-[11px] text-gray-500 mr-0.5">Spring:</span>
+                        {stereotypeCounts.map(({ stereotype, files }) => {
+                            const isActive = activeStereotypes.has(stereotype);
+                            return (
+                                <button
+                                    key={stereotype}
+                                    onClick={() => toggleStereotype(stereotype)}
+                                    className={`flex items-center px-1.5 py-0.5 rounded border text-[11px] transition-colors ${
+                                        isActive
+                                            ? 'border-blue-400 bg-blue-50 text-blue-800'
+                                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                                    }`}
+                                    title={`${files} @${stereotype} classes - click to ${isActive ? 'remove from' : 'add to'} the filter`}
+                                >
+                                    <span className={`px-0.5 mr-1 rounded text-[9px] font-semibold ${STEREOTYPE_BADGES[stereotype].className}`}>
+                                        {STEREOTYPE_BADGES[stereotype].label}
+                                    </span>
+                                    {stereotype}
+                                    <span className="ml-1 text-gray-400">{files}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
             </div>
 
+            {/* Changes since the previous analysis */}
+            {changeSummary && (
+                <div className="px-4 py-2 border-b bg-white flex items-center justify-between gap-2 text-xs">
+                    {countChanges(changeSummary) === 0 ? (
+                        <span className="text-gray-500">No changes since last analysis</span>
+                    ) : (
+                        <span className="flex items-center gap-1 whitespace-nowrap" title={changeSummary.fromCommit ? `Compared with ${changeSummary.fromCommit}` : undefined}>
+                            <span className="text-gray-500 mr-1">Since {shortCommit(changeSummary.fromCommit) ?? 'last run'}:</span>
+                            <span className={`px-1 rounded ${CHANGE_BADGES.added.className}`}>+{changeSummary.added.length}</span>
+                            <span className={`px-1 rounded ${CHANGE_BADGES.modified.className}`}>~{changeSummary.modified.length}</span>
+                            <span className={`px-1 rounded ${CHANGE_BADGES.removed.className}`}>−{changeSummary.removed.length}</span>
+                        </span>
+                    )}
+                    {onAskAboutChanges && countChanges(changeSummary) > 0 && (
+                        <button
+                            onClick={onAskAboutChanges}
+                            className="flex items-center text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                            title="Ask what changed since the last analysis"
+                        >
+                            <GitCompare className="w-3.5 h-3.5 mr-1" />
+                            What changed?
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* File Tree */}
             <div 
                 ref={fileTreeRef} 
-                className="overflow-auto p-4" 
+                tabIndex={hasFiles ? 0 : undefined}
+                onKeyDown={handleTreeKeyDown}
+                onFocus={() => {
+                    if (rowIndexOf(focusedPath) < 0 && visibleRows.length > 0) {
+                        setFocusedPath(rowIndexOf(selectedFile) >= 0 ? selectedFile : fileTree.nodes[visibleRows[0]].path);
+                    }
+                }}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                className="overflow-auto p-4 focus:outline-none" 
                 style={{ 
                     overflowX: 'auto', 
                     whiteSpace: 'nowrap',
-                    height: `${treeHeight}px`,
+                    height: visibleRows.length > 0 ? `${visibleRows.length * ROW_HEIGHT + 2 * TREE_PADDING}px` : undefined,
                     maxHeight: '60vh'
                 }}
             >
-                {!hasFiles ? (
+                {!hasFiles && isBuildingTree ? (
+                    <div className="flex items-center justify-center text-gray-500 py-8 text-sm">
+                        <Loader className="w-4 h-4 mr-2 animate-spin" />
+                        Building file tree...
+                    </div>
+                ) : !hasFiles ? (
                     <div className="text-center text-gray-500 py-8">
                         <FileText className="w-12 h-12 mx-auto mb-4 text-gray-300" />
                         <p className="font-medium">No files loaded</p>
                         <p className="text-sm mt-1">Analyze a repository first</p>
                     </div>
+                ) : matchedFiles?.size === 0 ? (
+                    <div className="text-center text-gray-500 py-8 text-sm">
+                        {deferredFilter.trim() ? <>No files match &ldquo;{deferredFilter}&rdquo;</> : 'No files match the selected filters'}
+                    </div>
                 ) : (
-                    <div ref={contentRef} className="space-y-1" style={{ minWidth: 'max-content' }}>
-                        {renderFileTree(fileStructure)}
+                    <div style={{ height: visibleRows.length * ROW_HEIGHT, minWidth: 'max-content' }}>
+                        <div style={{ transform: `translateY(${firstRow * ROW_HEIGHT}px)` }}>
+                            {visibleRows.slice(firstRow, lastRow).map(renderRow)}
+                        </div>
                     </div>
                 )}
             </div>
 
+            {/* Combined questions about the ticked files */}
+            {onAskAboutFiles && checkedFiles.size > 0 && (
+                <div className="p-3 border-t bg-blue-50">
+                    <div className="flex items-center justify-between text-xs text-blue-900 mb-2">
+                        <span className="flex items-center font-medium">
+                            <CheckSquare className="w-3.5 h-3.5 mr-1" />
+                            {checkedFiles.size} {checkedFiles.size === 1 ? 'file' : 'files'} selected
+                        </span>
+                        <button onClick={() => setCheckedFiles(new Set())} className="text-blue-700 hover:text-blue-900">
+                            Clear
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                        {MULTI_FILE_ACTIONS.map(({ action, label, icon: ActionIcon, title }) => (
+                            <button
+                                key={action}
+                                onClick={() => onAskAboutFiles(action, [...checkedFiles])}
+                                disabled={checkedFiles.size < 2 || checkedFiles.size > MAX_FILES_PER_QUESTION}
+                                className="flex flex-col items-center px-1 py-1.5 rounded-md bg-white border border-blue-200 text-[11px] text-blue-800 hover:bg-blue-100 disabled:text-gray-400 disabled:border-gray-200 disabled:hover:bg-white disabled:cursor-not-allowed transition-colors"
+                                title={title}
+                            >
+                                <ActionIcon className="w-4 h-4 mb-0.5" />
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {(checkedFiles.size < 2 || checkedFiles.size > MAX_FILES_PER_QUESTION) && (
+                        <p className="text-[11px] text-blue-800/70 mt-2 text-center">
+                            {checkedFiles.size < 2 ? 'Select at least 2 files' : `Select at most ${MAX_FILES_PER_QUESTION} files`}
+                        </p>
+                    )}
+                </div>
+            )}
+
             {/* Selected File Action */}
             {selectedFile && (
                 <div className="p-4 border-t bg-gray-50">
@@ -154,8 +935,26 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
                         <Search className="w-4 h-4 mr-2" />
                         Explain File
                     </button>
+                    <p className="text-[11px] text-gray-400 mt-2 text-center">
+                        Tree keys: ↑↓ move, ←→ fold, Enter select, e explain{onAskAboutFiles ? ', Space tick' : ''}{onFileAction ? ', Shift+F10 actions' : ''}
+                    </p>
                 </div>
             )}
+
+            {/* Right-click actions - outside the tree, whose rows are moved with a transform */}
+            {contextMenu && onFileAction && (
+                <FileContextMenu
+                    path={contextMenu.path}
+                    isFolder={contextMenu.isFolder}
+                    x={contextMenu.x}
+                    y={contextMenu.y}
+                    onAction={(action) => runAction(action, contextMenu.path)}
+                    onCopyPath={() => {
+                        navigator.clipboard?.writeText(contextMenu.path).catch(() => undefined);
+                    }}
+                    onClose={closeContextMenu}
+                />
+            )}
         </div>
     );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { Clock, CheckCircle, AlertCircle, XCircle } from 'lucide-react';
 import { HistoryPanelProps, HistoryEntry } from '@/types';
 
 const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, currentStatus }) => {
@@ -15,6 +15,8 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, currentStatus }) =
             case 'started':
             case 'in_progress':
                 return <Clock className="w-4 h-4 text-blue-500" />;
+            case 'cancelled':
+                return <XCircle className="w-4 h-4 text-gray-500" />;
             default:
                 return <Clock className="w-4 h-4 text-gray-500" />;
         }
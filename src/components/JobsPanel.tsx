@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ArrowUp, Layers, Plus, RotateCw, Square, Trash2 } from 'lucide-react';
+import { AnalysisJob, AnalysisJobState, MAX_CONCURRENT_ANALYSES } from '@/services/analysisJobs';
+import { shortCommit } from '@/utils/fileChanges';
+import { describeRepository, isRepositoryUrl, isValidGitRef } from '@/utils/repositoryRef';
+
+interface JobsPanelProps {
+    jobs: AnalysisJob[];
+    activeJobId: string | null;
+    onSelectJob: (jobId: string) => void;
+    onQueueRepository: (repoUrl: string, ref?: string) => void;
+    onPrioritizeJob: (jobId: string) => void;
+    onCancelJob: (jobId: string) => void;
+    onRemoveJob: (jobId: string) => void;
+    onReanalyzeJob: (jobId: string) => void;
+}
+
+const stateClasses: Record<AnalysisJobState, string> = {
+    queued: 'bg-gray-100 text-gray-700',
+    running: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+    cancelled: 'bg-gray-100 text-gray-500',
+};
+
+// Secondary line: the failure reason, or what the job has produced so far
+const describeJob = (job: AnalysisJob): string => {
+    if (job.error) {
+        return job.error;
+    }
+    return [
+        job.commitSha ? shortCommit(job.commitSha) : null,
+        job.files ? `${job.files.length} files` : null,
+        job.qaHistory.length > 0 ? `${job.qaHistory.length} Q&A` : null,
+    ].filter(Boolean).join(' · ');
+};
+
+const JobsPanel: React.FC<JobsPanelProps> = ({
+    jobs,
+    activeJobId,
+    onSelectJob,
+    onQueueRepository,
+    onPrioritizeJob,
+    onCancelJob,
+    onRemoveJob,
+    onReanalyzeJob,
+}) => {
+    const [newRepoUrl, setNewRepoUrl] = useState('');
+    const [newRef, setNewRef] = useState('');
+    const running = jobs.filter(job => job.state === 'running').length;
+    const queued = jobs.filter(job => job.state === 'queued').length;
+
+    const canQueue = isRepositoryUrl(newRepoUrl) && (!newRef.trim() || isValidGitRef(newRef));
+
+    const handleQueue = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (canQueue) {
+            onQueueRepository(newRepoUrl.trim(), newRef.trim() || undefined);
+            setNewRepoUrl('');
+            setNewRef('');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border flex flex-col max-h-full">
+            <div className="p-4 border-b bg-gray-50 rounded-t-lg">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Layers className="w-5 h-5 mr-2" />
+                    Analysis Jobs
+                </h3>
+                <p className="text-xs text-gray-500 mt-1">
+                    {running}/{MAX_CONCURRENT_ANALYSES} running{queued > 0 ? ` · ${queued} queued` : ''}
+                </p>
+            </div>
+
+            <form onSubmit={handleQueue} className="flex items-center gap-2 px-4 pt-3">
+                <input
+                    type="text"
+                    value={newRepoUrl}
+                    onChange={(e) => setNewRepoUrl(e.target.value)}
+                    placeholder="Queue another repository URL"
+                    className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                    type="text"
+                    value={newRef}
+                    onChange={(e) => setNewRef(e.target.value)}
+                    placeholder="ref"
+                    title="Branch, tag or commit (optional)"
+                    className="w-16 px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                    type="submit"
+                    disabled={!canQueue}
+                    className="p-1 text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Add to queue"
+                >
+                    <Plus className="w-4 h-4" />
+                </button>
+            </form>
+
+            <div className="flex-1 overflow-auto p-4 space-y-2">
+                {jobs.length === 0 ? (
+                    <p className="text-xs text-gray-500 text-center py-2">No analyses yet</p>
+                ) : (
+                    jobs.map(job => (
+                        <div
+                            key={job.id}
+                            onClick={() => onSelectJob(job.id)}
+                            className={`p-2 rounded-lg border cursor-pointer transition-colors ${
+                                job.id === activeJobId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-sm font-medium text-gray-800 truncate" title={job.ref ? `${job.repoUrl} @ ${job.ref}` : job.repoUrl}>
+                                    {describeRepository(job.repoUrl, job.ref)}
+                                </span>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize flex-shrink-0 ${stateClasses[job.state]}`}>
+                                    {job.state === 'running' && job.analysisStatus
+                                        ? `${job.analysisStatus.progressPercentage}%`
+                                        : job.state}
+                                </span>
+                            </div>
+
+                            <div className="flex items-center justify-between mt-1">
+                                <span className="text-xs text-gray-500 truncate" title={job.error}>
+                                    {describeJob(job)}
+                                </span>
+                                <div className="flex items-center flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                                    {job.state === 'queued' && (
+                                        <button
+                                            onClick={() => onPrioritizeJob(job.id)}
+                                            className="p-1 text-gray-400 hover:text-blue-600"
+                                            title="Run next"
+                                        >
+                                            <ArrowUp className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                    {(job.state === 'queued' || job.state === 'running') ? (
+                                        <button
+                                            onClick={() => onCancelJob(job.id)}
+                                            className="p-1 text-gray-400 hover:text-red-600"
+                                            title={job.state === 'queued' ? 'Remove from queue' : 'Stop analysis'}
+                                        >
+                                            <Square className="w-3.5 h-3.5" />
+                                        </button>
+                                    ) : (
+                                        <>
+                                            <button
+                                                onClick={() => onReanalyzeJob(job.id)}
+                                                className="p-1 text-gray-400 hover:text-blue-600"
+                                                title="Re-analyze and show what changed"
+                                            >
+                                                <RotateCw className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => onRemoveJob(job.id)}
+                                                className="p-1 text-gray-400 hover:text-red-600"
+                                                title="Forget this analysis"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default JobsPanel;
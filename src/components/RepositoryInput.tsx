@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Play, CheckCircle, AlertCircle, Clock, MessageCircle, ChevronUp, ChevronDown } from 'lucide-react';
+import { Play, CheckCircle, AlertCircle, Clock, MessageCircle, ChevronUp, ChevronDown, Square, GitBranch, KeyRound, RotateCw, FileText } from 'lucide-react';
+import { isRequestCancelled } from '@/services/api';
+import { credentialsService } from '@/services/credentials';
+import { AnalysisOptions, ArchiveUpload, GitCredentialSummary } from '@/types';
+import { isRepositoryUrl, isUploadedRepository, isValidGitRef, repositoryHost } from '@/utils/repositoryRef';
 import { QAEntry } from '@/utils/sessionStorage';
+import AnalysisOptionsPanel from './AnalysisOptionsPanel';
+import ArchiveDropZone from './ArchiveDropZone';
 
 // Type definitions
 interface RepositoryInputProps {
@@ -12,9 +18,24 @@ interface RepositoryInputProps {
 }
 
 interface ExtendedRepositoryInputProps extends RepositoryInputProps {
+    repoRef?: string;
+    onRefChange?: (ref: string) => void;
+    analysisOptions?: AnalysisOptions;
+    onOptionsChange?: (options: AnalysisOptions) => void;
+    analysisError?: string | null;
+    accessDenied?: boolean;
+    onManageCredentials?: (host?: string) => void;
+    upload?: ArchiveUpload | null;
+    onUploadArchive?: (archive: File) => void;
+    onCancelUpload?: () => void;
+    onReanalyze?: () => void;
+    analyzedCommit?: string | null;
     onAskQuestion?: (question: string) => Promise<unknown>;
+    onStopAnalysis?: () => void;
+    onStopQuestion?: () => void;
     explainFileQuestion?: string | null;
     qaHistory?: QAEntry[];
+    onOpenFile?: (filePath: string) => void;
 }
 
 
@@ -24,13 +45,32 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                                                                      currentStatus,
                                                                      onUrlChange,
                                                                      onAnalyze,
+                                                                     repoRef = '',
+                                                                     onRefChange,
+                                                                     analysisOptions,
+                                                                     onOptionsChange,
+                                                                     analysisError,
+                                                                     accessDenied = false,
+                                                                     onManageCredentials,
+                                                                     upload = null,
+                                                                     onUploadArchive,
+                                                                     onCancelUpload,
+                                                                     onReanalyze,
+                                                                     analyzedCommit,
                                                                      onAskQuestion,
+                                                                     onStopAnalysis,
+                                                                     onStopQuestion,
                                                                      explainFileQuestion,
-                                                                     qaHistory = []
+                                                                     qaHistory = [],
+                                                                     onOpenFile
                                                                  }) => {
     const [question, setQuestion] = useState('');
     const [isAsking, setIsAsking] = useState(false);
+    const [questionError, setQuestionError] = useState<string | null>(null);
     const [isCollapsed, setIsCollapsed] = useState(false);
+    const [credentials, setCredentials] = useState<GitCredentialSummary[]>(credentialsService.getCached());
+
+    useEffect(() => credentialsService.subscribe(setCredentials), []);
 
     // Handle explain file question automatically
     useEffect(() => {
@@ -47,11 +87,15 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
         if (!questionText.trim() || !onAskQuestion) return;
 
         setIsAsking(true);
+        setQuestionError(null);
         try {
             await onAskQuestion(questionText);
             setQuestion(''); // Clear the input after successful submission
         } catch (error) {
-            console.error('Error asking question:', error);
+            // Failed and stopped questions keep their text so they can be edited and re-asked
+            if (!isRequestCancelled(error)) {
+                setQuestionError(error instanceof Error ? error.message : 'Failed to ask question');
+            }
         } finally {
             setIsAsking(false);
         }
@@ -61,19 +105,20 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
         return handleAskQuestionWithText(question);
     };
 
+    const isRefValid = !repoRef.trim() || isValidGitRef(repoRef);
+    const isUrlValid = isRepositoryUrl(repoUrl);
+    const isUpload = isUploadedRepository(repoUrl);
+    const isUploading = upload !== null && !upload.error;
+    const host = isUrlValid ? repositoryHost(repoUrl) : null;
+    const savedCredential = host ? credentials.find(credential => credential.host === host) : undefined;
+
     const handleAnalyze = () => {
-        if (!isAnalyzing && repoUrl.trim()) {
+        if (!isAnalyzing && !isUploading && isUrlValid && isRefValid) {
             onAnalyze();
         }
     };
 
     const isCompleted = currentStatus === 'completed';
-    
-    // Debug logging
-    console.log('RepositoryInput - currentStatus:', currentStatus);
-    console.log('RepositoryInput - isCompleted:', isCompleted);
-    console.log('RepositoryInput - onAskQuestion:', !!onAskQuestion);
-    console.log('RepositoryInput - should show Q&A section:', isCompleted && onAskQuestion);
 
     // Auto-collapse repository section when analysis is completed
     useEffect(() => {
@@ -105,10 +150,24 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                             Repository Analysis
                         </h3>
                         <p className="text-sm text-gray-600 mt-1">
-                            {isCompleted ? 'Analysis completed - ask questions about your code below' : 'Enter a GitHub repository URL to start analysis'}
+                            {isCompleted
+                                ? `Analysis completed${analyzedCommit ? ` at ${analyzedCommit.slice(0, 7)}` : ''} - ask questions about your code below`
+                                : 'Enter a GitHub, GitLab or Bitbucket repository URL to start analysis'}
                         </p>
                     </div>
 
+                    {/* Re-analyze - records the new commit and shows what changed */}
+                    {(isCompleted || currentStatus === 'error') && onReanalyze && (
+                        <button
+                            onClick={onReanalyze}
+                            className="flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors flex-shrink-0 ml-4"
+                            title="Analyze the latest commit again and compare with this analysis"
+                        >
+                            <RotateCw className="w-4 h-4 mr-1" />
+                            Re-analyze
+                        </button>
+                    )}
+
                     {/* Collapse button - only show when completed */}
                     {isCompleted && (
                         <button
@@ -139,7 +198,7 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                                     htmlFor="repo-url"
                                     className="block text-sm font-medium text-gray-700 mb-2"
                                 >
-                                    GitHub Repository URL
+                                    Repository URL
                                 </label>
                                 <input
                                     id="repo-url"
@@ -151,18 +210,86 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                                     disabled={isAnalyzing}
                                 />
                                 {/* URL validation feedback */}
-                                {repoUrl && !repoUrl.includes('github.com') && (
+                                {repoUrl && !isUrlValid && (
                                     <p className="text-xs text-amber-600 mt-1 flex items-center">
                                         <AlertCircle className="w-3 h-3 mr-1" />
-                                        Please enter a valid GitHub repository URL
+                                        Please enter an https repository URL, e.g. https://gitlab.com/group/project
                                     </p>
                                 )}
+                                {/* Private repositories clone with the host's saved credential */}
+                                {host && onManageCredentials && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onManageCredentials(host)}
+                                        className="text-xs text-gray-500 hover:text-blue-600 mt-1 flex items-center"
+                                    >
+                                        <KeyRound className="w-3 h-3 mr-1" />
+                                        {savedCredential
+                                            ? `Using saved ${savedCredential.kind === 'token' ? 'access token' : 'deploy key'} for ${host}`
+                                            : 'Private repository? Add an access token'}
+                                    </button>
+                                )}
                             </div>
 
+                            {/* Local project archive instead of a git URL */}
+                            {onUploadArchive && onCancelUpload && (
+                                <div className="space-y-2">
+                                    <div className="flex items-center text-xs text-gray-400">
+                                        <div className="flex-1 border-t" />
+                                        <span className="px-2">or upload an archive</span>
+                                        <div className="flex-1 border-t" />
+                                    </div>
+                                    <ArchiveDropZone
+                                        upload={upload}
+                                        disabled={isAnalyzing}
+                                        onUpload={onUploadArchive}
+                                        onCancel={onCancelUpload}
+                                    />
+                                </div>
+                            )}
+
+                            {/* Branch, tag or commit - optional, uploads have none */}
+                            {onRefChange && !isUpload && (
+                                <div>
+                                    <label
+                                        htmlFor="repo-ref"
+                                        className="block text-sm font-medium text-gray-700 mb-2"
+                                    >
+                                        Branch, tag or commit <span className="font-normal text-gray-500">(optional)</span>
+                                    </label>
+                                    <div className="relative">
+                                        <GitBranch className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                        <input
+                                            id="repo-ref"
+                                            type="text"
+                                            value={repoRef}
+                                            onChange={(e) => onRefChange(e.target.value)}
+                                            placeholder="Default branch"
+                                            className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-gray-900 placeholder-gray-500 font-mono text-sm"
+                                            disabled={isAnalyzing}
+                                        />
+                                    </div>
+                                    {!isRefValid && (
+                                        <p className="text-xs text-amber-600 mt-1 flex items-center">
+                                            <AlertCircle className="w-3 h-3 mr-1" />
+                                            Enter a branch name (release/1.2), tag (v1.2.0) or commit SHA
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            {analysisOptions && onOptionsChange && (
+                                <AnalysisOptionsPanel
+                                    options={analysisOptions}
+                                    disabled={isAnalyzing}
+                                    onChange={onOptionsChange}
+                                />
+                            )}
+
                             {/* Analyze Button */}
                             <button
                                 onClick={handleAnalyze}
-                                disabled={isAnalyzing || !repoUrl.trim() || !repoUrl.includes('github.com')}
+                                disabled={isAnalyzing || isUploading || !isUrlValid || !isRefValid}
                                 className="w-full bg-blue-500 text-white py-3 px-6 rounded-md font-semibold hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center min-h-[48px]"
                             >
                                 {isAnalyzing ? (
@@ -177,6 +304,17 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                                     </>
                                 )}
                             </button>
+
+                            {/* Stop Button - cancels the running analysis */}
+                            {isAnalyzing && onStopAnalysis && (
+                                <button
+                                    onClick={onStopAnalysis}
+                                    className="w-full bg-white text-red-600 border border-red-300 py-2 px-6 rounded-md font-medium hover:bg-red-50 transition-colors flex items-center justify-center"
+                                >
+                                    <Square className="w-4 h-4 mr-2" />
+                                    Stop Analysis
+                                </button>
+                            )}
                         </div>
 
                         {/* Status Display */}
@@ -192,6 +330,7 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                                     {getStatusIcon(currentStatus)}
                                     <span className="ml-2 capitalize">
                                         {isAnalyzing && currentStatus === 'analyzing' ? 'Analysis in Progress' : 
+                                         currentStatus === 'queued' ? 'Waiting in Queue' : 
                                          currentStatus === 'completed' ? 'Analysis Complete' :
                                          currentStatus === 'error' ? 'Analysis Failed' : 
                                          currentStatus}
@@ -200,14 +339,32 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                             </div>
                         )}
 
+                        {/* Failure reason - access problems link straight to the credentials */}
+                        {currentStatus === 'error' && analysisError && (
+                            <div className="p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-800">
+                                <p className="flex items-start">
+                                    <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                                    <span>{accessDenied ? `Access denied - ${host ?? 'the git host'} refused to let the backend clone this repository.` : analysisError}</span>
+                                </p>
+                                {accessDenied && onManageCredentials && (
+                                    <button
+                                        onClick={() => onManageCredentials(host ?? undefined)}
+                                        className="mt-2 ml-6 text-sm font-medium text-red-700 underline hover:text-red-900"
+                                    >
+                                        {savedCredential ? `Update the credential for ${host}` : `Add an access token for ${host ?? 'this host'}`}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
                         {/* Help Text */}
                         <div className="text-center space-y-2">
                             <p className="text-sm text-gray-500">
-                                Supported: Java repositories with Spring Boot projects
+                                Supported: any git repository - Java and Spring Boot projects get the deepest analysis
                             </p>
                             <div className="text-xs text-gray-400 space-y-1">
                                 <p>• Repository will be cloned and analyzed</p>
-                                <p>• Java files will be parsed and indexed</p>
+                                <p>• Source, configuration and build files will be parsed and indexed</p>
                                 <p>• Ask questions about the code structure</p>
                             </div>
                         </div>
@@ -264,23 +421,44 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                             />
                         </div>
 
-                        <button
-                            onClick={handleAskQuestion}
-                            disabled={isAsking || !question.trim()}
-                            className="w-full bg-green-500 text-white py-2 px-4 rounded-md font-medium hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-                        >
-                            {isAsking ? (
-                                <>
-                                    <div className="animate-spin w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full"></div>
-                                    Asking...
-                                </>
-                            ) : (
-                                <>
-                                    <MessageCircle className="w-4 h-4 mr-2" />
-                                    Ask Question
-                                </>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleAskQuestion}
+                                disabled={isAsking || !question.trim()}
+                                className="flex-1 bg-green-500 text-white py-2 px-4 rounded-md font-medium hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                            >
+                                {isAsking ? (
+                                    <>
+                                        <div className="animate-spin w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full"></div>
+                                        Asking...
+                                    </>
+                                ) : (
+                                    <>
+                                        <MessageCircle className="w-4 h-4 mr-2" />
+                                        Ask Question
+                                    </>
+                                )}
+                            </button>
+
+                            {/* Stop Button - cancels the pending question */}
+                            {isAsking && onStopQuestion && (
+                                <button
+                                    onClick={onStopQuestion}
+                                    className="bg-white text-red-600 border border-red-300 py-2 px-4 rounded-md font-medium hover:bg-red-50 transition-colors flex items-center justify-center"
+                                    title="Stop waiting for the answer"
+                                >
+                                    <Square className="w-4 h-4 mr-2" />
+                                    Stop
+                                </button>
                             )}
-                        </button>
+                        </div>
+
+                        {questionError && (
+                            <p role="alert" className="flex items-start p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-800">
+                                <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                                <span>{questionError}</span>
+                            </p>
+                        )}
                     </div>
 
                     <div className="mt-3 text-xs text-gray-500">
@@ -288,27 +466,48 @@ const RepositoryInput: React.FC<ExtendedRepositoryInputProps> = ({
                     </div>
 
                     {/* Question & Answer History - Show right after the question interface */}
-                    {(() => {
-                        console.log('Q&A Section - qaHistory.length:', qaHistory.length);
-                        console.log('Q&A Section - qaHistory entries:', qaHistory.map(qa => ({ question: qa.question, id: qa.id, timestamp: qa.timestamp })));
-                        return qaHistory.length > 0;
-                    })() && (
+                    {qaHistory.length > 0 && (
                         <div className="mt-6">
                             <h5 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
                                 <MessageCircle className="w-4 h-4 mr-2 text-green-500" />
                                 Recent Questions & Answers ({qaHistory.length})
                             </h5>
                             <div className="space-y-3 max-h-80 overflow-y-auto">
-                                {qaHistory.map((qa, index) => {
-                                    console.log(`Rendering Q&A entry ${index}:`, { question: qa.question, hasAnswer: !!qa.answer, answerLength: qa.answer?.length });
+                                {qaHistory.map((qa) => {
                                     return (
                                         <div key={qa.id} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
                                             <div className="flex items-start justify-between mb-2">
-                                                <h6 className="font-medium text-gray-900 text-sm">Q: {qa.question}</h6>
+                                                <h6 className="font-medium text-gray-900 text-sm whitespace-pre-wrap break-words">
+                                                    {qa.action && (
+                                                        <span className="inline-block mr-1.5 px-1.5 rounded bg-indigo-100 text-indigo-700 text-[10px] font-semibold uppercase tracking-wide align-text-bottom">
+                                                            {qa.action}
+                                                        </span>
+                                                    )}
+                                                    Q: {qa.question}
+                                                </h6>
                                                 <span className="text-xs text-gray-500 ml-2 flex-shrink-0">{qa.timestamp}</span>
                                             </div>
+                                            {qa.files && qa.files.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mb-2">
+                                                    {qa.files.map(file => (
+                                                        <button
+                                                            key={file}
+                                                            onClick={() => onOpenFile?.(file)}
+                                                            disabled={!onOpenFile}
+                                                            className="flex items-center px-1.5 py-0.5 rounded border border-blue-200 bg-white text-[11px] text-blue-700 hover:bg-blue-50 disabled:text-gray-600 disabled:border-gray-200"
+                                                            title={file}
+                                                        >
+                                                            <FileText className="w-3 h-3 mr-1" />
+                                                            {file.split('/').pop()}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
                                             <div className="text-sm text-gray-700 whitespace-pre-wrap">
                                                 <strong>A:</strong> {qa.answer}
+                                                {qa.isStreaming && (
+                                                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                                                )}
                                             </div>
                                         </div>
                                     );
@@ -1,23 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Menu, X, User, LogOut, History } from 'lucide-react';
+import { Menu, X, User, LogOut, History, KeyRound } from 'lucide-react';
 import { apiService } from '@/services/api';
+import { UserRepository } from '@/types';
+import { createLogger } from '@/utils/logger';
 
-interface Repository {
-    id: string;
-    name: string;
-    url: string;
-    lastAnalyzed: string;
-}
+const log = createLogger('session');
 
 interface UserMenuProps {
     userEmail: string;
+    sessionId: string | null;
     onLogout: () => void;
     onSelectRepository: (repoUrl: string) => void;
+    onManageCredentials?: () => void;
 }
 
-const UserMenu: React.FC<UserMenuProps> = ({ userEmail, onLogout, onSelectRepository }) => {
+const UserMenu: React.FC<UserMenuProps> = ({ userEmail, sessionId, onLogout, onSelectRepository, onManageCredentials }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [repositories, setRepositories] = useState<Repository[]>([]);
+    const [repositories, setRepositories] = useState<UserRepository[]>([]);
     const [loadingRepos, setLoadingRepos] = useState(false);
 
     // Load user repositories when menu opens
@@ -28,18 +27,20 @@ const UserMenu: React.FC<UserMenuProps> = ({ userEmail, onLogout, onSelectReposi
     }, [isOpen]);
 
     const loadRepositories = async () => {
+        if (!sessionId) return;
+
         setLoadingRepos(true);
         try {
-            const repoData = await apiService.getUserRepositories(userEmail);
-            setRepositories(repoData || []);
+            const repoData = await apiService.getUserRepositories(sessionId, userEmail);
+            setRepositories(repoData);
         } catch (error) {
-            console.error('Failed to load repositories:', error);
+            log.error('Failed to load repositories', error);
         } finally {
             setLoadingRepos(false);
         }
     };
 
-    const handleRepositoryClick = (repository: Repository) => {
+    const handleRepositoryClick = (repository: UserRepository) => {
         onSelectRepository(repository.url);
         setIsOpen(false);
     };
@@ -124,9 +125,11 @@ const UserMenu: React.FC<UserMenuProps> = ({ userEmail, onLogout, onSelectReposi
                                     >
                                         <p className="font-medium text-gray-900 truncate">{repo.name}</p>
                                         <p className="text-sm text-blue-600 truncate">{repo.url}</p>
-                                        <p className="text-xs text-gray-500 mt-1">
-                                            Analyzed: {new Date(repo.lastAnalyzed).toLocaleDateString()}
-                                        </p>
+                                        {repo.lastAnalyzed && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                Analyzed: {new Date(repo.lastAnalyzed).toLocaleDateString()}
+                                            </p>
+                                        )}
                                     </button>
                                 ))}
                             </div>
@@ -140,8 +143,20 @@ const UserMenu: React.FC<UserMenuProps> = ({ userEmail, onLogout, onSelectReposi
                     </div>
                 </div>
 
-                {/* Footer with Logout */}
-                <div className="p-4 border-t bg-gray-50">
+                {/* Footer with Credentials & Logout */}
+                <div className="p-4 border-t bg-gray-50 space-y-1">
+                    {onManageCredentials && (
+                        <button
+                            onClick={() => {
+                                onManageCredentials();
+                                setIsOpen(false);
+                            }}
+                            className="w-full flex items-center space-x-2 px-3 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                            <KeyRound className="w-4 h-4" />
+                            <span>Repository Credentials</span>
+                        </button>
+                    )}
                     <button
                         onClick={() => {
                             onLogout();
@@ -1,491 +1,474 @@
-import { useState, useEffect, useCallback } from 'react';
-import { apiService, generateSessionId } from '@/services/api';
-import { HistoryEntry, FileTreeNode } from '@/types';
-import { SessionStorage, RepositorySessionData, QAEntry } from '@/utils/sessionStorage';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+    AnalysisJob,
+    AnalysisJobState,
+    analysisJobQueue,
+    createHistoryEntry,
+    isJobFinished,
+} from '@/services/analysisJobs';
+import { interpretLegacyAnalysisText, PHASE_LABELS } from '@/services/analysisLifecycle';
+import { apiService, generateSessionId, isRequestCancelled } from '@/services/api';
+import { BackendProfiles } from '@/services/backendProfiles';
+import { fileTreeBuilder } from '@/services/fileTreeBuilder';
+import { ResponseShapeError } from '@/services/normalizers';
+import { CircuitOpenError } from '@/services/resilience';
+import { AnalysisOptions, ArchiveUpload, FileAction, HistoryEntry, FileTreeNode, FileTreeView, FlatTree, MultiFileAction, SpringComponent } from '@/types';
+import { changeKinds, countChanges, shortCommit } from '@/utils/fileChanges';
+import { EMPTY_FILE_TREE } from '@/utils/fileTree';
+import { detectLanguage, EXPLAIN_FOCUS } from '@/utils/languages';
+import { createLogger } from '@/utils/logger';
+import { DEFAULT_ANALYSIS_OPTIONS, isPathExcluded } from '@/utils/pathFilters';
+import { archiveProblem, isValidGitRef, normalizeGitRef, repositoryKey } from '@/utils/repositoryRef';
+import { SessionStorage, QAEntry } from '@/utils/sessionStorage';
+import { componentsByFile } from '@/utils/springComponents';
+
+const log = createLogger('analysis');
+
+// Longer change lists are cut off so the question stays a reasonable size
+const MAX_CHANGED_FILES_IN_QUESTION = 60;
+const MAX_SNIPPET_LINES_IN_QUESTION = 200;
+const MAX_PACKAGE_FILES_IN_QUESTION = 60;
+
+const explainQuestion = (repoUrl: string, filePath: string): string => {
+    const language = detectLanguage(filePath);
+    return `I have already analyzed the repository ${repoUrl}. Now please explain the specific ${language.id === 'other' ? '' : `${language.label} `}file ${filePath}. ${EXPLAIN_FOCUS[language.category]}`;
+};
+
+// Dotted package name of a folder under a JVM source root, e.g. org.springframework.samples.petclinic.owner
+const packageName = (folderPath: string): string | undefined =>
+    /(?:^|\/)src\/[^/]+\/(?:java|kotlin|groovy|scala)\/(.+)$/.exec(folderPath)?.[1].replace(/\//g, '.');
+
+// Context menu actions on a single file - the package summary is built from the folder's files
+const FILE_ACTION_QUESTIONS: Record<Exclude<FileAction, 'summarizePackage'>, { label: string; ask: (repoUrl: string, filePath: string) => string }> = {
+    explain: {
+        label: 'Explain',
+        ask: explainQuestion,
+    },
+    summarize: {
+        label: 'Summarize',
+        ask: (repoUrl, filePath) => `I have already analyzed the repository ${repoUrl}. Summarize the file ${filePath} in a few sentences: its responsibility, the main types or functions it defines, and what uses it. Keep it short - no walkthrough of the code.`,
+    },
+    findUsages: {
+        label: 'Find Usages',
+        ask: (repoUrl, filePath) => `I have already analyzed the repository ${repoUrl}. Find the usages of ${filePath} (${(filePath.split('/').pop() || filePath).replace(/\.[^.]+$/, '')}) across the repository. List every file that references it, with the class and method where it is used and what for, grouped by file. Say when a usage is indirect - through an interface, dependency injection, reflection or configuration - and say so plainly if nothing uses it.`,
+    },
+    generateTests: {
+        label: 'Generate Unit Tests',
+        ask: (repoUrl, filePath) => `I have already analyzed the repository ${repoUrl}. Generate unit tests for ${filePath}. Use the test frameworks and conventions the repository already uses (for a Java project, for example JUnit 5, Mockito and Spring test slices), mock its collaborators, and cover the main behaviour, edge cases and error paths. Return complete test files with their package and imports, and the path each should be saved under.`,
+    },
+    reviewBugs: {
+        label: 'Review for Bugs',
+        ask: (repoUrl, filePath) => `I have already analyzed the repository ${repoUrl}. Review ${filePath} for bugs: logic errors, null handling, resource leaks, concurrency problems, wrong error handling, security issues and performance problems. For each finding give the method or line, why it is a problem and a suggested fix, most severe first. If you find nothing significant, say so rather than listing style issues.`,
+    },
+};
+
+// Questions about several selected files - the paths are listed and the answer is kept to them
+const MULTI_FILE_QUESTIONS: Record<MultiFileAction, { label: string; intro: string; ask: string }> = {
+    explain: {
+        label: 'Explain Together',
+        intro: 'Explain how these files work together',
+        ask: 'Describe the role of each file, then how they collaborate: which one calls which, the data passed between them, and the overall flow they implement together.',
+    },
+    compare: {
+        label: 'Compare Files',
+        intro: 'Compare these files',
+        ask: 'Cover their responsibilities, structure, dependencies and the patterns they use. Point out duplicated logic and inconsistencies, and where they differ, say which approach is preferable and why.',
+    },
+    trace: {
+        label: 'Trace Interactions',
+        intro: 'Trace the interactions between these files',
+        ask: 'Start from the entry point among them and follow the calls step by step, method to method, with the data passed and returned, transactions and error handling. Present it as a numbered sequence.',
+    },
+};
+
+// Q&A timestamps use a fixed 24h format
+const formatTimestamp = () => new Date().toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+});
+
+// Status names the UI components understand, per job state
+const JOB_STATUS: Record<AnalysisJobState, string> = {
+    queued: 'queued',
+    running: 'analyzing',
+    completed: 'completed',
+    failed: 'error',
+    cancelled: 'idle',
+};
+
+// Paths of a nested file tree, for sessions saved before analysis jobs existed
+const collectFilePaths = (tree: FileTreeNode): string[] =>
+    Object.values(tree || {}).flatMap(node => node.isFile && typeof node.fullPath === 'string'
+        ? [node.fullPath]
+        : collectFilePaths(node as FileTreeNode));
 
 // Named export - this is the key!
+// The hook is a view over the active analysis job: status, history, files and Q&A all belong
+// to whichever job is selected, while other jobs keep running in the background queue.
 export const useAnalysis = (userEmail?: string) => {
     const [repoUrl, setRepoUrl] = useState('');
-    const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [analysisHistory, setAnalysisHistory] = useState<HistoryEntry[]>([]);
-    const [currentStatus, setCurrentStatus] = useState('idle');
-    const [fileStructure, setFileStructure] = useState<FileTreeNode>({});
-    
-    // Log file structure changes
-    useEffect(() => {
-        const keys = Object.keys(fileStructure);
-        console.log('📁 FileStructure state changed:', {
-            keyCount: keys.length,
-            keys: keys.slice(0, 5),
-            hasContent: keys.length > 0,
-            timestamp: new Date().toLocaleTimeString()
-        });
-        
-        if (keys.length > 0) {
-            console.log('🎉 File structure successfully populated!');
-            console.log('📂 Structure preview:', JSON.stringify(fileStructure, null, 2).substring(0, 200) + '...');
-        }
-    }, [fileStructure]);
+    // Branch, tag or commit SHA to analyze - empty for the default branch
+    const [repoRef, setRepoRef] = useState('');
+    // Advanced options for the next analysis - remembered per repository
+    const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(DEFAULT_ANALYSIS_OPTIONS);
+    const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+    const [activeJobId, setActiveJobId] = useState<string | null>(null);
+    // History, Q&A and session used while no job is selected
+    const [localHistory, setLocalHistory] = useState<HistoryEntry[]>([]);
+    const [localQaHistory, setLocalQaHistory] = useState<QAEntry[]>([]);
+    const [baseSessionId, setBaseSessionId] = useState<string | null>(null);
     const [selectedFile, setSelectedFile] = useState<string | null>(null);
-    // Two-phase initialization: first try to restore, then generate if needed
-    const [sessionId, setSessionId] = useState<string | null>(null);
     const [isInitialized, setIsInitialized] = useState(false);
     const [explainFileQuestion, setExplainFileQuestion] = useState<string | null>(null);
-    const [qaHistory, setQaHistory] = useState<QAEntry[]>([]);
-    const [sessionRestored, setSessionRestored] = useState(false);
-
-
-
-    // Store session data helper - sessionId remains constant for this instance
-    const storeSessionData = useCallback(() => {
-        if (userEmail && repoUrl && sessionId) {
-            const sessionData: RepositorySessionData = {
-                repoUrl,
-                sessionId,
-                fileStructure,
-                currentStatus,
-                userEmail,
-                timestamp: Date.now(),
-                qaHistory: qaHistory || []
-            };
-            SessionStorage.saveSession(sessionData);
-            console.log('Session data stored with consistent sessionId:', sessionId);
-        }
-    }, [userEmail, repoUrl, sessionId, fileStructure, currentStatus, qaHistory]);
-
-    // Clear session helper - generates new sessionId for fresh start
-    const clearSession = useCallback(() => {
-        setSessionId(generateSessionId()); // Generate new sessionId for new session
-        setRepoUrl('');
-        setFileStructure({});
-        setCurrentStatus('idle');
-        setAnalysisHistory([]);
-        setQaHistory([]);
-        setSessionRestored(false); // Allow session restoration again after clearing
-        
-        SessionStorage.clearSession();
-        console.log('Session cleared - new sessionId generated');
-    }, []);
-
-    // Truncate long messages for activity history
-    const truncateMessage = useCallback((message: string, maxLength: number = 80) => {
-        if (message.length <= maxLength) return message;
-        return message.substring(0, maxLength) + '...';
-    }, []);
-
-    // Add history entry helper
-    const addHistoryEntry = useCallback((action: string, status: HistoryEntry['status'], details = '') => {
-        console.log('📝 addHistoryEntry called:', {
-            action,
-            status,
-            details: details.substring(0, 50) + (details.length > 50 ? '...' : ''),
-            timestamp: new Date().toLocaleTimeString()
-        });
-        
-        const entry: HistoryEntry = {
-            id: Date.now(),
-            timestamp: new Date().toLocaleTimeString('en-US', {
-                hour12: false,
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit'
-            }),
-            action,
-            status,
-            details: truncateMessage(details)
-        };
-        
-        console.log('📋 Created history entry:', {
-            id: entry.id,
-            action: entry.action,
-            status: entry.status,
-            timestamp: entry.timestamp,
-            detailsLength: entry.details.length
-        });
-        
-        setAnalysisHistory(prev => {
-            console.log('📊 Adding to history array - current length:', prev.length);
-            const newHistory = [entry, ...prev];
-            console.log('📊 New history array length:', newHistory.length);
-            console.log('📋 History array preview (first 3):', newHistory.slice(0, 3).map(h => ({
-                action: h.action,
-                status: h.status,
-                timestamp: h.timestamp
-            })));
-            return newHistory;
-        });
-        
-        console.log('✅ History entry added successfully');
-    }, [truncateMessage]);
+    // In-flight question controller backing the Stop button
+    const questionControllerRef = useRef<AbortController | null>(null);
+    // Files and explorer action behind the next auto-submitted question, recorded with its Q&A entry
+    const questionContextRef = useRef<{ question: string; context: Pick<QAEntry, 'files' | 'action'> } | null>(null);
+    // Project archive being uploaded - analysis starts once the backend has it
+    const [upload, setUpload] = useState<ArchiveUpload | null>(null);
+    const uploadControllerRef = useRef<AbortController | null>(null);
+
+    // Long-running callbacks (streamed answers) must target the job that was active when they started
+    const activeJobIdRef = useRef(activeJobId);
+    useEffect(() => {
+        activeJobIdRef.current = activeJobId;
+        analysisJobQueue.setActiveJob(activeJobId);
+    }, [activeJobId]);
 
-    // Load session from cookies on mount - only once
+    // Follow this user's jobs in the queue
     useEffect(() => {
-        console.log('🔄 Session restoration useEffect triggered');
-        console.log('📋 Conditions - userEmail:', !!userEmail, 'sessionRestored:', sessionRestored);
-        
-        if (userEmail && !sessionRestored) {
-            console.log('🍪 Attempting to get stored session...');
-            const storedSession = SessionStorage.getSession();
-            console.log('📦 Stored session data:', {
-                found: !!storedSession,
-                userEmailMatch: storedSession?.userEmail === userEmail,
-                hasFileStructure: storedSession ? Object.keys(storedSession.fileStructure || {}).length : 0,
-                currentStatus: storedSession?.currentStatus,
-                repoUrl: storedSession?.repoUrl
-            });
-            
-            if (storedSession && storedSession.userEmail === userEmail) {
-                console.log('✅ Valid stored session found, restoring...');
-                
-                // Restore all session data including the existing sessionId
-                console.log('📝 Restoring repoUrl:', storedSession.repoUrl);
-                setRepoUrl(storedSession.repoUrl);
-                
-                console.log('🆔 Restoring sessionId:', storedSession.sessionId);
-                setSessionId(storedSession.sessionId); // Restore existing sessionId from storage
-                
-                console.log('📁 Restoring file structure with', Object.keys(storedSession.fileStructure || {}).length, 'keys');
-                setFileStructure(storedSession.fileStructure);
-                
-                // If we have file structure, status should be completed
-                // Don't restore 'analyzing' or 'error' status if analysis actually succeeded
-                const restoredStatus = (storedSession.currentStatus === 'analyzing' || storedSession.currentStatus === 'error') && 
-                                     Object.keys(storedSession.fileStructure || {}).length > 0 
-                                     ? 'completed' 
-                                     : storedSession.currentStatus;
-                console.log('📊 Status restoration - stored:', storedSession.currentStatus, 'restored:', restoredStatus);
-                setCurrentStatus(restoredStatus);
-                
-                console.log('💬 Restoring Q&A history with', (storedSession.qaHistory || []).length, 'entries');
-                setQaHistory(storedSession.qaHistory || []);
-                
-                // Mark session as restored to prevent future restorations
-                setSessionRestored(true);
-                
-                // Add history entry to indicate session restored
-                addHistoryEntry('Session Restored', 'completed', `Restored session for ${storedSession.repoUrl} with ${(storedSession.qaHistory || []).length} Q&A entries`);
-                
-                console.log('🎉 Session restoration completed successfully');
-                console.log('📦 Session details:', {
-                    sessionId: storedSession.sessionId,
-                    fileStructureKeys: Object.keys(storedSession.fileStructure || {}).length,
-                    qaHistoryLength: (storedSession.qaHistory || []).length
-                });
-                
-                // Inform backend about session continuation - use restored sessionId
-                if (storedSession.repoUrl) {
-                    // Use the restored sessionId directly from stored session (not state which hasn't updated yet)
-                    apiService.continueUserSession(storedSession.sessionId, userEmail, storedSession.repoUrl)
-                        .then(response => {
-                            console.log('Backend session continuation response:', response);
-                            console.log('Using consistent sessionId:', sessionId);
-                        })
-                        .catch(error => {
-                            console.error('Failed to continue session with backend:', error);
-                        });
-                }
-            } else {
-                // No stored session - generate new sessionId for fresh start
-                setSessionId(generateSessionId());
-                setSessionRestored(true);
-            }
-            
-            // Mark initialization as complete after restoration attempt
-            setIsInitialized(true);
+        if (!userEmail) {
+            setJobs([]);
+            return;
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [userEmail]); // Only depend on userEmail - intentionally excluding other deps to prevent infinite loops
-
-    // Organize files into tree structure
-    const organizeFileStructure = useCallback((files: string[]): FileTreeNode => {
-        const tree: FileTreeNode = {};
+        setJobs(analysisJobQueue.list(userEmail));
+        return analysisJobQueue.subscribe(all => setJobs(all.filter(job => job.userEmail === userEmail)));
+    }, [userEmail]);
+
+    const activeJob = useMemo(() => jobs.find(job => job.id === activeJobId) ?? null, [jobs, activeJobId]);
+    const activeFiles = activeJob?.files;
+
+    const currentStatus = activeJob ? JOB_STATUS[activeJob.state] : 'idle';
+    const isAnalyzing = activeJob?.state === 'running' || activeJob?.state === 'queued';
+    const analysisHistory = activeJob?.history ?? localHistory;
+    const qaHistory = activeJob?.qaHistory ?? localQaHistory;
+    const sessionId = activeJob?.sessionId ?? baseSessionId;
+    // Latest /analysis/progress report for the running (or last) analysis
+    const analysisStatus = activeJob?.analysisStatus ?? null;
+    const analysisStartedAt = activeJob?.state === 'running' ? activeJob.startedAt ?? null : null;
+    const analysisError = activeJob?.state === 'failed' ? activeJob.error ?? null : null;
+    const accessDenied = activeJob?.state === 'failed' && activeJob.accessDenied === true;
+    // Changes against the previous run - removed files stay in the tree so they can be badged
+    const changeSummary = activeJob?.changes ?? null;
+    const analyzedCommit = activeJob?.commitSha ?? null;
+    // Checkout the shown files belong to - the input fields may already name another one
+    const analyzedRepoUrl = activeJob?.repoUrl ?? null;
+    const analyzedRef = activeJob?.ref ?? null;
+    const fileChanges = useMemo(() => changeKinds(changeSummary), [changeSummary]);
+    const treePaths = useMemo(() => activeFiles && changeSummary
+        ? [...activeFiles, ...changeSummary.removed]
+        : activeFiles ?? null, [activeFiles, changeSummary]);
+    const [fileTree, setFileTree] = useState<FlatTree>(EMPTY_FILE_TREE);
+    const [isBuildingTree, setIsBuildingTree] = useState(false);
+    const [treeView, setTreeView] = useState<FileTreeView>('directory');
+    // Spring beans reported for the active job's repository, once its analysis has finished
+    const [components, setComponents] = useState<SpringComponent[]>([]);
+    const springComponents = useMemo(
+        () => componentsByFile(components, activeFiles ?? []),
+        [components, activeFiles]
+    );
+    // Files the active job's options leave out of the analysis
+    const activeOptions = activeJob?.options;
+    const excludedFiles = useMemo(() => new Set(activeFiles && activeOptions
+        ? activeFiles.filter(file => isPathExcluded(file, activeOptions))
+        : []), [activeFiles, activeOptions]);
+
+    // Bring back the options last used for a repository once its URL is entered
+    useEffect(() => {
+        const saved = repoUrl.trim() ? SessionStorage.getAnalysisOptions(repoUrl.trim()) : null;
+        if (saved) {
+            setAnalysisOptions(saved);
+        }
+    }, [repoUrl]);
 
-        files.forEach(file => {
-            const parts = file.split('/');
-            let current = tree;
+    // Record every status transition for the debug console
+    const previousStatusRef = useRef(currentStatus);
+    useEffect(() => {
+        if (previousStatusRef.current !== currentStatus) {
+            log.info(`Status ${previousStatusRef.current} → ${currentStatus}`);
+            previousStatusRef.current = currentStatus;
+        }
+    }, [currentStatus]);
 
-            parts.forEach((part, index) => {
-                if (!current[part]) {
-                    current[part] = index === parts.length - 1
-                        ? { isFile: true, fullPath: file }
-                        : {};
+    // The tree is rebuilt off the main thread; a result for a listing that was replaced meanwhile is dropped
+    useEffect(() => {
+        if (!treePaths) {
+            setFileTree(EMPTY_FILE_TREE);
+            setIsBuildingTree(false);
+            return;
+        }
+        let isCurrent = true;
+        setIsBuildingTree(true);
+        fileTreeBuilder.build(treePaths, treeView)
+            .then(tree => {
+                if (isCurrent) {
+                    setFileTree(tree);
+                }
+            })
+            .catch(error => log.error('Failed to build the file tree', error))
+            .finally(() => {
+                if (isCurrent) {
+                    setIsBuildingTree(false);
                 }
-                current = current[part] as FileTreeNode;
             });
+        return () => {
+            isCurrent = false;
+        };
+    }, [treePaths, treeView]);
+
+    // Persist the active job whenever its status changes, so a reload reopens it. The file
+    // list itself stays with the job - it would not fit in a cookie for large repositories.
+    useEffect(() => {
+        if (!isInitialized || !userEmail || !activeJob) {
+            return;
+        }
+        SessionStorage.saveSession({
+            repoUrl: activeJob.repoUrl,
+            ref: activeJob.ref,
+            sessionId: activeJob.sessionId,
+            currentStatus,
+            userEmail,
+            timestamp: Date.now(),
+            qaHistory: activeJob.qaHistory.filter(entry => !entry.isStreaming),
+            analysisStartedAt: analysisStartedAt ?? undefined,
+            jobId: activeJob.id,
+            analysisOptions: activeJob.options
         });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isInitialized, activeJobId, currentStatus]);
 
-        return tree;
+    // Add history entry helper - goes to the active job, or the local history without one
+    const addHistoryEntry = useCallback((action: string, status: HistoryEntry['status'], details = '') => {
+        const jobId = activeJobIdRef.current;
+        if (jobId) {
+            analysisJobQueue.addHistory(jobId, action, status, details);
+            return;
+        }
+        const entry = createHistoryEntry(action, status, details);
+        log.debug(`History: ${action} [${status}]`, { details: entry.details });
+        setLocalHistory(prev => [entry, ...prev]);
     }, []);
 
-    // Complete analysis and load files function
-    const completeAnalysis = useCallback(async () => {
-        console.log('🚀 completeAnalysis called');
-        console.log('📋 Initial state - repoUrl:', repoUrl, 'sessionId:', sessionId, 'userEmail:', userEmail);
-        console.log('📊 Current fileStructure keys:', Object.keys(fileStructure).length);
-        
-        setIsAnalyzing(false);
-        setCurrentStatus('completed');
-        console.log('✅ Status set to completed, isAnalyzing set to false');
-        
-        addHistoryEntry('Analysis Complete', 'completed', 'Analysis manually completed - loading files...');
-        console.log('📝 Added "Analysis Complete" history entry');
+    // Clear session helper - forgets all jobs and generates a new sessionId for a fresh start
+    const clearSession = useCallback(() => {
+        questionControllerRef.current?.abort();
+        if (userEmail) {
+            analysisJobQueue.clear(userEmail);
+        }
+        setActiveJobId(null);
+        setBaseSessionId(generateSessionId()); // Generate new sessionId for new session
+        setRepoUrl('');
+        setRepoRef('');
+        setSelectedFile(null);
+        setLocalHistory([]);
+        setLocalQaHistory([]);
 
-        if (repoUrl) {
-            console.log('🌐 Repository URL available, attempting to load files...');
-            try {
-                console.log('📞 Calling apiService.getRepositoryFiles with:', repoUrl);
-                // Call the API with the repository URL
-                const files = await apiService.getRepositoryFiles(repoUrl);
-                console.log('✅ Primary API call succeeded! Files loaded:', files);
-                console.log('📊 Files array length:', files?.length || 0);
-                console.log('📄 First few files:', files?.slice(0, 3));
-                
-                const organizedFiles = organizeFileStructure(files);
-                console.log('🗂️  Files organized into structure, keys:', Object.keys(organizedFiles));
-                
-                setFileStructure(organizedFiles);
-                console.log('💾 File structure state updated');
-                
-                addHistoryEntry('File Structure', 'loaded', `${files.length} Java files loaded successfully`);
-                console.log('📝 Added "File Structure loaded" history entry with status: loaded');
-                
-                // Update session storage with file structure
-                storeSessionData();
-                console.log('💾 Session data stored');
-                
-            } catch (error) {
-                console.error('❌ Primary API call failed:', error);
-                console.log('📊 Error details:', {
-                    message: error instanceof Error ? error.message : 'Unknown error',
-                    type: typeof error,
-                    stack: error instanceof Error ? error.stack : undefined
+        SessionStorage.clearSession();
+        log.info('Session cleared - new sessionId generated');
+    }, [userEmail]);
+
+    // Load session from cookies on mount - reopens the job it was saved with
+    useEffect(() => {
+        if (!userEmail) {
+            return;
+        }
+        const storedSession = SessionStorage.getSession();
+        setBaseSessionId(generateSessionId());
+
+        if (storedSession && storedSession.userEmail === userEmail) {
+            let job = analysisJobQueue.get(storedSession.jobId) ?? (storedSession.repoUrl
+                ? analysisJobQueue.findByKey(repositoryKey(storedSession.repoUrl, storedSession.ref), userEmail)
+                : undefined);
+
+            // Sessions saved before analysis jobs existed become a job of their own
+            if (!job && storedSession.repoUrl && storedSession.currentStatus !== 'idle') {
+                const files = collectFilePaths(storedSession.fileStructure ?? {});
+                // If we have files the analysis succeeded, whatever status was saved
+                const state: AnalysisJobState = files.length > 0
+                    ? 'completed'
+                    : storedSession.currentStatus === 'analyzing'
+                        ? 'running'
+                        : storedSession.currentStatus === 'error' ? 'failed' : 'cancelled';
+                job = analysisJobQueue.adopt({
+                    repoUrl: storedSession.repoUrl,
+                    ref: normalizeGitRef(storedSession.ref),
+                    userEmail,
+                    sessionId: storedSession.sessionId,
+                    state,
+                    startedAt: storedSession.analysisStartedAt,
+                    analysisStatus: null,
+                    history: [],
+                    files: files.length > 0 ? files : null,
+                    qaHistory: storedSession.qaHistory || []
                 });
-                
-                addHistoryEntry('File Structure', 'error', 'Could not load file structure from API');
-                console.log('📝 Added "File Structure error" history entry with status: error');
-
-                // Fallback: Try using chat API if we have a session
-                console.log('🔄 Checking fallback conditions - sessionId:', !!sessionId, 'userEmail:', !!userEmail);
-                if (sessionId && userEmail) {
-                    console.log('🔄 Attempting chat API fallback...');
-                    try {
-                        console.log('📞 Calling sendChatMessage with:', {
-                            message: 'List all the Java files in the repository',
-                            userEmail,
-                            sessionId: sessionId.substring(0, 10) + '...',
-                            repoUrl
-                        });
-                        
-                        const response = await apiService.sendChatMessage('List all the Java files in the repository', userEmail, sessionId, repoUrl);
-                        console.log('✅ Chat API fallback succeeded!');
-                        console.log('💬 Chat response structure:', {
-                            hasResponse: !!response?.response,
-                            responseLength: response?.response?.length || 0,
-                            responseType: typeof response?.response,
-                            fullResponse: response
-                        });
-                        
-                        addHistoryEntry('File Structure', 'completed', 'Requested file list from chat API as fallback');
-                        console.log('📝 Added "Chat API fallback completed" history entry with status: completed');
-                        
-                        console.log('❓ Note: Chat fallback "succeeded" but did NOT update fileStructure state');
-                        console.log('📊 Current fileStructure keys after fallback:', Object.keys(fileStructure).length);
-                        
-                    } catch (chatError) {
-                        console.error('❌ Chat API fallback also failed:', chatError);
-                        console.log('📊 Chat error details:', {
-                            message: chatError instanceof Error ? chatError.message : 'Unknown error',
-                            type: typeof chatError
-                        });
-                        
-                        addHistoryEntry('File Structure', 'error', 'Could not load file structure via any method');
-                        console.log('📝 Added "All methods failed" history entry with status: error');
-                    }
-                } else {
-                    console.log('❌ Fallback conditions not met - sessionId:', !!sessionId, 'userEmail:', !!userEmail);
-                }
             }
-        } else {
-            console.log('❌ No repository URL available');
-            addHistoryEntry('File Structure', 'error', 'No repository URL available');
-            console.log('📝 Added "No repo URL" history entry with status: error');
-        }
-        
-        console.log('🏁 completeAnalysis method finished');
-        console.log('📊 Final fileStructure keys:', Object.keys(fileStructure).length);
-    }, [addHistoryEntry, organizeFileStructure, repoUrl, sessionId, storeSessionData, userEmail, fileStructure]);
-
 
-    // Parse analysis response and update UI accordingly - enhanced for non-blocking responses
-    const parseAnalysisResponse = useCallback((response: string) => {
-        // Handle structured status responses (JSON-like)
-        try {
-            const statusObj = JSON.parse(response);
-            if (statusObj.status) {
-                const status = statusObj.status.toLowerCase();
-                const progress = statusObj.progress || '';
-                
-                if (status === 'completed' || status === 'finished') {
-                    setTimeout(() => completeAnalysis(), 1000);
-                    return 'completed';
-                } else if (status === 'error' || status === 'failed') {
-                    setIsAnalyzing(false);
-                    setCurrentStatus('error');
-                    addHistoryEntry('Analysis Failed', 'error', statusObj.message || 'Analysis failed');
-                    return 'error';
-                } else if (status === 'processing' || status === 'in_progress' || status === 'analyzing') {
-                    addHistoryEntry('Analysis Progress', 'in_progress', progress || 'Analysis in progress');
-                    return 'in_progress';
-                }
+            setRepoUrl(storedSession.repoUrl);
+            setRepoRef(storedSession.ref ?? '');
+            if (job) {
+                setActiveJobId(job.id);
+                activeJobIdRef.current = job.id;
+            } else {
+                setBaseSessionId(storedSession.sessionId);
+                setLocalQaHistory(storedSession.qaHistory || []);
             }
-        } catch {
-            // Not JSON, continue with text parsing
-        }
 
-        // Handle system health checks - only show failures, suppress successful ones
-        if (response.includes('System Health Check') || 
-            response.includes('All systems are operational') ||
-            response.includes('All systems operational and ready')) {
-            
-            // Don't add successful health checks to activity history
-            // Only failed health checks will be shown to reduce noise
-            console.log('Suppressing successful health check from activity history');
-            return 'health_check';
-        }
+            // Add history entry to indicate session restored
+            const qaEntries = job ? job.qaHistory.length : (storedSession.qaHistory || []).length;
+            addHistoryEntry('Session Restored', 'completed', `Restored session for ${repositoryKey(storedSession.repoUrl, storedSession.ref)} with ${qaEntries} Q&A entries`);
+            log.info('Session restored', {
+                repoUrl: storedSession.repoUrl,
+                storedStatus: storedSession.currentStatus,
+                jobState: job?.state,
+                qaEntries
+            });
 
-        // Show failed health checks
-        if (response.includes('System Health Check') && 
-            (response.includes('failed') || response.includes('error') || response.includes('unavailable'))) {
-            
-            addHistoryEntry('System Health', 'error', 'System health check failed');
-            return 'health_check_failed';
-        }
-
-        // Check for actual completion indicators
-        if (response.includes('Analysis completed') ||
-            response.includes('successfully processed') ||
-            response.includes('analysis is complete') ||
-            response.includes('finished analyzing') ||
-            response.includes('Storing everything in the vector database') ||
-            response.includes('You can now ask me questions') ||
-            response.includes('process may take 2-10 minutes') ||
-            (response.includes('Creating vector embeddings') && response.includes('Storing everything'))) {
-
-            // Call complete analysis
-            setTimeout(() => completeAnalysis(), 1000);
-            return 'completed';
-        }
-
-        // Check for progress indicators
-        else if (response.includes('files processed') ||
-            response.includes('parsing') ||
-            response.includes('analyzing') ||
-            response.includes('processing') ||
-            response.includes('cloning initiated') ||
-            response.includes('Code analysis') ||
-            response.includes('embedding generation') ||
-            response.includes('Creating vector embeddings') ||
-            response.includes('Repository cloning')) {
-
-            // Check if this indicates completion
-            if (response.includes('This process may take 2-10 minutes') &&
-                response.includes('You can now ask me questions')) {
-                setTimeout(() => completeAnalysis(), 1000);
-                return 'completed';
+            // Inform backend about session continuation - use the restored sessionId directly
+            if (storedSession.repoUrl) {
+                apiService.continueUserSession(job?.sessionId ?? storedSession.sessionId, userEmail, storedSession.repoUrl)
+                    .catch(error => {
+                        log.error('Failed to continue session with backend', error);
+                    });
             }
+        }
 
-            // Provide concise status messages instead of full response
-            let statusMessage = 'Processing repository...';
-            if (response.includes('cloning') || response.includes('Repository cloning')) {
-                statusMessage = 'Cloning repository';
-            } else if (response.includes('parsing')) {
-                statusMessage = 'Parsing code files';
-            } else if (response.includes('analyzing') || response.includes('Code analysis')) {
-                statusMessage = 'Analyzing code structure';
-            } else if (response.includes('embedding') || response.includes('Creating vector embeddings')) {
-                statusMessage = 'Creating embeddings';
-            } else if (response.includes('files processed')) {
-                statusMessage = 'Processing files';
-            }
+        // Mark initialization as complete after restoration attempt
+        setIsInitialized(true);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [userEmail]); // Only depend on userEmail - intentionally excluding other deps to prevent infinite loops
 
-            // Only add entry if it's different from the last one to avoid spam
-            const lastEntry = analysisHistory[0];
-            if (!lastEntry || lastEntry.details !== statusMessage) {
-                addHistoryEntry('Analysis Progress', 'in_progress', statusMessage);
-            }
-            return 'in_progress';
+    // Show another job - its files, history and Q&A replace the current ones
+    const switchJob = useCallback((jobId: string) => {
+        const job = analysisJobQueue.get(jobId);
+        if (!job) {
+            return;
         }
+        setActiveJobId(job.id);
+        activeJobIdRef.current = job.id;
+        setRepoUrl(job.repoUrl);
+        setRepoRef(job.ref ?? '');
+        setAnalysisOptions(job.options ?? DEFAULT_ANALYSIS_OPTIONS);
+        setSelectedFile(null);
+        log.info('Switched analysis job', { repoUrl: job.repoUrl, ref: job.ref, state: job.state });
+    }, []);
 
-        // Check for error indicators
-        else if (response.includes('error') ||
-            response.includes('failed') ||
-            response.includes('cannot') ||
-            response.includes('unable to')) {
-            setIsAnalyzing(false);
-            setCurrentStatus('error');
-            
-            // Provide concise error messages
-            let errorMessage = 'Analysis failed';
-            if (response.includes('cannot access') || response.includes('unable to access')) {
-                errorMessage = 'Unable to access repository';
-            } else if (response.includes('failed to clone')) {
-                errorMessage = 'Failed to clone repository';
-            } else if (response.includes('timeout')) {
-                errorMessage = 'Analysis timed out';
-            }
-            
-            addHistoryEntry('Analysis Failed', 'error', errorMessage);
-            return 'error';
+    // Switch to the latest job for a repository; false when it was never analyzed here
+    const openRepository = useCallback((url: string): boolean => {
+        const job = userEmail ? analysisJobQueue.findByRepository(url, userEmail) : undefined;
+        if (job) {
+            switchJob(job.id);
+            return true;
+        }
+        setActiveJobId(null);
+        activeJobIdRef.current = null;
+        setRepoUrl(url);
+        setRepoRef('');
+        setSelectedFile(null);
+        return false;
+    }, [userEmail, switchJob]);
+
+    // Queue an analysis without switching to it (the active job is kept)
+    const queueRepository = useCallback((url: string, ref?: string) => {
+        if (!userEmail || !url.trim()) {
+            return null;
+        }
+        const job = analysisJobQueue.enqueue(url.trim(), userEmail, ref, SessionStorage.getAnalysisOptions(url.trim()) ?? undefined);
+        if (!activeJobIdRef.current) {
+            switchJob(job.id);
         }
+        return job;
+    }, [userEmail, switchJob]);
 
-        // For any other response - avoid spam by checking last entry
-        else {
-            const lastEntry = analysisHistory[0];
-            const conciseUpdate = 'Analysis in progress';
-            if (!lastEntry || (lastEntry.details !== conciseUpdate && lastEntry.action !== 'Analysis Progress')) {
-                addHistoryEntry('Analysis Update', 'in_progress', conciseUpdate);
-            }
-            return 'unknown';
+    const prioritizeJob = useCallback((jobId: string) => analysisJobQueue.prioritize(jobId), []);
+
+    const cancelJob = useCallback((jobId: string) => analysisJobQueue.cancel(jobId), []);
+
+    const removeJob = useCallback((jobId: string) => {
+        analysisJobQueue.remove(jobId);
+        if (activeJobIdRef.current === jobId) {
+            setActiveJobId(null);
+            activeJobIdRef.current = null;
+            setSelectedFile(null);
         }
-    }, [analysisHistory, addHistoryEntry, completeAnalysis]);
+    }, []);
 
     // Manual analysis status check - can be triggered by user action
     const checkAnalysisStatus = useCallback(async () => {
+        const job = analysisJobQueue.get(activeJobIdRef.current);
         if (!userEmail || !sessionId || !isInitialized) {
-            console.log('Cannot check status - missing userEmail, sessionId, or not initialized');
+            log.warn('Cannot check status - missing userEmail, sessionId, or not initialized');
             return;
         }
+        const targetRepoUrl = job?.repoUrl ?? repoUrl;
 
+        // Apply a conclusive result to a job that is still waiting for one
+        const settle = (outcome: 'completed' | 'error', message: string) => {
+            if (job?.state !== 'running') {
+                return;
+            }
+            if (outcome === 'completed') {
+                analysisJobQueue.complete(job.id, 'Status check found the analysis completed - loading files...');
+            } else {
+                analysisJobQueue.fail(job.id, message);
+            }
+        };
+
+        addHistoryEntry('Status Check', 'in_progress', 'Checking analysis status...');
         try {
-            addHistoryEntry('Status Check', 'in_progress', 'Checking analysis status...');
-            const response = await apiService.sendChatMessage('What is the current analysis status?', userEmail, sessionId, repoUrl);
-
-            // Note: We now use consistent sessionId generated at initialization
-            console.log('Using consistent sessionId:', sessionId);
-
-            if (response.response || response.status) {
-                const statusText = response.status || response.response;
-                const result = parseAnalysisResponse(statusText);
-
-                if (result === 'completed') {
-                    setIsAnalyzing(false);
-                    setCurrentStatus('completed');
-                } else if (result === 'error') {
-                    setIsAnalyzing(false);
-                    setCurrentStatus('error');
+            const status = await apiService.getAnalysisProgress(targetRepoUrl || undefined, { ref: job?.ref });
+            if (job) {
+                analysisJobQueue.update(job.id, { analysisStatus: status });
+            }
+            addHistoryEntry('Status Check', 'completed', `${PHASE_LABELS[status.status]} (${status.progressPercentage}%)`);
+            if (status.status === 'COMPLETED' || status.status === 'FAILED') {
+                settle(status.status === 'COMPLETED' ? 'completed' : 'error', status.error || status.message || PHASE_LABELS.FAILED);
+            }
+            return status.status;
+        } catch (error) {
+            // Only backends without a usable progress endpoint fall through to the chat-based check
+            if (!(error instanceof ResponseShapeError) && (error as { response?: { status?: number } })?.response?.status !== 404) {
+                log.error('Error checking analysis status', error);
+                addHistoryEntry('Status Check', 'error', 'Status check failed');
+                throw error;
+            }
+        }
+
+        try {
+            const response = await apiService.sendChatMessage('What is the current analysis status?', userEmail, sessionId, targetRepoUrl);
+
+            if (response.answer || response.status) {
+                const { outcome, message } = interpretLegacyAnalysisText(response.status || response.answer);
+                if (outcome === 'completed' || outcome === 'error') {
+                    settle(outcome, message);
+                } else if (outcome === 'in_progress') {
+                    addHistoryEntry('Analysis Progress', 'in_progress', message);
+                } else if (outcome === 'health_check_failed') {
+                    addHistoryEntry('System Health', 'error', message);
                 }
-                
+
                 addHistoryEntry('Status Check', 'completed', 'Status check completed');
-                return result;
+                return outcome;
             }
         } catch (error) {
-            console.error('Error checking analysis status:', error);
+            log.error('Error checking analysis status', error);
             addHistoryEntry('Status Check', 'error', 'Status check failed');
             throw error;
         }
-    }, [userEmail, sessionId, repoUrl, isInitialized, parseAnalysisResponse, addHistoryEntry]);
+    }, [userEmail, sessionId, repoUrl, isInitialized, addHistoryEntry]);
 
-    // Analyze repository using chat API with non-blocking response handling
+    // Queue the entered repository and show its job; the queue drives the analysis from here
     const analyzeRepository = useCallback(async () => {
         if (!repoUrl.trim()) {
             addHistoryEntry('Analyze Repository', 'error', 'Repository URL is required');
@@ -496,57 +479,203 @@ export const useAnalysis = (userEmail?: string) => {
             addHistoryEntry('Analyze Repository', 'error', 'User email is required');
             return;
         }
-        
-        if (!sessionId || !isInitialized) {
+
+        if (!isInitialized) {
             addHistoryEntry('Analyze Repository', 'error', 'Session not initialized yet');
             return;
         }
 
-        setIsAnalyzing(true);
-        setCurrentStatus('analyzing');
-        addHistoryEntry('Analyze Repository', 'started', `Starting analysis of ${repoUrl}`);
-        
-        // Store initial session data
-        storeSessionData();
+        if (repoRef.trim() && !isValidGitRef(repoRef)) {
+            addHistoryEntry('Analyze Repository', 'error', `"${repoRef}" is not a valid branch, tag or commit`);
+            return;
+        }
 
-        try {
-            // Send analysis request - expecting non-blocking response
-            const response = await apiService.analyzeRepositoryWithChat(repoUrl, userEmail, sessionId);
+        SessionStorage.saveAnalysisOptions(repoUrl.trim(), analysisOptions);
+        const job = analysisJobQueue.enqueue(repoUrl.trim(), userEmail, repoRef, analysisOptions);
+        switchJob(job.id);
+    }, [repoUrl, repoRef, analysisOptions, userEmail, isInitialized, addHistoryEntry, switchJob]);
 
-            // Using consistent sessionId generated at app initialization
-            console.log('Analysis response received for sessionId:', sessionId);
+    // Upload a project archive, then analyze it under the synthetic repository URL the backend returns
+    const uploadArchive = useCallback(async (archive: File) => {
+        if (!userEmail || !isInitialized) {
+            addHistoryEntry('Upload Archive', 'error', 'Session not initialized yet');
+            return;
+        }
 
-            // Handle immediate response or start polling
-            if (response.response) {
-                const result = parseAnalysisResponse(response.response);
+        const problem = archiveProblem(archive);
+        if (problem) {
+            setUpload({ fileName: archive.name, loadedBytes: 0, totalBytes: archive.size, error: problem });
+            return;
+        }
 
-                if (result === 'completed') {
-                    return;
-                } else if (result === 'error') {
-                    setIsAnalyzing(false);
-                    setCurrentStatus('error');
-                    return;
-                }
-            }
+        uploadControllerRef.current?.abort();
+        const controller = new AbortController();
+        uploadControllerRef.current = controller;
+        setUpload({ fileName: archive.name, loadedBytes: 0, totalBytes: archive.size });
+        addHistoryEntry('Upload Archive', 'started', `Uploading ${archive.name}`);
 
-            // Analysis initiated - backend will handle completion notification
-            addHistoryEntry('Analysis Status', 'in_progress', 'Analysis initiated - backend will notify when complete');
+        try {
+            const uploaded = await apiService.uploadRepositoryArchive(archive, userEmail, sessionId, {
+                signal: controller.signal,
+                onProgress: (loadedBytes, totalBytes) => setUpload({ fileName: archive.name, loadedBytes, totalBytes })
+            });
+            log.info('Archive uploaded', { repositoryUrl: uploaded.repositoryUrl, sizeBytes: uploaded.sizeBytes });
+            setUpload(null);
 
+            const job = analysisJobQueue.enqueue(uploaded.repositoryUrl, userEmail, undefined, analysisOptions);
+            SessionStorage.saveAnalysisOptions(uploaded.repositoryUrl, analysisOptions);
+            switchJob(job.id);
+            analysisJobQueue.addHistory(job.id, 'Upload Archive', 'completed', `${uploaded.fileName} uploaded`);
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
-            addHistoryEntry('Analyze Repository', 'error', errorMessage);
-            setIsAnalyzing(false);
-            setCurrentStatus('error');
-            console.error('Repository analysis error:', error);
+            if (isRequestCancelled(error)) {
+                setUpload(null);
+                addHistoryEntry('Upload Archive', 'cancelled', `Upload of ${archive.name} stopped`);
+                return;
+            }
+            log.error('Archive upload failed', error);
+            const message = error instanceof Error ? error.message : 'Upload failed';
+            setUpload({ fileName: archive.name, loadedBytes: 0, totalBytes: archive.size, error: message });
+            addHistoryEntry('Upload Archive', 'error', message);
+        } finally {
+            if (uploadControllerRef.current === controller) {
+                uploadControllerRef.current = null;
+            }
         }
-    }, [repoUrl, userEmail, sessionId, isInitialized, addHistoryEntry, parseAnalysisResponse, storeSessionData]);
+    }, [userEmail, isInitialized, sessionId, analysisOptions, addHistoryEntry, switchJob]);
+
+    // Stops a running upload, or dismisses a failed one
+    const cancelUpload = useCallback(() => {
+        if (uploadControllerRef.current) {
+            uploadControllerRef.current.abort();
+        } else {
+            setUpload(null);
+        }
+    }, []);
+
+    // Analyze a finished job again at the branch's current head; its file list becomes the baseline
+    const reanalyzeJob = useCallback((jobId: string) => {
+        const job = analysisJobQueue.get(jobId);
+        if (!job || !isJobFinished(job)) {
+            return;
+        }
+        analysisJobQueue.enqueue(job.repoUrl, job.userEmail, job.ref, job.options);
+        switchJob(job.id);
+    }, [switchJob]);
+
+    // Ask what changed since the previous analysis, scoped to the changed files
+    const askAboutChanges = useCallback(() => {
+        if (!changeSummary) {
+            return;
+        }
+        const listed = (label: string, files: string[]) => files.length > 0
+            ? `${label} (${files.length}): ${files.slice(0, MAX_CHANGED_FILES_IN_QUESTION).join(', ')}${files.length > MAX_CHANGED_FILES_IN_QUESTION ? ', ...' : ''}.`
+            : '';
+        const commits = changeSummary.fromCommit && changeSummary.toCommit
+            ? ` from commit ${shortCommit(changeSummary.fromCommit)} to ${shortCommit(changeSummary.toCommit)}`
+            : '';
+        const question = [
+            `What changed since the last analysis${commits}? Only consider these files:`,
+            listed('Added', changeSummary.added),
+            listed('Modified', changeSummary.modified),
+            listed('Removed', changeSummary.removed),
+            'Summarize the changes per file, then explain how they affect the application\'s behaviour, APIs and dependencies.',
+        ].filter(Boolean).join(' ');
+
+        addHistoryEntry('Ask About Changes', 'started', `${countChanges(changeSummary)} changed files`);
+        setExplainFileQuestion(question);
+        setTimeout(() => {
+            setExplainFileQuestion(null);
+        }, 1000);
+    }, [changeSummary, addHistoryEntry]);
+
+    // Question about a line range from the code viewer - the snippet is quoted so the answer stays on it
+    const askAboutLines = useCallback((filePath: string, startLine: number, endLine: number, snippet: string, question: string) => {
+        const snippetLines = snippet.split('\n');
+        const quoted = snippetLines.slice(0, MAX_SNIPPET_LINES_IN_QUESTION).join('\n')
+            + (snippetLines.length > MAX_SNIPPET_LINES_IN_QUESTION ? '\n// ...' : '');
+        const range = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+        const prompt = [
+            `In ${filePath}, ${range}:`,
+            `\`\`\`${detectLanguage(filePath).fence}`,
+            quoted,
+            '```',
+            `${question.trim()} Only consider these lines; mention the rest of the file only where it is needed to explain them.`,
+        ].join('\n');
+
+        addHistoryEntry('Ask About Lines', 'started', `${filePath.split('/').pop()} ${range}`);
+        setExplainFileQuestion(prompt);
+        setTimeout(() => {
+            setExplainFileQuestion(null);
+        }, 1000);
+    }, [addHistoryEntry]);
+
+    // One question about several files from the explorer; the Q&A entry links back to them
+    const askAboutFiles = useCallback((action: MultiFileAction, files: string[]) => {
+        if (files.length === 0) {
+            return;
+        }
+        const { label, intro, ask } = MULTI_FILE_QUESTIONS[action];
+        const question = [
+            `I have already analyzed the repository ${repoUrl}. ${intro}:`,
+            ...files.map(file => `- ${file}`),
+            `${ask} Base the answer on the code of these files; mention other files only where they are needed to connect them, and say so when something cannot be determined from the code.`,
+        ].join('\n');
+
+        addHistoryEntry(label, 'started', `${files.length} files`);
+        questionContextRef.current = { question, context: { files, action: label } };
+        setExplainFileQuestion(question);
+        setTimeout(() => {
+            setExplainFileQuestion(null);
+        }, 1000);
+    }, [repoUrl, addHistoryEntry]);
+
+    // Context menu action on a file or folder; the Q&A entry is labelled with the action
+    const runFileAction = useCallback((action: FileAction, path: string) => {
+        let question: string;
+        let label: string;
+        let files: string[] | undefined;
+        if (action === 'summarizePackage') {
+            const pkg = packageName(path);
+            const folderFiles = (activeFiles ?? []).filter(file => file.startsWith(`${path}/`));
+            question = [
+                `I have already analyzed the repository ${repoUrl}. Summarize the ${pkg ? `package ${pkg} (${path})` : `folder ${path}`}, which holds these ${folderFiles.length} files:`,
+                ...folderFiles.slice(0, MAX_PACKAGE_FILES_IN_QUESTION).map(file => `- ${file}`),
+                ...(folderFiles.length > MAX_PACKAGE_FILES_IN_QUESTION ? [`- ... and ${folderFiles.length - MAX_PACKAGE_FILES_IN_QUESTION} more`] : []),
+                'Explain its responsibility in the application, its main classes and how they relate to each other, what it depends on and what depends on it. Base the answer on these files.',
+            ].join('\n');
+            label = 'Summarize Package';
+        } else {
+            question = FILE_ACTION_QUESTIONS[action].ask(repoUrl, path);
+            label = FILE_ACTION_QUESTIONS[action].label;
+            files = [path];
+        }
+
+        addHistoryEntry(label, 'started', path.split('/').pop() || path);
+        questionContextRef.current = { question, context: { files, action: label } };
+        setExplainFileQuestion(question);
+        setTimeout(() => {
+            setExplainFileQuestion(null);
+        }, 1000);
+    }, [repoUrl, activeFiles, addHistoryEntry]);
+
+    // Stop the active job's analysis (or take it out of the queue)
+    const cancelAnalysis = useCallback(async () => {
+        if (activeJobIdRef.current) {
+            await analysisJobQueue.cancel(activeJobIdRef.current);
+        }
+    }, []);
+
+    // Stop waiting for the pending question's answer
+    const cancelQuestion = useCallback(() => {
+        questionControllerRef.current?.abort();
+    }, []);
 
     // Explain selected file using chat API - now triggers question in UI
     const explainFile = useCallback(async () => {
         if (!selectedFile || !userEmail) return;
 
         const fileName = selectedFile.split('/').pop();
-        const question = `I have already analyzed the repository ${repoUrl}. Now please explain the specific file ${selectedFile}. What does this class/file do? Please provide a detailed explanation of its purpose, main functionality, and key components. Focus on the code structure, methods, dependencies, and how it fits into the overall application architecture.`;
+        const question = explainQuestion(repoUrl, selectedFile);
 
         addHistoryEntry('Explain File', 'started', `Explaining ${fileName}`);
 
@@ -562,17 +691,46 @@ export const useAnalysis = (userEmail?: string) => {
     }, [selectedFile, userEmail, addHistoryEntry, repoUrl]);
 
     // Ensure repository context is set before asking questions
-    const ensureRepositoryContext = useCallback(async () => {
-        if (userEmail && repoUrl && sessionId && isInitialized) {
-            console.log('Setting repository context via session continuation with sessionId:', sessionId);
+    const ensureRepositoryContext = useCallback(async (targetRepoUrl: string, targetSessionId: string, signal?: AbortSignal) => {
+        if (userEmail && targetRepoUrl && isInitialized) {
             try {
-                const response = await apiService.continueUserSession(sessionId, userEmail, repoUrl);
-                console.log('Repository context set successfully:', response);
+                await apiService.continueUserSession(targetSessionId, userEmail, targetRepoUrl, { signal });
             } catch (error) {
-                console.log('Could not set repository context:', error);
+                if (isRequestCancelled(error)) {
+                    throw error;
+                }
+                log.warn('Could not set repository context', error);
             }
         }
-    }, [userEmail, repoUrl, sessionId, isInitialized]);
+    }, [userEmail, isInitialized]);
+
+    // Component metadata is loaded for each finished analysis. Not every repository is a Spring
+    // project, so a failure only leaves the stereotype badges out.
+    const componentsJobId = activeJob?.state === 'completed' ? activeJob.id : null;
+    useEffect(() => {
+        setComponents([]);
+        const job = analysisJobQueue.get(componentsJobId);
+        if (!job || !isInitialized) {
+            return;
+        }
+        const controller = new AbortController();
+        ensureRepositoryContext(job.repoUrl, job.sessionId, controller.signal)
+            .then(() => apiService.getSpringComponents(job.repoUrl, { ref: job.ref, signal: controller.signal }))
+            .then(loaded => {
+                // Another job was opened while the request was in flight
+                if (activeJobIdRef.current !== job.id) {
+                    return;
+                }
+                log.debug('Spring components loaded', { components: loaded.length });
+                setComponents(loaded);
+            })
+            .catch(error => {
+                if (!isRequestCancelled(error)) {
+                    log.warn('Could not load Spring components', error);
+                }
+            });
+        return () => controller.abort();
+    }, [componentsJobId, isInitialized, ensureRepositoryContext]);
 
     // Ask question using chat API - Don't add to activity history
     const askQuestion = useCallback(async (question: string) => {
@@ -584,65 +742,92 @@ export const useAnalysis = (userEmail?: string) => {
             throw new Error('Session not initialized yet');
         }
 
+        questionControllerRef.current?.abort();
+        const controller = new AbortController();
+        questionControllerRef.current = controller;
+
+        // The answer belongs to the job that was active when asking, even if the user switches away
+        const jobId = activeJobIdRef.current;
+        const job = analysisJobQueue.get(jobId);
+        const targetRepoUrl = job?.repoUrl ?? repoUrl;
+        const targetRef = job ? job.ref : normalizeGitRef(repoRef);
+        const targetSessionId = job?.sessionId ?? sessionId;
+        const updateQaHistory = (updater: (entries: QAEntry[]) => QAEntry[]) => {
+            if (jobId) {
+                analysisJobQueue.updateQaHistory(jobId, updater);
+            } else {
+                setLocalQaHistory(updater);
+            }
+        };
+
         // Ensure repository context is set before asking
-        await ensureRepositoryContext();
+        await ensureRepositoryContext(targetRepoUrl, targetSessionId, controller.signal);
+
+        const streamingEntryId = Date.now();
+        const context = questionContextRef.current?.question === question ? questionContextRef.current.context : {};
 
         try {
-            console.log('Sending question with userEmail:', userEmail, 'sessionId:', sessionId, 'repoUrl:', repoUrl, 'and question:', question);
-            console.log('Session ID type:', typeof sessionId, 'Session ID value:', sessionId);
-            
             // Enhance question with explicit repository context to help backend filtering
-            const contextualQuestion = repoUrl 
-                ? `[Repository: ${repoUrl}] ${question}`
+            const contextualQuestion = targetRepoUrl
+                ? `[Repository: ${targetRepoUrl}]${targetRef ? ` [Ref: ${targetRef}]` : ''} ${question}`
                 : question;
+            log.debug('Sending question', { repoUrl: targetRepoUrl, ref: targetRef, questionLength: question.length });
+
+            let response;
+            if (BackendProfiles.getActive().streamChat) {
+                // Show a placeholder entry that fills up as answer tokens stream in
+                updateQaHistory(prev => [{
+                    id: streamingEntryId,
+                    question,
+                    answer: '',
+                    timestamp: formatTimestamp(),
+                    isStreaming: true,
+                    ...context
+                }, ...prev]);
+
+                response = await apiService.streamChatMessage(contextualQuestion, userEmail, targetSessionId, targetRepoUrl, token => {
+                    updateQaHistory(prev => prev.map(entry => entry.id === streamingEntryId
+                        ? { ...entry, answer: entry.answer + token }
+                        : entry));
+                }, { signal: controller.signal });
+            } else {
+                response = await apiService.sendChatMessage(contextualQuestion, userEmail, targetSessionId, targetRepoUrl, { signal: controller.signal });
+            }
+
+            // Store Q&A - jobs persist their own, the cookie keeps answers asked without one
+            const answerText = response.answer;
             
-            console.log('Contextual question being sent:', contextualQuestion);
-            const response = await apiService.sendChatMessage(contextualQuestion, userEmail, sessionId, repoUrl);
-            
-            // Using consistent sessionId throughout the session
-            console.log('Question response received for sessionId:', sessionId);
-            
-            console.log('Backend response:', response);
-            console.log('Response.response value:', response.response);
-            console.log('Response type:', typeof response.response);
-            
-            // Store Q&A in session storage - handle different response formats
-            const answerText = response.response || response.answer || response.data?.response;
-            
-            if (answerText && typeof answerText === 'string' && answerText.trim()) {
-                console.log('Adding QA entry to storage and state');
-                SessionStorage.addQAEntry(question, answerText);
+            if (answerText.trim()) {
+                if (!jobId) {
+                    SessionStorage.addQAEntry(question, answerText, context);
+                }
                 
-                // Update local state
+                // Update local state - replaces the streaming placeholder when there is one
                 const newEntry: QAEntry = {
-                    id: Date.now(),
+                    id: streamingEntryId,
                     question,
                     answer: answerText,
-                    timestamp: new Date().toLocaleTimeString('en-US', {
-                        hour12: false,
-                        hour: '2-digit',
-                        minute: '2-digit',
-                        second: '2-digit'
-                    })
+                    timestamp: formatTimestamp(),
+                    ...context
                 };
-                console.log('New QA entry created:', newEntry);
-                
-                setQaHistory(prev => {
-                    console.log('Previous QA history:', prev);
-                    const updated = [newEntry, ...prev]; // Add new entry to BEGINNING for newest-first order
-                    console.log('Updated QA history:', updated);
-                    return updated;
-                });
                 
-                console.log('QA entry should now be visible in UI');
+                // Add new entry to BEGINNING for newest-first order
+                updateQaHistory(prev => [newEntry, ...prev.filter(entry => entry.id !== streamingEntryId)]);
             } else {
-                console.log('No valid response text found in backend response');
-                console.log('Available response properties:', Object.keys(response));
+                log.warn('Backend returned an empty answer');
+                updateQaHistory(prev => prev.filter(entry => entry.id !== streamingEntryId));
             }
             
             return response; // Just return the response, don't log to activity
         } catch (error: unknown) {
-            console.error('Error in askQuestion:', error);
+            updateQaHistory(prev => prev.filter(entry => entry.id !== streamingEntryId));
+
+            // Cancellation is not an error - let the caller recognise it
+            if (isRequestCancelled(error)) {
+                log.info('Question cancelled by user');
+                throw error;
+            }
+            log.error('Question failed', error);
             
             // Type guard for axios error
             const isAxiosError = (err: unknown): err is { response?: { status: number }; code?: string } => {
@@ -650,10 +835,12 @@ export const useAnalysis = (userEmail?: string) => {
             };
             
             // Provide specific error messages based on error type
-            if (isAxiosError(error) && error.response?.status === 404) {
-                throw new Error('Chat API endpoint not found. Please ensure the backend server is running and the /api/v1/chat/message endpoint exists.');
-            } else if (isAxiosError(error) && (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND')) {
-                throw new Error('Cannot connect to backend server. Please ensure the backend is running on http://localhost:8080 with v1 API endpoints');
+            if (error instanceof CircuitOpenError) {
+                throw new Error(`${error.message}. The backend at ${BackendProfiles.describe()} is not responding.`);
+            } else if (isAxiosError(error) && error.response?.status === 404) {
+                throw new Error(`Chat API endpoint not found. Please ensure the backend server is running and the ${BackendProfiles.getApiBaseUrl()}/chat/message endpoint exists.`);
+            } else if (isAxiosError(error) && (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || error.code === 'ERR_NETWORK')) {
+                throw new Error(`Cannot connect to backend server. Please ensure the backend is running at ${BackendProfiles.describe()}`);
             } else if (isAxiosError(error) && error.response?.status === 500) {
                 throw new Error('Internal server error. Please check the backend server logs.');
             } else {
@@ -661,33 +848,65 @@ export const useAnalysis = (userEmail?: string) => {
                 throw new Error(errorMessage);
             }
         }
-    }, [userEmail, sessionId, repoUrl, isInitialized, ensureRepositoryContext]);
-
-    // REMOVED: Polling logic that was overwhelming backend with status requests
-    // The backend now handles analysis asynchronously without requiring continuous status checks
+    }, [userEmail, sessionId, repoUrl, repoRef, isInitialized, ensureRepositoryContext]);
 
     return {
         // State
         repoUrl,
+        repoRef,
+        analysisOptions,
+        excludedFiles,
         isAnalyzing,
         analysisHistory,
         currentStatus,
-        fileStructure,
+        analysisStatus,
+        analysisStartedAt,
+        analysisError,
+        accessDenied,
+        fileTree,
+        isBuildingTree,
+        treeView,
+        springComponents,
         selectedFile,
         sessionId,
         isInitialized,
         explainFileQuestion,
         qaHistory,
+        jobs,
+        activeJobId,
+        upload,
+        changeSummary,
+        fileChanges,
+        analyzedCommit,
+        analyzedRepoUrl,
+        analyzedRef,
 
         // Actions
         setRepoUrl,
+        setRepoRef,
+        setAnalysisOptions,
         setSelectedFile,
+        setTreeView,
         analyzeRepository,
         explainFile,
-        completeAnalysis,
         askQuestion,
+        cancelAnalysis,
+        cancelQuestion,
         clearSession,
         checkAnalysisStatus,
+        switchJob,
+        openRepository,
+        queueRepository,
+        prioritizeJob,
+        cancelJob,
+        removeJob,
+        uploadArchive,
+        cancelUpload,
+        reanalyzeJob,
+        askAboutChanges,
+        askAboutLines,
+        askAboutFiles,
+        runFileAction,
 
         // Utilities
         addHistoryEntry
@@ -0,0 +1,578 @@
+// Queue of repository analyses. Each job owns its backend session, activity history, progress,
+// file list and Q&A, so several repositories can be analyzed side by side and switched between.
+// Jobs run up to MAX_CONCURRENT_ANALYSES at a time; the rest wait in priority order.
+
+import { AnalysisOptions, AnalysisStatus, FileChangeSummary, HistoryEntry } from '@/types';
+import { countChanges, diffSnapshots, shortCommit } from '@/utils/fileChanges';
+import { languageBreakdown } from '@/utils/languages';
+import { createLogger } from '@/utils/logger';
+import { normalizeGitRef, repositoryKey } from '@/utils/repositoryRef';
+import type { QAEntry } from '@/utils/sessionStorage';
+import {
+    interpretLegacyAnalysisText,
+    isTerminalPhase,
+    PHASE_LABELS,
+    ProgressUnavailableError,
+    watchAnalysis,
+} from './analysisLifecycle';
+import { apiService, generateSessionId, isRequestCancelled, RepositoryAccessError } from './api';
+import { JobListing, listingStore } from './listingStore';
+import { ResponseShapeError } from './normalizers';
+
+export type AnalysisJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+    id: string;
+    repoUrl: string;
+    ref?: string; // Branch, tag or commit SHA - default branch when omitted
+    options?: AnalysisOptions; // Path filters and limits sent with the analyze request
+    userEmail: string;
+    sessionId: string;
+    state: AnalysisJobState;
+    priority: number; // higher runs first
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    analysisStatus: AnalysisStatus | null;
+    history: HistoryEntry[];
+    files: string[] | null; // Kept through a re-analysis until the new listing has loaded
+    qaHistory: QAEntry[];
+    error?: string;
+    accessDenied?: boolean; // The git host refused the clone - credentials are missing or wrong
+    commitSha?: string; // Commit the current file list was analyzed at, when the backend reports it
+    fileHashes?: Record<string, string>;
+    changes?: FileChangeSummary; // Set once a re-analysis has loaded its file list
+    runs?: AnalysisRun[]; // Completed runs, newest first
+}
+
+// One completed analysis of a job
+export interface AnalysisRun {
+    commitSha?: string;
+    finishedAt: number;
+    fileCount: number;
+}
+
+// Clone failures reported through progress rather than by the analyze request itself
+const ACCESS_DENIED_PATTERN = /authentication failed|access denied|not authorized|permission denied|could not read username/i;
+
+type JobListener = (jobs: AnalysisJob[]) => void;
+
+const log = createLogger('analysis');
+
+const STORAGE_KEY = 'analysisJobs';
+const PERSIST_DELAY_MS = 300;
+const MAX_HISTORY_ENTRIES = 100;
+const MAX_RUNS = 20;
+// Finished jobs per user beyond this are dropped, oldest first, to keep storage small
+const MAX_FINISHED_JOBS = 10;
+export const MAX_CONCURRENT_ANALYSES = Math.max(1, Number(process.env.NEXT_PUBLIC_MAX_CONCURRENT_ANALYSES) || 2);
+
+export const isJobFinished = (job: AnalysisJob): boolean =>
+    job.state === 'completed' || job.state === 'failed' || job.state === 'cancelled';
+
+// Several entries can be created within one millisecond - the sequence keeps React keys unique
+let historySequence = 0;
+
+export const createHistoryEntry = (action: string, status: HistoryEntry['status'], details = ''): HistoryEntry => ({
+    id: Date.now() * 1000 + (historySequence++ % 1000),
+    timestamp: new Date().toLocaleTimeString('en-US', {
+        hour12: false,
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }),
+    action,
+    status,
+    details: details.length > 80 ? details.substring(0, 80) + '...' : details
+});
+
+export class AnalysisJobQueue {
+    private jobs: AnalysisJob[] = [];
+    private controllers = new Map<string, AbortController>();
+    private listeners = new Set<JobListener>();
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+    private loaded = false;
+    // Listings as last written to the listing store, so unchanged ones are not written again
+    private storedListings = new Map<string, JobListing>();
+    // Job the dashboard shows - never pruned
+    private activeJobId: string | null = null;
+
+    list(userEmail?: string): AnalysisJob[] {
+        this.ensureLoaded();
+        return userEmail ? this.jobs.filter(job => job.userEmail === userEmail) : this.jobs;
+    }
+
+    get(jobId: string | null | undefined): AnalysisJob | undefined {
+        this.ensureLoaded();
+        return jobId ? this.jobs.find(job => job.id === jobId) : undefined;
+    }
+
+    // Most recent job for a repository, on any ref
+    findByRepository(repoUrl: string, userEmail: string): AnalysisJob | undefined {
+        return this.list(userEmail).find(job => job.repoUrl === repoUrl);
+    }
+
+    // Job for one checkout (repository plus ref)
+    findByKey(key: string, userEmail: string): AnalysisJob | undefined {
+        return this.list(userEmail).find(job => repositoryKey(job.repoUrl, job.ref) === key);
+    }
+
+    subscribe(listener: JobListener): () => void {
+        this.ensureLoaded();
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // Queue an analysis; a repository that is already queued or running is not queued twice,
+    // and re-analyzing a finished repository reuses its job so session and Q&A carry over
+    enqueue(repoUrl: string, userEmail: string, ref?: string, options?: AnalysisOptions): AnalysisJob {
+        this.ensureLoaded();
+        const normalizedRef = normalizeGitRef(ref);
+        const key = repositoryKey(repoUrl, normalizedRef);
+        const existing = this.findByKey(key, userEmail);
+        if (existing && !isJobFinished(existing)) {
+            log.info('Repository is already being analyzed', { repoUrl, ref: normalizedRef, state: existing.state });
+            return existing;
+        }
+
+        const queued: Pick<AnalysisJob, 'options' | 'state' | 'priority' | 'createdAt' | 'startedAt' | 'finishedAt' | 'error' | 'accessDenied'> = {
+            options,
+            state: 'queued',
+            priority: 0,
+            createdAt: Date.now(),
+            startedAt: undefined,
+            finishedAt: undefined,
+            error: undefined,
+            accessDenied: undefined,
+        };
+        const entry = createHistoryEntry('Queued', 'started', `Waiting to analyze ${key}`);
+        const job: AnalysisJob = existing
+            ? { ...existing, ...queued, history: [entry, ...existing.history].slice(0, MAX_HISTORY_ENTRIES) }
+            : {
+                ...queued,
+                id: `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+                repoUrl,
+                ref: normalizedRef,
+                userEmail,
+                sessionId: generateSessionId(),
+                analysisStatus: null,
+                history: [entry],
+                files: null,
+                qaHistory: [],
+            };
+
+        // Newest first, so the panel lists the latest request on top
+        this.jobs = [job, ...this.jobs.filter(candidate => candidate.id !== job.id)];
+        log.info('Analysis queued', { repoUrl, ref: normalizedRef, jobId: job.id });
+        this.changed();
+        this.pump();
+        return this.get(job.id) ?? job;
+    }
+
+    // Take over a job that predates the queue (e.g. a session restored from the cookie)
+    adopt(job: Omit<AnalysisJob, 'id' | 'priority' | 'createdAt'>): AnalysisJob {
+        this.ensureLoaded();
+        const adopted: AnalysisJob = {
+            ...job,
+            id: `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            priority: 0,
+            createdAt: Date.now(),
+        };
+        this.jobs = [adopted, ...this.jobs];
+        this.changed();
+        if (adopted.state === 'running') {
+            this.run(adopted, true);
+        }
+        return adopted;
+    }
+
+    // Move a queued job ahead of every other queued job
+    prioritize(jobId: string): void {
+        const job = this.get(jobId);
+        if (job?.state !== 'queued') {
+            return;
+        }
+        const highest = Math.max(0, ...this.jobs.filter(candidate => candidate.state === 'queued').map(candidate => candidate.priority));
+        this.update(jobId, { priority: highest + 1 });
+        this.addHistory(jobId, 'Queue', 'in_progress', 'Moved to the front of the queue');
+        this.pump();
+    }
+
+    // Stop a running analysis (releasing its clone on the backend) or drop a queued one
+    async cancel(jobId: string): Promise<void> {
+        const job = this.get(jobId);
+        if (!job || isJobFinished(job)) {
+            return;
+        }
+
+        const wasRunning = job.state === 'running';
+        this.controllers.get(jobId)?.abort();
+        this.controllers.delete(jobId);
+        this.update(jobId, { state: 'cancelled', finishedAt: Date.now() });
+        this.addHistory(jobId, 'Analysis Cancelled', 'cancelled', wasRunning
+            ? `Stopped analysis of ${repositoryKey(job.repoUrl, job.ref)}`
+            : `Removed ${repositoryKey(job.repoUrl, job.ref)} from the queue`);
+        this.pump();
+
+        if (wasRunning) {
+            try {
+                await apiService.cleanupRepository(job.repoUrl, { ref: job.ref });
+                this.addHistory(jobId, 'Repository Cleanup', 'completed', 'Cloned repository removed from backend');
+            } catch (error) {
+                log.error('Repository cleanup after cancellation failed', error);
+                this.addHistory(jobId, 'Repository Cleanup', 'error', 'Could not clean up cloned repository');
+            }
+        }
+    }
+
+    // Forget a finished job together with its files and Q&A
+    remove(jobId: string): void {
+        const job = this.get(jobId);
+        if (!job || !isJobFinished(job)) {
+            return;
+        }
+        this.jobs = this.jobs.filter(candidate => candidate.id !== jobId);
+        this.changed();
+    }
+
+    // Cancel and forget every job of a user (logout / new session)
+    clear(userEmail: string): void {
+        this.list(userEmail).forEach(job => {
+            this.controllers.get(job.id)?.abort();
+            this.controllers.delete(job.id);
+        });
+        this.jobs = this.jobs.filter(job => job.userEmail !== userEmail);
+        this.changed();
+        this.pump();
+    }
+
+    // Skip waiting for the backend and load the file list now
+    async complete(jobId: string, details = 'Analysis manually completed - loading files...'): Promise<void> {
+        const job = this.get(jobId);
+        if (!job || job.state !== 'running') {
+            return;
+        }
+        this.controllers.get(jobId)?.abort();
+        const controller = new AbortController();
+        this.controllers.set(jobId, controller);
+        await this.finish(jobId, controller.signal, details);
+    }
+
+    // Mark a running job as failed, e.g. after a manual status check
+    fail(jobId: string, message: string): void {
+        if (this.get(jobId)?.state !== 'running') {
+            return;
+        }
+        this.controllers.get(jobId)?.abort();
+        this.controllers.delete(jobId);
+        this.update(jobId, { state: 'failed', finishedAt: Date.now(), error: message });
+        this.addHistory(jobId, 'Analysis Failed', 'error', message);
+        this.pump();
+    }
+
+    update(jobId: string, patch: Partial<AnalysisJob> | ((job: AnalysisJob) => Partial<AnalysisJob>)): void {
+        let found = false;
+        this.jobs = this.jobs.map(job => {
+            if (job.id !== jobId) {
+                return job;
+            }
+            found = true;
+            return { ...job, ...(typeof patch === 'function' ? patch(job) : patch) };
+        });
+        if (found) {
+            this.changed();
+        }
+    }
+
+    setActiveJob(jobId: string | null): void {
+        this.activeJobId = jobId;
+    }
+
+    updateQaHistory(jobId: string, updater: (entries: QAEntry[]) => QAEntry[]): void {
+        this.update(jobId, job => ({ qaHistory: updater(job.qaHistory) }));
+    }
+
+    addHistory(jobId: string, action: string, status: HistoryEntry['status'], details = ''): void {
+        const entry = createHistoryEntry(action, status, details);
+        log.debug(`History: ${action} [${status}]`, { jobId, details: entry.details });
+        this.update(jobId, job => ({ history: [entry, ...job.history].slice(0, MAX_HISTORY_ENTRIES) }));
+    }
+
+    // Start queued jobs while there is capacity - highest priority first, then oldest
+    private pump(): void {
+        const running = this.jobs.filter(job => job.state === 'running').length;
+        const next = this.jobs
+            .filter(job => job.state === 'queued')
+            .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)
+            .slice(0, Math.max(0, MAX_CONCURRENT_ANALYSES - running));
+        next.forEach(job => this.run(job, false));
+    }
+
+    // Drive one job from the analyze request to its file list. resume follows an analysis
+    // that was already running before a page reload instead of starting it again.
+    private async run(job: AnalysisJob, resume: boolean): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+        const { signal } = controller;
+
+        this.update(job.id, {
+            state: 'running',
+            startedAt: resume ? job.startedAt ?? Date.now() : Date.now(),
+            // A re-analysis keeps the previous listing until the new one has loaded - it is the
+            // baseline for change detection, and stays in place if the analysis fails
+            ...(resume ? {} : {
+                analysisStatus: null,
+                error: undefined,
+                accessDenied: undefined,
+                changes: undefined,
+            }),
+        });
+        this.addHistory(job.id, resume ? 'Analysis Resumed' : 'Analyze Repository', resume ? 'in_progress' : 'started', resume
+            ? 'Following analysis progress after page reload'
+            : `Starting analysis of ${repositoryKey(job.repoUrl, job.ref)}`);
+
+        try {
+            let legacyAnswer: string | undefined;
+            if (!resume) {
+                try {
+                    await apiService.startUserSession(job.sessionId, job.userEmail, { signal });
+                } catch (error) {
+                    if (isRequestCancelled(error)) {
+                        throw error;
+                    }
+                    log.warn('Failed to start the job session (backend may not be ready)', error);
+                }
+                // The backend answers right away and keeps working in the background
+                const response = await apiService.analyzeRepositoryWithChat(job.repoUrl, job.userEmail, job.sessionId, {
+                    ref: job.ref,
+                    analysisOptions: job.options,
+                    signal
+                });
+                log.debug('Analysis request acknowledged', { jobId: job.id, status: response.status });
+                legacyAnswer = response.answer;
+            }
+
+            let finalStatus: AnalysisStatus;
+            try {
+                finalStatus = await watchAnalysis({
+                    repoUrl: job.repoUrl,
+                    ref: job.ref,
+                    initialPhase: resume ? 'IDLE' : 'CLONING',
+                    signal,
+                    onSourceChange: source => {
+                        this.addHistory(job.id, 'Progress Updates', 'in_progress', source === 'push'
+                            ? 'Receiving live progress events'
+                            : 'Polling for analysis progress');
+                    },
+                    onUpdate: (status, phaseChanged) => {
+                        this.update(job.id, { analysisStatus: status });
+                        if (phaseChanged && !isTerminalPhase(status.status)) {
+                            this.addHistory(job.id, 'Analysis Progress', 'in_progress', status.message || PHASE_LABELS[status.status]);
+                        }
+                    }
+                });
+            } catch (error) {
+                if (!(error instanceof ProgressUnavailableError)) {
+                    throw error;
+                }
+                log.warn('Falling back to chat-based analysis status', error);
+                const legacy = legacyAnswer ? interpretLegacyAnalysisText(legacyAnswer) : null;
+                if (legacy?.outcome === 'error') {
+                    throw new Error(legacy.message);
+                }
+                if (legacy?.outcome !== 'completed') {
+                    // Stays running until a status check or manual completion decides
+                    this.addHistory(job.id, 'Analysis Status', 'in_progress', 'Progress tracking unavailable - backend will notify when complete');
+                    return;
+                }
+                finalStatus = { status: 'COMPLETED', totalFiles: 0, processedFiles: 0, progressPercentage: 100 };
+            }
+
+            if (finalStatus.status !== 'COMPLETED') {
+                const reason = finalStatus.error || finalStatus.message || PHASE_LABELS.FAILED;
+                throw ACCESS_DENIED_PATTERN.test(reason) ? new RepositoryAccessError(job.repoUrl, reason) : new Error(reason);
+            }
+            await this.finish(job.id, signal, 'Backend reported analysis completed - loading files...');
+        } catch (error) {
+            // cancel() has already recorded the outcome
+            if (isRequestCancelled(error) || signal.aborted) {
+                return;
+            }
+            log.error('Repository analysis failed', error);
+            this.update(job.id, {
+                state: 'failed',
+                finishedAt: Date.now(),
+                error: error instanceof Error ? error.message : PHASE_LABELS.FAILED,
+                accessDenied: error instanceof RepositoryAccessError || undefined,
+            });
+            this.addHistory(job.id, 'Analysis Failed', 'error', error instanceof Error ? error.message : PHASE_LABELS.FAILED);
+        } finally {
+            if (this.controllers.get(job.id) === controller && this.get(job.id)?.state !== 'running') {
+                this.controllers.delete(job.id);
+            }
+            this.pump();
+        }
+    }
+
+    private async finish(jobId: string, signal: AbortSignal, details: string): Promise<void> {
+        const job = this.get(jobId);
+        if (!job) {
+            return;
+        }
+        this.update(jobId, { state: 'completed', finishedAt: Date.now() });
+        this.addHistory(jobId, 'Analysis Complete', 'completed', details);
+        this.pump();
+
+        try {
+            const snapshot = await apiService.getRepositorySnapshot(job.repoUrl, { ref: job.ref, signal });
+            const previous = this.get(jobId);
+            const changes = previous?.files
+                ? diffSnapshots({ files: previous.files, commitSha: previous.commitSha, fileHashes: previous.fileHashes }, snapshot)
+                : undefined;
+            this.update(jobId, current => ({
+                files: snapshot.files,
+                commitSha: snapshot.commitSha,
+                fileHashes: snapshot.fileHashes,
+                changes,
+                runs: [
+                    { commitSha: snapshot.commitSha, finishedAt: Date.now(), fileCount: snapshot.files.length },
+                    ...(current.runs ?? []),
+                ].slice(0, MAX_RUNS),
+            }));
+            log.info(`Loaded ${snapshot.files.length} files`, { jobId, commit: snapshot.commitSha });
+            const mainLanguages = languageBreakdown(snapshot.files).slice(0, 3)
+                .map(share => `${share.language.label} ${Math.round(share.percentage)}%`).join(', ');
+            this.addHistory(jobId, 'File Structure', 'loaded', `${snapshot.files.length} files loaded successfully${mainLanguages ? ` (${mainLanguages})` : ''}`);
+            if (changes) {
+                const commits = changes.fromCommit && changes.toCommit ? ` (${shortCommit(changes.fromCommit)} → ${shortCommit(changes.toCommit)})` : '';
+                this.addHistory(jobId, 'Changes Since Last Analysis', 'loaded', countChanges(changes) === 0
+                    ? `No file changes${commits}`
+                    : `${changes.added.length} added, ${changes.modified.length} modified, ${changes.removed.length} removed${commits}`);
+            }
+        } catch (error) {
+            if (isRequestCancelled(error)) {
+                return;
+            }
+            log.error('Loading repository files failed', error);
+            this.addHistory(jobId, 'File Structure', 'error', error instanceof ResponseShapeError
+                ? `Unexpected file list format: ${error.issues.join('; ')}`
+                : 'Could not load file structure from API');
+        } finally {
+            if (this.controllers.get(jobId)?.signal === signal) {
+                this.controllers.delete(jobId);
+            }
+        }
+    }
+
+    private changed(): void {
+        // Jobs are newest first, so counting per user finds each user's oldest finished jobs
+        const finishedPerUser = new Map<string, number>();
+        const dropped = new Set<string>();
+        this.jobs.filter(isJobFinished).forEach(job => {
+            const count = (finishedPerUser.get(job.userEmail) ?? 0) + 1;
+            finishedPerUser.set(job.userEmail, count);
+            if (count > MAX_FINISHED_JOBS && job.id !== this.activeJobId) {
+                dropped.add(job.id);
+            }
+        });
+        if (dropped.size > 0) {
+            this.jobs = this.jobs.filter(job => !dropped.has(job.id));
+        }
+        this.listeners.forEach(listener => listener(this.jobs));
+        this.schedulePersist();
+    }
+
+    // Jobs survive reloads in localStorage and their file listings in the listing store; running
+    // jobs are followed again and queued ones started
+    private ensureLoaded(): void {
+        if (this.loaded || typeof window === 'undefined') {
+            return;
+        }
+        this.loaded = true;
+
+        try {
+            const stored = window.localStorage.getItem(STORAGE_KEY);
+            this.jobs = stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            log.warn('Could not restore analysis jobs', error);
+            this.jobs = [];
+        }
+        window.addEventListener('pagehide', () => this.persist());
+        this.restoreListings();
+
+        this.jobs.filter(job => job.state === 'running').forEach(job => this.run(job, true));
+        this.pump();
+    }
+
+    private async restoreListings(): Promise<void> {
+        try {
+            const listings = await listingStore.load(this.jobs.filter(job => !job.files).map(job => job.id));
+            if (listings.size === 0) {
+                return;
+            }
+            // A job that loaded a new listing in the meantime keeps it
+            this.jobs = this.jobs.map(job => {
+                const listing = listings.get(job.id);
+                if (!listing || job.files) {
+                    return job;
+                }
+                this.storedListings.set(job.id, listing);
+                return { ...job, ...listing };
+            });
+            this.changed();
+        } catch (error) {
+            log.warn('Could not restore file listings', error);
+        }
+    }
+
+    private schedulePersist(): void {
+        if (typeof window === 'undefined' || this.persistTimer) {
+            return;
+        }
+        this.persistTimer = setTimeout(() => this.persist(), PERSIST_DELAY_MS);
+    }
+
+    private persist(): void {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = null;
+        }
+        try {
+            const jobs = this.jobs.map(job => ({
+                ...job,
+                files: null,
+                fileHashes: undefined,
+                changes: undefined,
+                qaHistory: job.qaHistory.filter(entry => !entry.isStreaming),
+            }));
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+        } catch (error) {
+            log.warn('Could not persist analysis jobs', error);
+        }
+        this.persistListings();
+    }
+
+    // Write new and changed listings, and drop those of jobs that are gone
+    private persistListings(): void {
+        const jobIds = new Set(this.jobs.map(job => job.id));
+        const changed = new Map<string, JobListing>();
+        this.jobs.forEach(job => {
+            const stored = this.storedListings.get(job.id);
+            if (job.files && (stored?.files !== job.files || stored.fileHashes !== job.fileHashes || stored.changes !== job.changes)) {
+                changed.set(job.id, { files: job.files, fileHashes: job.fileHashes, changes: job.changes });
+            }
+        });
+        const removed = [...this.storedListings.keys()].filter(jobId => !jobIds.has(jobId));
+        if (changed.size === 0 && removed.length === 0) {
+            return;
+        }
+
+        changed.forEach((listing, jobId) => this.storedListings.set(jobId, listing));
+        removed.forEach(jobId => this.storedListings.delete(jobId));
+        listingStore.sync(changed, jobIds).catch(error => {
+            log.warn('Could not persist file listings', error);
+        });
+    }
+}
+
+export const analysisJobQueue = new AnalysisJobQueue();
@@ -0,0 +1,313 @@
+import axios from 'axios';
+import { AnalysisStatus } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { apiService, isRequestCancelled } from './api';
+import { BackendProfiles } from './backendProfiles';
+import { ResponseShapeError } from './normalizers';
+import { PushUnavailableError, subscribeToAnalysisEvents } from './progressEvents';
+import { CircuitOpenError, waitForRetry } from './resilience';
+
+// Analysis lifecycle as reported by /analysis/progress:
+// IDLE → CLONING → PARSING → ANALYZING → COMPLETED | FAILED
+
+export type AnalysisPhase = AnalysisStatus['status'];
+
+const log = createLogger('analysis');
+
+// Polls may miss short phases, so forward jumps are allowed; moving backwards never is
+export const ANALYSIS_TRANSITIONS: Record<AnalysisPhase, AnalysisPhase[]> = {
+    IDLE: ['CLONING', 'PARSING', 'ANALYZING', 'COMPLETED', 'FAILED'],
+    CLONING: ['PARSING', 'ANALYZING', 'COMPLETED', 'FAILED'],
+    PARSING: ['ANALYZING', 'COMPLETED', 'FAILED'],
+    ANALYZING: ['COMPLETED', 'FAILED'],
+    COMPLETED: [],
+    FAILED: [],
+};
+
+export const PHASE_LABELS: Record<AnalysisPhase, string> = {
+    IDLE: 'Waiting for analysis to start',
+    CLONING: 'Cloning repository',
+    PARSING: 'Parsing code files',
+    ANALYZING: 'Analyzing code structure',
+    COMPLETED: 'Analysis completed',
+    FAILED: 'Analysis failed',
+};
+
+export const isTerminalPhase = (phase: AnalysisPhase): boolean =>
+    phase === 'COMPLETED' || phase === 'FAILED';
+
+// Next phase of the state machine - reports that would move it illegally are ignored as stale
+export const advancePhase = (current: AnalysisPhase, reported: AnalysisPhase): AnalysisPhase =>
+    ANALYSIS_TRANSITIONS[current].includes(reported) ? reported : current;
+
+// Backend has no usable /analysis/progress endpoint - callers fall back to chat-based status
+export class ProgressUnavailableError extends Error {
+    constructor(reason: string) {
+        super(`Analysis progress is not available: ${reason}`);
+        this.name = 'ProgressUnavailableError';
+    }
+}
+
+export interface ProgressTrackingOptions {
+    // Repository checkout being analyzed - scopes progress reports when several analyses run at once
+    repoUrl?: string;
+    ref?: string;
+    initialPhase?: AnalysisPhase;
+    signal?: AbortSignal;
+    // Called for every accepted status report; phaseChanged is true when the state machine moved
+    onUpdate: (status: AnalysisStatus, phaseChanged: boolean) => void;
+}
+
+export type ProgressSource = 'push' | 'polling';
+
+export interface AnalysisWatchOptions extends ProgressTrackingOptions {
+    onSourceChange?: (source: ProgressSource) => void;
+}
+
+// Polling starts fast and slows down while nothing changes, to keep load on the backend low
+const INITIAL_INTERVAL_MS = 2000;
+const MAX_INTERVAL_MS = 10000;
+const BACKOFF_FACTOR = 1.5;
+const MAX_CONSECUTIVE_ERRORS = 3;
+const MAX_IDLE_POLLS = 5;
+
+const isUnsupportedEndpoint = (error: unknown): boolean =>
+    error instanceof ResponseShapeError ||
+    (axios.isAxiosError(error) && [404, 405, 501].includes(error.response?.status ?? 0));
+
+// Follow /analysis/progress until the analysis reaches COMPLETED or FAILED.
+// Resolves with the terminal status; rejects on cancellation, timeout or repeated failures.
+export const trackAnalysisProgress = async ({
+    repoUrl,
+    ref,
+    initialPhase = 'IDLE',
+    signal,
+    onUpdate,
+}: ProgressTrackingOptions): Promise<AnalysisStatus> => {
+    const deadline = Date.now() + BackendProfiles.getActive().timeout;
+    let phase = initialPhase;
+    let interval = INITIAL_INTERVAL_MS;
+    let consecutiveErrors = 0;
+    let idlePolls = 0;
+    let lastPercentage = -1;
+
+    while (Date.now() < deadline) {
+        let status: AnalysisStatus;
+        try {
+            status = await apiService.getAnalysisProgress(repoUrl, { ref, signal });
+            consecutiveErrors = 0;
+        } catch (error) {
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
+            if (isUnsupportedEndpoint(error)) {
+                throw new ProgressUnavailableError(error instanceof Error ? error.message : 'unexpected response');
+            }
+            consecutiveErrors += 1;
+            log.warn(`Progress poll failed (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS})`, error);
+            if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+                throw error;
+            }
+            // An open circuit tells us exactly when the backend is worth asking again
+            const retryIn = error instanceof CircuitOpenError ? error.retryAt - Date.now() : interval;
+            await waitForRetry(Math.max(retryIn, INITIAL_INTERVAL_MS), signal);
+            continue;
+        }
+
+        // IDLE means the backend has not picked the analysis up (yet) or has forgotten it
+        if (status.status === 'IDLE') {
+            idlePolls += 1;
+            if (idlePolls >= MAX_IDLE_POLLS) {
+                throw new Error('Backend is not running an analysis for this repository');
+            }
+        } else {
+            idlePolls = 0;
+        }
+
+        const nextPhase = advancePhase(phase, status.status);
+        const phaseChanged = nextPhase !== phase;
+        if (phaseChanged) {
+            log.info(`Analysis phase ${phase} → ${nextPhase}`, {
+                processedFiles: status.processedFiles,
+                totalFiles: status.totalFiles
+            });
+            phase = nextPhase;
+        } else if (status.status !== phase && status.status !== 'IDLE') {
+            log.debug(`Ignoring stale progress report ${status.status} while in ${phase}`);
+        }
+
+        if (status.status === phase) {
+            onUpdate(status, phaseChanged);
+            if (isTerminalPhase(phase)) {
+                return status;
+            }
+        }
+
+        // Reset to fast polling whenever something moved, back off while it does not
+        const moved = phaseChanged || status.progressPercentage !== lastPercentage;
+        lastPercentage = status.progressPercentage;
+        interval = moved ? INITIAL_INTERVAL_MS : Math.min(interval * BACKOFF_FACTOR, MAX_INTERVAL_MS);
+        await waitForRetry(interval, signal);
+    }
+
+    throw new Error(`Analysis did not finish within ${Math.round(BackendProfiles.getActive().timeout / 60000)} minutes`);
+};
+
+// Follow an analysis to completion: pushed events from /analysis/events when the profile and
+// backend support them, polling /analysis/progress otherwise or once the event stream gives up
+export const watchAnalysis = async ({
+    repoUrl,
+    ref,
+    initialPhase = 'IDLE',
+    signal,
+    onUpdate,
+    onSourceChange,
+}: AnalysisWatchOptions): Promise<AnalysisStatus> => {
+    let phase = initialPhase;
+
+    if (BackendProfiles.getActive().progressEvents) {
+        // Local controller so an IDLE report can hand over to polling, which knows how to judge it
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort();
+        signal?.addEventListener('abort', forwardAbort);
+        let sawIdle = false;
+        let connected = false;
+
+        try {
+            const finalStatus = await subscribeToAnalysisEvents({
+                repoUrl,
+                ref,
+                signal: controller.signal,
+                onConnect: () => {
+                    // Reconnects resume silently - only the first connection is announced
+                    if (!connected) {
+                        connected = true;
+                        onSourceChange?.('push');
+                    }
+                },
+                onEvent: ({ status }) => {
+                    if (status.status === 'IDLE') {
+                        sawIdle = true;
+                        controller.abort();
+                        return;
+                    }
+                    const nextPhase = advancePhase(phase, status.status);
+                    const phaseChanged = nextPhase !== phase;
+                    if (phaseChanged) {
+                        log.info(`Analysis phase ${phase} → ${nextPhase} (pushed)`);
+                        phase = nextPhase;
+                    }
+                    if (status.status === phase) {
+                        onUpdate(status, phaseChanged);
+                    }
+                },
+            });
+            if (isTerminalPhase(phase)) {
+                return finalStatus;
+            }
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            if (error instanceof PushUnavailableError) {
+                log.info('Backend does not push analysis events - polling instead');
+            } else if (sawIdle) {
+                log.debug('Event stream reported no running analysis - confirming by polling');
+            } else {
+                log.warn('Analysis event stream failed - falling back to polling', error);
+            }
+        } finally {
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+
+    onSourceChange?.('polling');
+    return trackAnalysisProgress({ repoUrl, ref, initialPhase: phase, signal, onUpdate });
+};
+
+export type LegacyAnalysisOutcome = 'completed' | 'error' | 'in_progress' | 'health_check' | 'health_check_failed' | 'unknown';
+
+// Legacy fallback: infer progress from chat text for backends without /analysis/progress.
+// Fragile by nature - the phrases change whenever the LLM rephrases its answer.
+export const interpretLegacyAnalysisText = (response: string): { outcome: LegacyAnalysisOutcome; message: string } => {
+    // Handle structured status responses (JSON-like)
+    try {
+        const statusObj = JSON.parse(response);
+        if (statusObj.status) {
+            const status = String(statusObj.status).toLowerCase();
+            if (status === 'completed' || status === 'finished') {
+                return { outcome: 'completed', message: PHASE_LABELS.COMPLETED };
+            } else if (status === 'error' || status === 'failed') {
+                return { outcome: 'error', message: statusObj.message || 'Analysis failed' };
+            } else if (status === 'processing' || status === 'in_progress' || status === 'analyzing') {
+                return { outcome: 'in_progress', message: statusObj.progress || 'Analysis in progress' };
+            }
+        }
+    } catch {
+        // Not JSON, continue with text parsing
+    }
+
+    // Health check answers say nothing about the analysis - only failures are worth reporting
+    if (response.includes('System Health Check')) {
+        return response.includes('failed') || response.includes('error') || response.includes('unavailable')
+            ? { outcome: 'health_check_failed', message: 'System health check failed' }
+            : { outcome: 'health_check', message: 'System health check passed' };
+    }
+    if (response.includes('All systems are operational') || response.includes('All systems operational and ready')) {
+        return { outcome: 'health_check', message: 'System health check passed' };
+    }
+
+    // Check for actual completion indicators
+    if (response.includes('Analysis completed') ||
+        response.includes('successfully processed') ||
+        response.includes('analysis is complete') ||
+        response.includes('finished analyzing') ||
+        response.includes('Storing everything in the vector database') ||
+        response.includes('You can now ask me questions') ||
+        response.includes('process may take 2-10 minutes')) {
+        return { outcome: 'completed', message: PHASE_LABELS.COMPLETED };
+    }
+
+    // Check for progress indicators, reported as concise status messages instead of the full answer
+    if (response.includes('files processed') ||
+        response.includes('parsing') ||
+        response.includes('analyzing') ||
+        response.includes('processing') ||
+        response.includes('cloning initiated') ||
+        response.includes('Code analysis') ||
+        response.includes('embedding generation') ||
+        response.includes('Creating vector embeddings') ||
+        response.includes('Repository cloning')) {
+        let message = 'Processing repository...';
+        if (response.includes('cloning') || response.includes('Repository cloning')) {
+            message = PHASE_LABELS.CLONING;
+        } else if (response.includes('parsing')) {
+            message = PHASE_LABELS.PARSING;
+        } else if (response.includes('analyzing') || response.includes('Code analysis')) {
+            message = PHASE_LABELS.ANALYZING;
+        } else if (response.includes('embedding') || response.includes('Creating vector embeddings')) {
+            message = 'Creating embeddings';
+        } else if (response.includes('files processed')) {
+            message = 'Processing files';
+        }
+        return { outcome: 'in_progress', message };
+    }
+
+    // Check for error indicators
+    if (response.includes('error') ||
+        response.includes('failed') ||
+        response.includes('cannot') ||
+        response.includes('unable to')) {
+        let message = 'Analysis failed';
+        if (response.includes('cannot access') || response.includes('unable to access')) {
+            message = 'Unable to access repository';
+        } else if (response.includes('failed to clone')) {
+            message = 'Failed to clone repository';
+        } else if (response.includes('timeout')) {
+            message = 'Analysis timed out';
+        }
+        return { outcome: 'error', message };
+    }
+
+    return { outcome: 'unknown', message: 'Analysis in progress' };
+};
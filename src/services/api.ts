@@ -1,108 +1,233 @@
-import axios from 'axios';
-import { AnalysisStatus, CloneResponse, ExplainResponse } from '@/types';
-
-// Session API response types
-interface SessionResponse {
-    sessionId: string;
-    message?: string;
-    status?: string;
-}
+import axios, { AxiosError } from 'axios';
+import {
+    AnalysisOptions,
+    AnalysisStatus,
+    ApiEndpoint,
+    ChatResponse,
+    CloneResponse,
+    CodeSearchResult,
+    ExplainResponse,
+    FileContent,
+    HealthResponse,
+    RepositorySnapshot,
+    SessionResponse,
+    SessionStatusResponse,
+    SpringComponent,
+    UploadResponse,
+    UserRepository,
+} from '@/types';
+import {
+    BackendProfiles,
+    PROFILE_HEADER,
+    PROXY_BASE_PATH,
+    PROXY_ERROR_HEADER,
+    REPOSITORY_HEADER,
+} from './backendProfiles';
+import { readChatStream, TokenHandler } from './chatStream';
+import { mockAdapter, mockFetch } from './mock/mockBackend';
+import {
+    CircuitOpenError,
+    getCircuitBreaker,
+    getRetryDelay,
+    isConnectionFailure,
+    waitForRetry,
+} from './resilience';
+import {
+    normalizeAnalysisStatus,
+    normalizeChatResponse,
+    normalizeCloneResponse,
+    normalizeEndpoints,
+    normalizeExplainResponse,
+    normalizeFileContent,
+    normalizeHealth,
+    normalizeRecord,
+    normalizeRepositorySnapshot,
+    normalizeSearchResults,
+    normalizeSession,
+    normalizeSessionStatus,
+    normalizeSpringComponents,
+    normalizeUploadResponse,
+    normalizeUserRepositories,
+} from './normalizers';
+import { createLogger } from '@/utils/logger';
+import { repositoryHost } from '@/utils/repositoryRef';
 
-interface ChatResponse {
-    response?: string;
-    answer?: string;
-    sessionId?: string;
-    status?: string;
-    data?: {
-        response?: string;
-    };
-}
+const log = createLogger('api');
 
-interface RepositoriesResponse {
-    repositories: string[];
-}
-
-interface SessionStatusResponse {
-    sessionId: string;
-    userEmail: string;
-    repositoryUrl?: string;
-    isActive: boolean;
-}
-
-// Configure axios with base URL and timeout
+// Configure axios - requests go through the Next.js proxy, timeouts come from the active backend profile
 const api = axios.create({
-    baseURL: 'http://localhost:8080/api/v1',
-    timeout: 1200000, // 2 minutes for long-running operations
     headers: {
         'Content-Type': 'application/json',
     },
 });
 
-// Request interceptor for logging and API key authentication
+const describeRequest = (config: { method?: string; url?: string }) =>
+    `${config.method?.toUpperCase()} ${config.url}`;
+
+const elapsedSince = (startedAt?: number) => (startedAt ? Date.now() - startedAt : undefined);
+
+// Request interceptor for backend profile resolution, circuit breaking and logging.
+// The API key is added by the server-side proxy and never reaches the browser.
 api.interceptors.request.use(
     (config) => {
-        console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
-        
-        // Add API key header to all requests except /health endpoint
-        if (config.url && !config.url.includes('/health')) {
-            const apiKey = process.env.API_KEY || process.env.NEXT_PUBLIC_API_KEY;
-            if (apiKey) {
-                config.headers = config.headers || {};
-                config.headers['X-API-Key'] = apiKey;
+        const profile = BackendProfiles.getActive();
+        config.baseURL = PROXY_BASE_PATH;
+        config.profileId = profile.id;
+        config.headers.set(PROFILE_HEADER, profile.id);
+        if (profile.mock) {
+            config.adapter = mockAdapter;
+        }
+        if (!config.timeout) {
+            config.timeout = profile.timeout;
+        }
+
+        // Fail fast while the backend is known to be down
+        const breaker = getCircuitBreaker(profile.id);
+        if (!config.bypassCircuit) {
+            if (!breaker.allowRequest()) {
+                throw new CircuitOpenError(breaker.getSnapshot().retryAt ?? Date.now());
             }
+            config.circuitTrial = breaker.getSnapshot().state === 'half-open';
         }
+
+        config.startedAt = Date.now();
+        log.debug(`→ ${describeRequest(config)}`, {
+            profile: profile.id,
+            retry: config.retryCount,
+            params: config.params
+        });
         
         return config;
     },
     (error) => {
-        console.error('API Request Error:', error);
+        log.error('Request could not be sent', error);
         return Promise.reject(error);
     }
 );
 
-// Response interceptor for error handling
+// Response interceptor for error handling and the retry / circuit breaker policy
 api.interceptors.response.use(
     (response) => {
-        if (process.env.NODE_ENV === 'development') {
-            console.log(`API Response: ${response.status} ${response.config.url}`);
+        if (response.config.profileId) {
+            getCircuitBreaker(response.config.profileId).recordSuccess();
         }
+        log.info(`← ${response.status} ${describeRequest(response.config)}`, {
+            durationMs: elapsedSince(response.config.startedAt)
+        });
         return response;
     },
-    (error) => {
-        // Only log meaningful errors in development
-        if (process.env.NODE_ENV === 'development') {
-            if (error.response) {
-                // Server responded with error status
-                const errorData = error.response.data;
-                const errorMessage = errorData?.message || errorData?.error;
-                
-                // Skip logging common development 404s and expected errors
-                const isExpected404 = error.response.status === 404 && (
-                    error.config.url?.includes('/user/session/continue') ||
-                    error.config.url?.includes('/user/') ||
-                    errorMessage?.includes('No static resource')
-                );
-                
-                // Only log unexpected errors with meaningful messages
-                if (errorMessage && errorMessage !== '{}' && !isExpected404) {
-                    console.error(`API Error [${error.response.status}]:`, errorMessage);
-                }
-                // Silently ignore empty responses, expected 404s, and development setup issues
-            } else if (error.request && error.code !== 'ECONNREFUSED' && error.code !== 'ENOTFOUND') {
-                // Network error (but not connection issues during dev)
-                console.warn('Network Error:', error.message);
-            }
+    async (error) => {
+        // Circuit breaker rejections and cancellations are not transport errors
+        if (!axios.isAxiosError(error) || !error.config) {
+            return Promise.reject(error);
+        }
+
+        // Any HTTP response proves the backend is reachable; only connection failures trip the breaker
+        const breaker = error.config.profileId ? getCircuitBreaker(error.config.profileId) : null;
+        if (isConnectionFailure(error)) {
+            breaker?.recordConnectionFailure();
+        } else if (error.response) {
+            breaker?.recordSuccess();
+        } else if (error.config.circuitTrial) {
+            // Cancelled or timed out before the backend answered - free the half-open trial
+            breaker?.releaseTrial(error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT);
+        }
+
+        if (error.response) {
+            // Server responded with error status
+            const errorData = error.response.data;
+            const errorMessage = errorData?.message || errorData?.error;
+
+            // Unknown users and sessions are routine 404s - keep them out of the warning level
+            const isExpected404 = error.response.status === 404 && (
+                error.config.url?.includes('/user/') ||
+                errorMessage?.includes('No static resource')
+            );
+
+            log[isExpected404 ? 'debug' : 'warn'](`← ${error.response.status} ${describeRequest(error.config)}`, {
+                durationMs: elapsedSince(error.config.startedAt),
+                message: errorMessage
+            });
+        } else if (!isRequestCancelled(error)) {
+            log.warn(`✕ ${describeRequest(error.config)} failed without a response`, {
+                code: error.code,
+                durationMs: elapsedSince(error.config.startedAt)
+            });
         }
         
         // Don't reject 202 status codes - they're successful async responses
         if (error.response?.status === 202) {
             return error.response;
         }
+
+        // Retry transient failures with backoff, unless the breaker has just opened
+        const retryDelay = getRetryDelay(error);
+        if (retryDelay !== null && breaker?.getSnapshot().state !== 'open') {
+            const config = error.config;
+            config.retryCount = (config.retryCount ?? 0) + 1;
+            log.info(`Retrying ${describeRequest(config)} in ${Math.round(retryDelay)} ms (attempt ${config.retryCount})`);
+            await waitForRetry(retryDelay, config.signal as AbortSignal | undefined);
+            return api.request(config);
+        }
         
         return Promise.reject(error);
     }
 );
 
+// Per-call options shared by every apiService method
+export interface RequestOptions {
+    signal?: AbortSignal;
+}
+
+// Options for calls about one checkout of a repository
+export interface RepositoryRequestOptions extends RequestOptions {
+    ref?: string; // Branch, tag or commit SHA - the default branch when omitted
+}
+
+// Options for starting an analysis
+export interface AnalyzeRequestOptions extends RepositoryRequestOptions {
+    analysisOptions?: AnalysisOptions;
+}
+
+// Options for uploading a project archive
+export interface UploadRequestOptions extends RequestOptions {
+    onProgress?: (loadedBytes: number, totalBytes: number) => void;
+}
+
+// Query parameters identifying a repository checkout
+const repositoryParams = (repoUrl?: string, ref?: string) =>
+    repoUrl ? { url: repoUrl, ...(ref ? { ref } : {}) } : undefined;
+
+// True when a request was aborted through its AbortSignal (axios or fetch)
+export const isRequestCancelled = (error: unknown): boolean =>
+    axios.isCancel(error) ||
+    (error instanceof Error && error.name === 'AbortError') ||
+    (typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ERR_CANCELED');
+
+// The git host refused the backend's clone - private repository without (valid) credentials
+export class RepositoryAccessError extends Error {
+    readonly host: string | null;
+
+    constructor(repoUrl: string, reason?: string) {
+        const host = repositoryHost(repoUrl);
+        super(`Access to ${repoUrl} was denied${reason ? ` (${reason})` : ''} - add or update the access token for ${host ?? 'this host'} under Repository Credentials`);
+        this.name = 'RepositoryAccessError';
+        this.host = host;
+    }
+}
+
+// 401/403 from the backend (not the proxy's route allowlist) on a clone or analyze request
+const toRepositoryAccessError = (error: unknown, repoUrl: string): unknown => {
+    if (!axios.isAxiosError(error) || !error.response || ![401, 403].includes(error.response.status)) {
+        return error;
+    }
+    if (error.response.headers?.[PROXY_ERROR_HEADER.toLowerCase()] === 'route-not-allowed') {
+        return error;
+    }
+    const data = error.response.data;
+    return new RepositoryAccessError(repoUrl, typeof data?.message === 'string' ? data.message : undefined);
+};
+
 // Generate unique session ID - more robust UUID-like format
 const generateSessionId = () => {
     const timestamp = Date.now();
@@ -113,89 +238,122 @@ const generateSessionId = () => {
 // API Service Functions
 export const apiService = {
     // Health check to verify backend connectivity  
-    async healthCheck(): Promise<{ status: string; message: string }> {
+    async healthCheck(options: RequestOptions = {}): Promise<HealthResponse> {
         try {
-            await api.get('/analysis/health');
+            // The health check doubles as the circuit breaker probe, so it may pass an open circuit
+            await api.get('/analysis/health', { signal: options.signal, bypassCircuit: true });
             return { status: 'connected', message: 'Backend server is reachable' };
         } catch (error) {
-            console.error('Backend health check failed:', error);
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
+            log.warn('Backend health check failed', error);
             return { 
                 status: 'error', 
-                message: 'Backend server is not reachable. Please ensure the backend is running on http://localhost:8080 with v1 API endpoints' 
+                message: `Backend server is not reachable. Please ensure the backend is running at ${BackendProfiles.describe()}` 
             };
         }
     },
     // Session Management - now includes sessionId in all calls
-    async startUserSession(sessionId: string, email: string): Promise<SessionResponse> {
-        const response = await api.post<SessionResponse>('/user/session/start', {
+    async startUserSession(sessionId: string, email: string, options: RequestOptions = {}): Promise<SessionResponse> {
+        const response = await api.post('/user/session/start', {
             sessionId,
             email
-        });
-        return response.data;
+        }, { signal: options.signal });
+        return normalizeSession('/user/session/start', response.data, sessionId);
     },
 
-    async continueUserSession(sessionId: string, email: string, repositoryUrl: string): Promise<SessionResponse> {
+    async continueUserSession(sessionId: string, email: string, repositoryUrl: string, options: RequestOptions = {}): Promise<SessionResponse> {
         try {
-            const response = await api.post<SessionResponse>('/user/session/continue', {
+            const response = await api.post('/user/session/continue', {
                 sessionId,
                 email,
                 repositoryUrl
-            });
-            return response.data;
+            }, { signal: options.signal });
+            return normalizeSession('/user/session/continue', response.data, sessionId);
         } catch (error) {
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
             // Handle session continuation gracefully - backend might not have the session
-            console.log('Session continuation failed (normal for new sessions):', error instanceof Error ? error.message : 'Unknown error');
+            log.debug('Session continuation failed (normal for new sessions)', error);
             return { sessionId, message: 'Starting new session' };
         }
     },
 
-    async getUserRepositories(sessionId: string, email: string): Promise<RepositoriesResponse> {
-        const response = await api.get<RepositoriesResponse>(`/user/${email}/repositories`, {
-            params: { sessionId }
+    async getUserRepositories(sessionId: string, email: string, options: RequestOptions = {}): Promise<UserRepository[]> {
+        const response = await api.get(`/user/${email}/repositories`, {
+            params: { sessionId },
+            signal: options.signal
         });
-        return response.data;
+        return normalizeUserRepositories('/user/repositories', response.data);
     },
 
-    async getCurrentSession(sessionId: string, email: string): Promise<SessionStatusResponse> {
-        const response = await api.get<SessionStatusResponse>(`/user/${email}/session`, {
-            params: { sessionId }
+    async getCurrentSession(sessionId: string, email: string, options: RequestOptions = {}): Promise<SessionStatusResponse> {
+        const response = await api.get(`/user/${email}/session`, {
+            params: { sessionId },
+            signal: options.signal
         });
-        return response.data;
+        return normalizeSessionStatus('/user/session', response.data);
     },
 
     // Chat-based Repository Analysis (hybrid: email + sessionId)
-    async analyzeRepositoryWithChat(repoUrl: string, userEmail: string, sessionId?: string | null): Promise<ChatResponse> {
+    async analyzeRepositoryWithChat(repoUrl: string, userEmail: string, sessionId?: string | null, options: AnalyzeRequestOptions = {}): Promise<ChatResponse> {
         const payload: {
             message: string;
             userEmail: string;
             sessionId?: string;
+            repositoryUrl: string;
+            ref?: string;
+            options?: {
+                includePatterns: string[];
+                excludePatterns: string[];
+                maxFileSizeBytes?: number;
+                includeTestSources: boolean;
+            };
         } = {
             message: `Analyze ${repoUrl}`,
-            userEmail: userEmail
+            userEmail: userEmail,
+            repositoryUrl: repoUrl
         };
         
         // Include sessionId if provided (for session continuity)
         if (sessionId) {
             payload.sessionId = sessionId;
         }
+
+        // The ref travels as its own field - the message stays parseable by older backends
+        if (options.ref) {
+            payload.ref = options.ref;
+        }
+
+        if (options.analysisOptions) {
+            const { includePatterns, excludePatterns, maxFileSizeKb, includeTestSources } = options.analysisOptions;
+            payload.options = {
+                includePatterns,
+                excludePatterns,
+                ...(maxFileSizeKb !== null ? { maxFileSizeBytes: maxFileSizeKb * 1024 } : {}),
+                includeTestSources
+            };
+        }
         
-        // Use shorter timeout for analysis requests (1 minute)
-        const response = await api.post<ChatResponse>('/chat/message', payload, {
-            timeout: 60000 // 1 minute timeout
-        });
-        return response.data;
+        // Use the profile's shorter analysis timeout - the backend answers before analysis finishes.
+        // The repository header lets the proxy attach the user's credentials for its host.
+        let response;
+        try {
+            response = await api.post('/chat/message', payload, {
+                timeout: BackendProfiles.getActive().analysisTimeout,
+                headers: { [REPOSITORY_HEADER]: repoUrl },
+                signal: options.signal
+            });
+        } catch (error) {
+            throw toRepositoryAccessError(error, repoUrl);
+        }
+        return normalizeChatResponse('/chat/message', response.data);
     },
 
     // Chat message for queries (hybrid: email + sessionId)
-    async sendChatMessage(message: string, userEmail: string, sessionId?: string | null, repositoryUrl?: string): Promise<ChatResponse> {
-        console.log('💬 sendChatMessage called:', {
-            messagePreview: message.substring(0, 50) + (message.length > 50 ? '...' : ''),
-            userEmail,
-            hasSessionId: !!sessionId,
-            hasRepositoryUrl: !!repositoryUrl,
-            timestamp: new Date().toLocaleTimeString()
-        });
-        
+    async sendChatMessage(message: string, userEmail: string, sessionId?: string | null, repositoryUrl?: string, options: RequestOptions = {}): Promise<ChatResponse> {
         const payload: {
             message: string;
             userEmail: string;
@@ -208,167 +366,269 @@ export const apiService = {
         };
         
         // Include sessionId if provided (critical for context preservation)
-        console.log('🆔 API sendChatMessage - sessionId parameter:', sessionId, 'Type:', typeof sessionId);
         if (sessionId) {
             payload.sessionId = sessionId;
-            console.log('✅ Added sessionId to payload:', payload.sessionId);
-        } else {
-            console.log('❌ No sessionId provided - payload will not include sessionId');
         }
         
         // Include repository URL if provided (critical for repository filtering)
         if (repositoryUrl) {
             payload.repositoryUrl = repositoryUrl;
             payload.repositoryContext = repositoryUrl; // Additional field for backend
-            console.log('✅ Added repositoryUrl to payload:', payload.repositoryUrl);
-            console.log('🔗 Repository context for filtering:', repositoryUrl);
         } else {
-            console.log('❌ WARNING: No repositoryUrl provided - backend may not filter by repository');
+            log.warn('Chat message sent without a repository - backend may not filter by repository');
         }
         
-        console.log('📦 Full payload being sent to /chat/message:', JSON.stringify(payload, null, 2));
+        const response = await api.post('/chat/message', payload, { signal: options.signal });
+        const chatResponse = normalizeChatResponse('/chat/message', response.data);
+        log.debug('Chat answer received', {
+            answerLength: chatResponse.answer.length,
+            chatStatus: chatResponse.status
+        });
         
+        return chatResponse;
+    },
+
+    // Streaming chat message - shows tokens as they arrive (SSE or chunked text).
+    // Backends without streaming support answer with plain JSON, which is delivered as a single chunk.
+    async streamChatMessage(message: string, userEmail: string, sessionId: string | null | undefined, repositoryUrl: string | undefined, onToken: TokenHandler, options: RequestOptions = {}): Promise<ChatResponse> {
+        const profile = BackendProfiles.getActive();
+        const payload: {
+            message: string;
+            userEmail: string;
+            stream: boolean;
+            sessionId?: string;
+            repositoryUrl?: string;
+            repositoryContext?: string;
+        } = {
+            message,
+            userEmail,
+            stream: true
+        };
+
+        if (sessionId) {
+            payload.sessionId = sessionId;
+        }
+        if (repositoryUrl) {
+            payload.repositoryUrl = repositoryUrl;
+            payload.repositoryContext = repositoryUrl;
+        }
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream, text/plain, application/json',
+            [PROFILE_HEADER]: profile.id
+        };
+
+        // fetch bypasses the axios interceptors, so consult the circuit breaker directly
+        const breaker = getCircuitBreaker(profile.id);
+        if (!breaker.allowRequest()) {
+            throw new CircuitOpenError(breaker.getSnapshot().retryAt ?? Date.now());
+        }
+        const isCircuitTrial = breaker.getSnapshot().state === 'half-open';
+
+        // fetch has no timeout option - abort manually using the profile timeout,
+        // and forward cancellation from the caller's signal
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), profile.timeout);
+        const forwardAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', forwardAbort);
+        if (options.signal?.aborted) {
+            controller.abort();
+        }
+
+        const startedAt = Date.now();
+        log.debug('→ POST /chat/message (streaming)', { profile: profile.id });
+
         try {
-            console.log('📞 Making chat API call...');
-            const response = await api.post<ChatResponse>('/chat/message', payload);
-            
-            console.log('✅ Chat API response received:', {
-                status: response.status,
-                statusText: response.statusText,
-                hasResponse: !!response.data?.response,
-                responseLength: response.data?.response?.length || 0,
-                responseType: typeof response.data?.response,
-                hasAnswer: !!response.data?.answer,
-                responseKeys: response.data ? Object.keys(response.data) : []
+            const doFetch = profile.mock ? mockFetch : fetch;
+            const response = await doFetch(`${PROXY_BASE_PATH}/chat/message`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(payload),
+                signal: controller.signal
+            }).catch((fetchError: unknown) => {
+                // fetch rejects with a TypeError when the backend cannot be reached at all
+                if (!isRequestCancelled(fetchError)) {
+                    breaker.recordConnectionFailure();
+                    throw Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK', cause: fetchError });
+                }
+                throw fetchError;
             });
-            
-            console.log('💬 Full chat response data:', response.data);
-            
-            return response.data;
-        } catch (error) {
-            console.error('❌ sendChatMessage failed:', error);
-            console.log('📊 Chat error details:', {
-                message: error instanceof Error ? error.message : 'Unknown error',
-                status: (error as unknown as {response?: {status?: number}})?.response?.status,
-                statusText: (error as unknown as {response?: {statusText?: string}})?.response?.statusText,
-                responseData: (error as unknown as {response?: {data?: unknown}})?.response?.data
+            if (response.headers.get(PROXY_ERROR_HEADER) === 'upstream-unreachable') {
+                breaker.recordConnectionFailure();
+            } else {
+                breaker.recordSuccess();
+            }
+
+            if (!response.ok) {
+                // Keep the axios error shape so callers can inspect response.status
+                throw Object.assign(new Error(`Request failed with status code ${response.status}`), {
+                    response: { status: response.status, statusText: response.statusText }
+                });
+            }
+
+            const result = await readChatStream(response, onToken);
+            log.info(`← ${response.status} POST /chat/message (streaming)`, {
+                durationMs: elapsedSince(startedAt),
+                streamed: result.streamed,
+                responseLength: result.text.length
             });
+
+            return {
+                answer: result.text,
+                sessionId: result.sessionId ?? sessionId ?? undefined
+            };
+        } catch (error) {
+            if (isCircuitTrial && isRequestCancelled(error)) {
+                breaker.releaseTrial(!options.signal?.aborted);
+            }
+            if (isRequestCancelled(error) && !options.signal?.aborted) {
+                throw new Error(`Chat request timed out after ${profile.timeout} ms`);
+            }
+            if (!isRequestCancelled(error)) {
+                log.warn('✕ POST /chat/message (streaming) failed', error);
+            }
             throw error;
+        } finally {
+            clearTimeout(timeoutId);
+            options.signal?.removeEventListener('abort', forwardAbort);
         }
     },
 
     // Get chat session context
-    async getChatContext(sessionId: string): Promise<Record<string, unknown>> {
-        const response = await api.get<Record<string, unknown>>(`/chat/session/${sessionId}/context`);
-        return response.data;
+    async getChatContext(sessionId: string, options: RequestOptions = {}): Promise<Record<string, unknown>> {
+        const response = await api.get(`/chat/session/${sessionId}/context`, { signal: options.signal });
+        return normalizeRecord('/chat/session/context', response.data);
     },
 
     // Legacy Repository Management (keeping for backward compatibility)
-    async cloneRepository(repoUrl: string): Promise<CloneResponse> {
+    async cloneRepository(repoUrl: string, options: RequestOptions = {}): Promise<CloneResponse> {
+        // Backends read the clone target from either the query string or the body - send both
+        // in a single request and leave transient failures to the central retry policy
+        let response;
         try {
-            // Try with query parameters first (based on your error message)
-            const response = await api.post(`/repository/clone?url=${encodeURIComponent(repoUrl)}&async=true`);
-            return response.data;
-        } catch {
-            // If that fails, try with request body as fallback
-            console.log('Trying request body format...');
-            const response = await api.post('/repository/clone', {
+            response = await api.post('/repository/clone', {
                 url: repoUrl,
                 async: true
+            }, {
+                params: { url: repoUrl, async: true },
+                signal: options.signal
             });
-            return response.data;
+        } catch (error) {
+            throw toRepositoryAccessError(error, repoUrl);
         }
+        return normalizeCloneResponse('/repository/clone', response.data);
     },
 
-    async getRepositoryFiles(repoUrl?: string): Promise<string[]> {
-        console.log('🌐 getRepositoryFiles called with repoUrl:', repoUrl);
-        
+    // Project archive (.zip, .tar, .tar.gz) for code that lives in no git host. The backend unpacks it
+    // and afterwards treats the returned synthetic upload:// URL like a cloned repository.
+    async uploadRepositoryArchive(archive: File, userEmail: string, sessionId?: string | null, options: UploadRequestOptions = {}): Promise<UploadResponse> {
+        const form = new FormData();
+        form.append('archive', archive, archive.name);
+        form.append('userEmail', userEmail);
+        if (sessionId) {
+            form.append('sessionId', sessionId);
+        }
+
+        // multipart/form-data lets the browser add the boundary - the instance default is JSON
+        const response = await api.post('/repository/upload', form, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+            signal: options.signal,
+            onUploadProgress: (event) => options.onProgress?.(event.loaded, event.total ?? archive.size)
+        });
+        return normalizeUploadResponse('/repository/upload', response.data, archive);
+    },
+
+    async getRepositoryFiles(repoUrl?: string, options: RepositoryRequestOptions = {}): Promise<string[]> {
+        return (await apiService.getRepositorySnapshot(repoUrl, options)).files;
+    },
+
+    // File listing together with the analyzed commit and content hashes, for change detection
+    async getRepositorySnapshot(repoUrl?: string, options: RepositoryRequestOptions = {}): Promise<RepositorySnapshot> {
+        let response;
         try {
-            let url = '/repository/files';
-            if (repoUrl) {
-                url += `?url=${encodeURIComponent(repoUrl)}`;
-            }
-            
-            console.log('📞 Making API call to:', url);
-            const response = await api.get(url);
-            
-            console.log('✅ API response received:', {
-                status: response.status,
-                statusText: response.statusText,
-                dataType: typeof response.data,
-                hasJavaFiles: !!(response.data && response.data.javaFiles),
-                javaFilesLength: response.data?.javaFiles?.length || 0,
-                responseKeys: response.data ? Object.keys(response.data) : []
+            response = await api.get('/repository/files', {
+                params: repositoryParams(repoUrl, options.ref),
+                signal: options.signal
             });
-            
-            // Based on your API response structure, extract the javaFiles array
-            if (response.data && response.data.javaFiles) {
-                console.log('📄 Returning javaFiles array with', response.data.javaFiles.length, 'files');
-                console.log('📋 First few files:', response.data.javaFiles.slice(0, 3));
-                return response.data.javaFiles;
-            }
-
-            // Fallback if response structure is different
-            console.log('⚠️  No javaFiles property found, returning raw data');
-            console.log('📊 Raw response data:', response.data);
-            return response.data || [];
-            
         } catch (error) {
-            console.error('❌ getRepositoryFiles failed:', error);
-            console.log('📊 Error details:', {
-                message: error instanceof Error ? error.message : 'Unknown error',
-                status: (error as unknown as {response?: {status?: number}})?.response?.status,
-                statusText: (error as unknown as {response?: {statusText?: string}})?.response?.statusText,
-                responseData: (error as unknown as {response?: {data?: unknown}})?.response?.data
-            });
+            if (isRequestCancelled(error)) {
+                throw error;
+            }
+            log.error('Could not retrieve repository files', error);
             throw new Error('Could not retrieve repository files from API');
         }
+
+        // Shape problems surface as ResponseShapeError rather than the generic transport error above
+        const snapshot = normalizeRepositorySnapshot('/repository/files', response.data);
+        log.debug(`Repository listing contains ${snapshot.files.length} files`, { commit: snapshot.commitSha });
+        return snapshot;
     },
 
-    async cleanupRepository(): Promise<void> {
-        await api.delete('/repository/cleanup');
+    // Source of one file of an analyzed checkout, for the code viewer
+    async getFileContent(repoUrl: string, filePath: string, options: RepositoryRequestOptions = {}): Promise<FileContent> {
+        const response = await api.get('/repository/file', {
+            params: { ...repositoryParams(repoUrl, options.ref), path: filePath },
+            signal: options.signal
+        });
+        return normalizeFileContent('/repository/file', response.data, filePath);
+    },
+
+    async cleanupRepository(repoUrl?: string, options: RepositoryRequestOptions = {}): Promise<void> {
+        await api.delete('/repository/cleanup', {
+            params: repositoryParams(repoUrl, options.ref),
+            signal: options.signal
+        });
     },
 
     // Analysis Management
-    async startAnalysis(): Promise<void> {
-        await api.post('/analysis/start');
+    async startAnalysis(options: RequestOptions = {}): Promise<void> {
+        await api.post('/analysis/start', undefined, { signal: options.signal });
     },
 
-    async getAnalysisProgress(): Promise<AnalysisStatus> {
-        const response = await api.get<AnalysisStatus>('/analysis/progress');
-        return response.data;
+    // Scoped to one repository when repoUrl is given, so concurrent analyses can be told apart
+    async getAnalysisProgress(repoUrl?: string, options: RepositoryRequestOptions = {}): Promise<AnalysisStatus> {
+        const response = await api.get('/analysis/progress', {
+            params: repositoryParams(repoUrl, options.ref),
+            signal: options.signal
+        });
+        return normalizeAnalysisStatus('/analysis/progress', response.data);
     },
 
-    async getAnalysisHealth(): Promise<{ status: string; message: string }> {
-        const response = await api.get('/analysis/health');
-        return response.data;
+    async getAnalysisHealth(options: RequestOptions = {}): Promise<HealthResponse> {
+        const response = await api.get('/analysis/health', { signal: options.signal });
+        return normalizeHealth('/analysis/health', response.data);
     },
 
     // Query Management
-    async explainFile(filePath: string): Promise<ExplainResponse> {
-        const response = await api.post<ExplainResponse>('/query/ask', {
+    async explainFile(filePath: string, options: RequestOptions = {}): Promise<ExplainResponse> {
+        const response = await api.post('/query/ask', {
             query: `Explain the code in ${filePath}. What does this class/file do? Provide details about its purpose, main methods, and how it fits into the overall architecture.`,
             includeExplanation: true
-        });
-        return response.data;
+        }, { signal: options.signal });
+        return normalizeExplainResponse('/query/ask', response.data);
     },
 
-    async searchCode(query: string): Promise<Record<string, unknown>> {
-        const response = await api.post<Record<string, unknown>>('/query/search', {
+    async searchCode(query: string, options: RequestOptions = {}): Promise<CodeSearchResult[]> {
+        const response = await api.post('/query/search', {
             query,
             limit: 10
-        });
-        return response.data;
+        }, { signal: options.signal });
+        return normalizeSearchResults('/query/search', response.data);
     },
 
-    async getEndpoints(): Promise<Record<string, unknown>> {
-        const response = await api.get<Record<string, unknown>>('/query/endpoints');
-        return response.data;
+    async getEndpoints(options: RequestOptions = {}): Promise<ApiEndpoint[]> {
+        const response = await api.get('/query/endpoints', { signal: options.signal });
+        return normalizeEndpoints('/query/endpoints', response.data);
     },
 
-    async getSpringComponents(): Promise<Record<string, unknown>> {
-        const response = await api.get<Record<string, unknown>>('/query/spring-components');
-        return response.data;
+    // Scoped to one repository like the file requests, so concurrent analyses do not mix
+    async getSpringComponents(repoUrl?: string, options: RepositoryRequestOptions = {}): Promise<SpringComponent[]> {
+        const response = await api.get('/query/spring-components', {
+            params: repositoryParams(repoUrl, options.ref),
+            signal: options.signal
+        });
+        return normalizeSpringComponents('/query/spring-components', response.data);
     }
 };
 
@@ -0,0 +1,149 @@
+import { BackendProfile } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('api');
+
+type ProfileListener = (profile: BackendProfile) => void;
+
+const PROFILE_STORAGE_KEY = 'backendProfile';
+
+// The browser only ever talks to the Next.js proxy route; it adds the API key server-side
+export const PROXY_BASE_PATH = '/api/backend';
+export const PROFILE_HEADER = 'X-Backend-Profile';
+export const PROXY_ERROR_HEADER = 'X-Proxy-Error';
+// Repository an analysis or clone request is about - the proxy attaches that host's credentials
+export const REPOSITORY_HEADER = 'X-Repository-Url';
+const DEFAULT_TIMEOUT = 1200000; // 20 minutes for long-running operations
+const DEFAULT_ANALYSIS_TIMEOUT = 60000; // 1 minute for analysis kick-off requests
+
+const listeners = new Set<ProfileListener>();
+let activeProfileId: string | null = null;
+
+// Fill in defaults for a partially specified profile (e.g. from env JSON)
+const withDefaults = (profile: Partial<BackendProfile> & { id: string }): BackendProfile => ({
+    id: profile.id,
+    name: profile.name || profile.id,
+    baseUrl: (profile.baseUrl || 'http://localhost:8080').replace(/\/+$/, ''),
+    apiVersion: profile.apiVersion || 'v1',
+    timeout: profile.timeout || DEFAULT_TIMEOUT,
+    analysisTimeout: profile.analysisTimeout || DEFAULT_ANALYSIS_TIMEOUT,
+    // Streaming is requested by default - non-streaming backends simply answer with JSON
+    streamChat: profile.streamChat ?? process.env.NEXT_PUBLIC_STREAM_CHAT !== 'false',
+    // Backends without the event stream are detected at runtime and fall back to polling
+    progressEvents: profile.progressEvents ?? process.env.NEXT_PUBLIC_PROGRESS_EVENTS !== 'false',
+    mock: profile.mock === true,
+});
+
+// Built-in local profile, overridable through NEXT_PUBLIC_BACKEND_URL / NEXT_PUBLIC_API_VERSION
+const localProfile = (): BackendProfile => withDefaults({
+    id: 'local',
+    name: 'Local',
+    baseUrl: process.env.NEXT_PUBLIC_BACKEND_URL,
+    apiVersion: process.env.NEXT_PUBLIC_API_VERSION,
+});
+
+// Offline mock backend for frontend work, demos and UI tests - hidden in production builds
+// unless NEXT_PUBLIC_MOCK_BACKEND=true
+const mockProfile = (): BackendProfile | null => {
+    const enabled = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true'
+        || (process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_MOCK_BACKEND !== 'false');
+    return enabled
+        ? withDefaults({ id: 'mock', name: 'Mock (offline)', baseUrl: 'mock://backend', mock: true })
+        : null;
+};
+
+// Additional profiles (staging, shared, ...) come from NEXT_PUBLIC_BACKEND_PROFILES as a JSON array
+const envProfiles = (): BackendProfile[] => {
+    const raw = process.env.NEXT_PUBLIC_BACKEND_PROFILES;
+    if (!raw) {
+        return [];
+    }
+
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        if (!Array.isArray(parsed)) {
+            log.warn('NEXT_PUBLIC_BACKEND_PROFILES must be a JSON array - ignoring');
+            return [];
+        }
+        return parsed
+            .filter((entry): entry is Partial<BackendProfile> & { id: string } =>
+                typeof entry === 'object' && entry !== null && typeof entry.id === 'string')
+            .map(withDefaults);
+    } catch (error) {
+        log.warn('Failed to parse NEXT_PUBLIC_BACKEND_PROFILES - ignoring', error);
+        return [];
+    }
+};
+
+const readStoredProfileId = (): string | null => {
+    if (typeof window === 'undefined') {
+        return null;
+    }
+    try {
+        return window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export class BackendProfiles {
+    static list(): BackendProfile[] {
+        const profiles = envProfiles();
+        // Env profiles may redefine the built-in ones; only add those that aren't redefined
+        const builtIns = [localProfile(), mockProfile()]
+            .filter((profile): profile is BackendProfile => profile !== null)
+            .filter(profile => !profiles.some(candidate => candidate.id === profile.id));
+        return [...builtIns, ...profiles];
+    }
+
+    static getActive(): BackendProfile {
+        const profiles = BackendProfiles.list();
+        const preferredId = activeProfileId
+            ?? readStoredProfileId()
+            ?? process.env.NEXT_PUBLIC_BACKEND_PROFILE
+            ?? 'local';
+
+        return profiles.find(profile => profile.id === preferredId) || profiles[0];
+    }
+
+    static setActive(profileId: string): void {
+        const profile = BackendProfiles.list().find(candidate => candidate.id === profileId);
+        if (!profile) {
+            log.warn(`Unknown backend profile "${profileId}" - keeping current profile`);
+            return;
+        }
+
+        activeProfileId = profile.id;
+        if (typeof window !== 'undefined') {
+            try {
+                window.localStorage.setItem(PROFILE_STORAGE_KEY, profile.id);
+            } catch (error) {
+                log.error('Failed to persist backend profile selection', error);
+            }
+        }
+
+        log.info(`Switched backend profile to ${profile.id}`);
+        listeners.forEach(listener => listener(profile));
+    }
+
+    // Subscribe to active profile changes - returns an unsubscribe function
+    static subscribe(listener: ProfileListener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    // Full API root for a profile, e.g. http://localhost:8080/api/v1
+    static getApiBaseUrl(profile: BackendProfile = BackendProfiles.getActive()): string {
+        return `${profile.baseUrl}/api/${profile.apiVersion}`;
+    }
+
+    // Human readable description used in connectivity error messages
+    static describe(profile: BackendProfile = BackendProfiles.getActive()): string {
+        if (profile.mock) {
+            return 'the in-process mock backend (profile: Mock)';
+        }
+        return `${profile.baseUrl} with ${profile.apiVersion} API endpoints (profile: ${profile.name})`;
+    }
+}
@@ -0,0 +1,149 @@
+// Incremental reader for /chat/message responses.
+// Understands Server-Sent Events, plain chunked text and regular JSON bodies so that
+// streaming and non-streaming backends can be consumed through the same call.
+
+import { normalizeChatResponse } from './normalizers';
+
+export type TokenHandler = (token: string) => void;
+
+interface StreamEventPayload {
+    token?: string;
+    delta?: string;
+    content?: string;
+    response?: string;
+    answer?: string;
+    sessionId?: string;
+    done?: boolean;
+}
+
+export interface ChatStreamResult {
+    text: string;
+    sessionId?: string;
+    streamed: boolean;
+}
+
+// Extract the token carried by a single SSE "data:" payload
+const parseEventData = (data: string): { token: string; final?: string; sessionId?: string; done: boolean } => {
+    if (data === '[DONE]') {
+        return { token: '', done: true };
+    }
+
+    try {
+        const payload: StreamEventPayload = JSON.parse(data);
+        if (typeof payload !== 'object' || payload === null) {
+            return { token: String(payload), done: false };
+        }
+        return {
+            token: payload.token ?? payload.delta ?? payload.content ?? '',
+            // Some backends finish with the complete answer instead of a last token
+            final: payload.response ?? payload.answer,
+            sessionId: payload.sessionId,
+            done: payload.done === true,
+        };
+    } catch {
+        // Plain text tokens are sent as-is
+        return { token: data, done: false };
+    }
+};
+
+const readServerSentEvents = async (body: ReadableStream<Uint8Array>, onToken: TokenHandler): Promise<ChatStreamResult> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let finalText: string | undefined;
+    let sessionId: string | undefined;
+
+    const handleEvent = (rawEvent: string): boolean => {
+        const data = rawEvent
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).replace(/^ /, ''))
+            .join('\n');
+        if (!data) {
+            return false;
+        }
+
+        const event = parseEventData(data);
+        if (event.sessionId) {
+            sessionId = event.sessionId;
+        }
+        if (event.final !== undefined) {
+            finalText = event.final;
+        }
+        if (event.token) {
+            text += event.token;
+            onToken(event.token);
+        }
+        return event.done;
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+            break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() ?? '';
+
+        for (const rawEvent of events) {
+            if (handleEvent(rawEvent)) {
+                await reader.cancel();
+                return { text: finalText ?? text, sessionId, streamed: true };
+            }
+        }
+    }
+
+    if (buffer.trim()) {
+        handleEvent(buffer);
+    }
+
+    // Emit any remainder of a final answer that was never streamed token by token
+    if (finalText !== undefined && finalText.startsWith(text) && finalText.length > text.length) {
+        onToken(finalText.slice(text.length));
+    }
+
+    return { text: finalText ?? text, sessionId, streamed: true };
+};
+
+const readChunkedText = async (body: ReadableStream<Uint8Array>, onToken: TokenHandler): Promise<ChatStreamResult> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+            break;
+        }
+        const chunk = decoder.decode(value, { stream: true });
+        if (chunk) {
+            text += chunk;
+            onToken(chunk);
+        }
+    }
+
+    return { text, streamed: true };
+};
+
+// Consume a fetch Response from /chat/message, emitting tokens as they arrive
+export const readChatStream = async (response: Response, onToken: TokenHandler): Promise<ChatStreamResult> => {
+    const contentType = response.headers.get('content-type') || '';
+
+    if (contentType.includes('text/event-stream') && response.body) {
+        return readServerSentEvents(response.body, onToken);
+    }
+
+    if (contentType.includes('text/plain') && response.body) {
+        return readChunkedText(response.body, onToken);
+    }
+
+    // Non-streaming backend - the whole answer arrives as one JSON document
+    const chatResponse = normalizeChatResponse('/chat/message', await response.json());
+    if (chatResponse.answer) {
+        onToken(chatResponse.answer);
+    }
+    return { text: chatResponse.answer, sessionId: chatResponse.sessionId, streamed: false };
+};
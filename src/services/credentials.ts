@@ -0,0 +1,78 @@
+import { GitCredentialInput, GitCredentialSummary } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('credentials');
+
+// Next.js route that keeps git host credentials server-side, independent of the backend profile
+const CREDENTIALS_PATH = '/api/credentials';
+
+type CredentialsListener = (credentials: GitCredentialSummary[]) => void;
+
+const listeners = new Set<CredentialsListener>();
+let cached: GitCredentialSummary[] = [];
+
+const publish = (credentials: GitCredentialSummary[]) => {
+    cached = credentials;
+    listeners.forEach(listener => listener(cached));
+};
+
+// Calls the route as the signed-in user - the session cookie from serverSession identifies them.
+// Failures carry the route's message. Request bodies contain secrets and are deliberately left
+// out of every log line.
+const request = async (init: RequestInit & { query?: string } = {}): Promise<Response> => {
+    const response = await fetch(`${CREDENTIALS_PATH}${init.query ?? ''}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Credentials request failed with status ${response.status}`);
+    }
+    return response;
+};
+
+export const credentialsService = {
+    // Last listing - lets the UI say whether a host has a credential without a round trip
+    getCached(): GitCredentialSummary[] {
+        return cached;
+    },
+
+    hasCredentialFor(host: string | null): boolean {
+        return host !== null && cached.some(credential => credential.host === host.toLowerCase());
+    },
+
+    async list(): Promise<GitCredentialSummary[]> {
+        const response = await request();
+        const credentials: GitCredentialSummary[] = await response.json();
+        publish(credentials);
+        return credentials;
+    },
+
+    async save(input: GitCredentialInput): Promise<GitCredentialSummary> {
+        const response = await request({ method: 'PUT', body: JSON.stringify(input) });
+        const saved: GitCredentialSummary = await response.json();
+        publish([...cached.filter(credential => credential.host !== saved.host), saved]
+            .sort((a, b) => a.host.localeCompare(b.host)));
+        log.info(`Saved ${saved.kind} for ${saved.host}`);
+        return saved;
+    },
+
+    async remove(host: string): Promise<void> {
+        await request({ method: 'DELETE', query: `?host=${encodeURIComponent(host)}` });
+        publish(cached.filter(credential => credential.host !== host));
+        log.info(`Removed credential for ${host}`);
+    },
+
+    // Signing out drops the credentials server-side as well
+    forget(): void {
+        publish([]);
+    },
+
+    // Subscribe to listing changes - returns an unsubscribe function
+    subscribe(listener: CredentialsListener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
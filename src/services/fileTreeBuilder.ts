@@ -0,0 +1,70 @@
+import { FileTreeView, FlatTree } from '@/types';
+import { buildTreeForView } from '@/utils/fileTree';
+import { createLogger } from '@/utils/logger';
+import type { FileTreeRequest } from '@/workers/fileTree.worker';
+
+const log = createLogger('tree');
+
+interface PendingBuild {
+    resolve: (tree: FlatTree) => void;
+    reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingBuild>();
+
+// Builds queued on a dead worker are retried on the main thread
+const failWorker = (error: unknown) => {
+    log.warn('File tree worker failed - building on the main thread', error);
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+};
+
+const getWorker = (): Worker | null => {
+    if (worker || workerFailed || typeof Worker === 'undefined') {
+        return worker;
+    }
+    try {
+        worker = new Worker(new URL('../workers/fileTree.worker.ts', import.meta.url));
+        worker.addEventListener('message', (event: MessageEvent<{ requestId: number; tree: FlatTree }>) => {
+            const build = pending.get(event.data.requestId);
+            pending.delete(event.data.requestId);
+            build?.resolve(event.data.tree);
+        });
+        worker.addEventListener('error', (event) => {
+            failWorker(event.message);
+            const queued = [...pending.values()];
+            pending.clear();
+            queued.forEach(build => build.reject(new Error('File tree worker failed')));
+        });
+    } catch (error) {
+        failWorker(error);
+    }
+    return worker;
+};
+
+export const fileTreeBuilder = {
+    // Large listings would block typing and scrolling for a noticeable moment, so they go
+    // to a web worker; without worker support the tree is built in place
+    async build(paths: string[], view: FileTreeView = 'directory'): Promise<FlatTree> {
+        const target = getWorker();
+        if (!target) {
+            return buildTreeForView(paths, view);
+        }
+        const requestId = nextRequestId++;
+        const startedAt = performance.now();
+        try {
+            const tree = await new Promise<FlatTree>((resolve, reject) => {
+                pending.set(requestId, { resolve, reject });
+                target.postMessage({ requestId, paths, view } satisfies FileTreeRequest);
+            });
+            log.debug('File tree built', { view, files: tree.fileCount, ms: Math.round(performance.now() - startedAt) });
+            return tree;
+        } catch {
+            return buildTreeForView(paths, view);
+        }
+    },
+};
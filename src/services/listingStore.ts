@@ -0,0 +1,69 @@
+// File listings of analysis jobs. They live in IndexedDB rather than next to the job metadata in
+// localStorage: the paths and content hashes of one large repository alone exceed its ~5MB quota.
+
+import { FileChangeSummary } from '@/types';
+
+export interface JobListing {
+    files: string[];
+    fileHashes?: Record<string, string>;
+    changes?: FileChangeSummary;
+}
+
+const DB_NAME = 'codeAnalyzer';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobListings';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+        database = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(error => {
+            // Try again on the next call, e.g. after a blocked upgrade
+            database = null;
+            throw error;
+        });
+    }
+    return database;
+};
+
+const completion = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+export const listingStore = {
+    // Stored listings of the given jobs, by job id
+    async load(jobIds: string[]): Promise<Map<string, JobListing>> {
+        const transaction = (await openDatabase()).transaction(STORE_NAME, 'readonly');
+        const store = transaction.objectStore(STORE_NAME);
+        const listings = new Map<string, JobListing>();
+        jobIds.forEach(jobId => {
+            const request = store.get(jobId);
+            request.onsuccess = () => {
+                if (request.result) {
+                    listings.set(jobId, request.result);
+                }
+            };
+        });
+        await completion(transaction);
+        return listings;
+    },
+
+    // Write the given listings and delete those of every job not in jobIds
+    async sync(listings: Map<string, JobListing>, jobIds: Set<string>): Promise<void> {
+        const transaction = (await openDatabase()).transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        listings.forEach((listing, jobId) => store.put(listing, jobId));
+        const keys = store.getAllKeys();
+        keys.onsuccess = () => keys.result
+            .filter(key => !jobIds.has(String(key)))
+            .forEach(key => store.delete(key));
+        await completion(transaction);
+    },
+};
@@ -0,0 +1,393 @@
+// Fixture data for the mock backend - modelled on spring-projects/spring-petclinic
+
+const PACKAGE_ROOT = 'org/springframework/samples/petclinic';
+const MAIN = `src/main/java/${PACKAGE_ROOT}`;
+const TEST = `src/test/java/${PACKAGE_ROOT}`;
+
+export const MOCK_JAVA_FILES: string[] = [
+    `${MAIN}/PetClinicApplication.java`,
+    `${MAIN}/PetClinicRuntimeHints.java`,
+    `${MAIN}/model/BaseEntity.java`,
+    `${MAIN}/model/NamedEntity.java`,
+    `${MAIN}/model/Person.java`,
+    `${MAIN}/owner/Owner.java`,
+    `${MAIN}/owner/OwnerController.java`,
+    `${MAIN}/owner/OwnerRepository.java`,
+    `${MAIN}/owner/Pet.java`,
+    `${MAIN}/owner/PetController.java`,
+    `${MAIN}/owner/PetType.java`,
+    `${MAIN}/owner/PetTypeFormatter.java`,
+    `${MAIN}/owner/PetValidator.java`,
+    `${MAIN}/owner/Visit.java`,
+    `${MAIN}/owner/VisitController.java`,
+    `${MAIN}/system/CacheConfiguration.java`,
+    `${MAIN}/system/CrashController.java`,
+    `${MAIN}/system/WebConfiguration.java`,
+    `${MAIN}/system/WelcomeController.java`,
+    `${MAIN}/vet/Specialty.java`,
+    `${MAIN}/vet/Vet.java`,
+    `${MAIN}/vet/VetController.java`,
+    `${MAIN}/vet/VetRepository.java`,
+    `${MAIN}/vet/Vets.java`,
+    `${TEST}/PetClinicIntegrationTests.java`,
+    `${TEST}/owner/OwnerControllerTests.java`,
+    `${TEST}/owner/PetControllerTests.java`,
+    `${TEST}/owner/PetTypeFormatterTests.java`,
+    `${TEST}/owner/VisitControllerTests.java`,
+    `${TEST}/vet/VetControllerTests.java`,
+];
+
+const RESOURCES = 'src/main/resources';
+
+// Non-Java files of the fixture repository, with their (shortened) contents
+export const MOCK_PROJECT_FILES: Record<string, string> = {
+    'pom.xml': [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<project xmlns="http://maven.apache.org/POM/4.0.0">',
+        '  <modelVersion>4.0.0</modelVersion>',
+        '  <parent>',
+        '    <groupId>org.springframework.boot</groupId>',
+        '    <artifactId>spring-boot-starter-parent</artifactId>',
+        '    <version>3.3.0</version>',
+        '  </parent>',
+        '  <groupId>org.springframework.samples</groupId>',
+        '  <artifactId>spring-petclinic</artifactId>',
+        '  <dependencies>',
+        '    <!-- Web, data access and caching -->',
+        '    <dependency>',
+        '      <groupId>org.springframework.boot</groupId>',
+        '      <artifactId>spring-boot-starter-web</artifactId>',
+        '    </dependency>',
+        '    <dependency>',
+        '      <groupId>org.springframework.boot</groupId>',
+        '      <artifactId>spring-boot-starter-data-jpa</artifactId>',
+        '    </dependency>',
+        '    <dependency>',
+        '      <groupId>com.h2database</groupId>',
+        '      <artifactId>h2</artifactId>',
+        '      <scope>runtime</scope>',
+        '    </dependency>',
+        '  </dependencies>',
+        '</project>',
+        '',
+    ].join('\n'),
+    'build.gradle': [
+        'plugins {',
+        "    id 'java'",
+        "    id 'org.springframework.boot' version '3.3.0'",
+        '}',
+        '',
+        'dependencies {',
+        "    implementation 'org.springframework.boot:spring-boot-starter-web'",
+        "    implementation 'org.springframework.boot:spring-boot-starter-data-jpa'",
+        "    runtimeOnly 'com.h2database:h2'",
+        "    testImplementation 'org.springframework.boot:spring-boot-starter-test'",
+        '}',
+        '',
+    ].join('\n'),
+    'docker-compose.yml': [
+        'services:',
+        '  mysql:',
+        '    image: mysql:8.4',
+        '    ports:',
+        '      - "3306:3306"',
+        '    environment:',
+        '      - MYSQL_DATABASE=petclinic',
+        '  postgres:',
+        '    image: postgres:16.3',
+        '    ports:',
+        '      - "5432:5432"',
+        '',
+    ].join('\n'),
+    '.github/workflows/maven-build.yml': [
+        'name: Java CI with Maven',
+        'on: [push, pull_request]',
+        'jobs:',
+        '  build:',
+        '    runs-on: ubuntu-latest',
+        '    steps:',
+        '      - uses: actions/checkout@v4',
+        '      - name: Build with Maven',
+        '        run: ./mvnw -B package --file pom.xml',
+        '',
+    ].join('\n'),
+    'README.md': [
+        '# Spring PetClinic Sample Application',
+        '',
+        'A Spring Boot application showing owners, their pets, visits and vets.',
+        '',
+        'Run it with `./mvnw spring-boot:run` and open http://localhost:8080.',
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/application.properties`]: [
+        '# database init, supports mysql too',
+        'database=h2',
+        'spring.sql.init.schema-locations=classpath*:db/${database}/schema.sql',
+        'spring.sql.init.data-locations=classpath*:db/${database}/data.sql',
+        '',
+        '# Web',
+        'spring.thymeleaf.mode=HTML',
+        'spring.jpa.open-in-view=true',
+        '',
+        '# Maximum time static resources should be cached',
+        'spring.web.resources.cache.cachecontrol.max-age=12h',
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/application-mysql.properties`]: [
+        'database=mysql',
+        'spring.datasource.url=${MYSQL_URL:jdbc:mysql://localhost/petclinic}',
+        'spring.datasource.username=${MYSQL_USER:petclinic}',
+        'spring.datasource.password=${MYSQL_PASS:petclinic}',
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/db/h2/schema.sql`]: [
+        'DROP TABLE vet_specialties IF EXISTS;',
+        'DROP TABLE owners IF EXISTS;',
+        '',
+        'CREATE TABLE owners (',
+        '  id         INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,',
+        '  first_name VARCHAR(30),',
+        '  last_name  VARCHAR_IGNORECASE(30),',
+        '  address    VARCHAR(255),',
+        '  city       VARCHAR(80),',
+        '  telephone  VARCHAR(20)',
+        ');',
+        'CREATE INDEX owners_last_name ON owners (last_name);',
+        '',
+        'CREATE TABLE pets (',
+        '  id         INTEGER GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,',
+        '  name       VARCHAR(30),',
+        '  birth_date DATE,',
+        '  type_id    INTEGER NOT NULL,',
+        '  owner_id   INTEGER',
+        ');',
+        'ALTER TABLE pets ADD CONSTRAINT fk_pets_owners FOREIGN KEY (owner_id) REFERENCES owners (id);',
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/db/h2/data.sql`]: [
+        "INSERT INTO owners VALUES (DEFAULT, 'George', 'Franklin', '110 W. Liberty St.', 'Madison', '6085551023');",
+        "INSERT INTO owners VALUES (DEFAULT, 'Betty', 'Davis', '638 Cardinal Ave.', 'Sun Prairie', '6085551749');",
+        "INSERT INTO pets VALUES (DEFAULT, 'Leo', '2010-09-07', 1, 1);",
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/templates/owners/ownerDetails.html`]: [
+        '<!DOCTYPE html>',
+        '<html xmlns:th="https://www.thymeleaf.org" th:replace="~{fragments/layout :: layout (~{::body},\'owners\')}">',
+        '<body>',
+        '  <h2>Owner Information</h2>',
+        '  <table class="table table-striped" th:object="${owner}">',
+        '    <tr>',
+        '      <th>Name</th>',
+        '      <td><b th:text="*{firstName + \' \' + lastName}"></b></td>',
+        '    </tr>',
+        '  </table>',
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n'),
+    [`${RESOURCES}/static/resources/css/petclinic.css`]: [
+        '.navbar {',
+        '  border-top: 4px solid #6db33f;',
+        '}',
+        '',
+        '.table-filter {',
+        '  background-color: #f1f1f1;',
+        '}',
+        '',
+    ].join('\n'),
+};
+
+export const MOCK_ALL_FILES: string[] = [...MOCK_JAVA_FILES, ...Object.keys(MOCK_PROJECT_FILES)];
+
+export const MOCK_SPRING_COMPONENTS = [
+    { name: 'OwnerController', stereotype: 'Controller', filePath: `${MAIN}/owner/OwnerController.java`, beanName: 'ownerController', dependencies: ['OwnerRepository'] },
+    { name: 'PetController', stereotype: 'Controller', filePath: `${MAIN}/owner/PetController.java`, beanName: 'petController', dependencies: ['OwnerRepository'] },
+    { name: 'VisitController', stereotype: 'Controller', filePath: `${MAIN}/owner/VisitController.java`, beanName: 'visitController', dependencies: ['OwnerRepository'] },
+    { name: 'VetController', stereotype: 'Controller', filePath: `${MAIN}/vet/VetController.java`, beanName: 'vetController', dependencies: ['VetRepository'] },
+    { name: 'WelcomeController', stereotype: 'Controller', filePath: `${MAIN}/system/WelcomeController.java`, beanName: 'welcomeController', dependencies: [] },
+    { name: 'CrashController', stereotype: 'Controller', filePath: `${MAIN}/system/CrashController.java`, beanName: 'crashController', dependencies: [] },
+    { name: 'OwnerRepository', stereotype: 'Repository', filePath: `${MAIN}/owner/OwnerRepository.java`, beanName: 'ownerRepository', dependencies: [] },
+    { name: 'VetRepository', stereotype: 'Repository', filePath: `${MAIN}/vet/VetRepository.java`, beanName: 'vetRepository', dependencies: [] },
+    { name: 'PetTypeFormatter', stereotype: 'Component', filePath: `${MAIN}/owner/PetTypeFormatter.java`, beanName: 'petTypeFormatter', dependencies: ['OwnerRepository'] },
+    { name: 'CacheConfiguration', stereotype: 'Configuration', filePath: `${MAIN}/system/CacheConfiguration.java`, beanName: 'cacheConfiguration', dependencies: [] },
+    { name: 'WebConfiguration', stereotype: 'Configuration', filePath: `${MAIN}/system/WebConfiguration.java`, beanName: 'webConfiguration', dependencies: [] },
+    { name: 'Owner', stereotype: 'Entity', filePath: `${MAIN}/owner/Owner.java`, dependencies: [] },
+    { name: 'Pet', stereotype: 'Entity', filePath: `${MAIN}/owner/Pet.java`, dependencies: [] },
+    { name: 'PetType', stereotype: 'Entity', filePath: `${MAIN}/owner/PetType.java`, dependencies: [] },
+    { name: 'Visit', stereotype: 'Entity', filePath: `${MAIN}/owner/Visit.java`, dependencies: [] },
+    { name: 'Vet', stereotype: 'Entity', filePath: `${MAIN}/vet/Vet.java`, dependencies: [] },
+    { name: 'Specialty', stereotype: 'Entity', filePath: `${MAIN}/vet/Specialty.java`, dependencies: [] },
+];
+
+export const MOCK_ENDPOINTS = [
+    { method: 'GET', path: '/', controller: 'WelcomeController', handler: 'welcome' },
+    { method: 'GET', path: '/owners/new', controller: 'OwnerController', handler: 'initCreationForm' },
+    { method: 'POST', path: '/owners/new', controller: 'OwnerController', handler: 'processCreationForm' },
+    { method: 'GET', path: '/owners/find', controller: 'OwnerController', handler: 'initFindForm' },
+    { method: 'GET', path: '/owners', controller: 'OwnerController', handler: 'processFindForm' },
+    { method: 'GET', path: '/owners/{ownerId}', controller: 'OwnerController', handler: 'showOwner' },
+    { method: 'GET', path: '/owners/{ownerId}/edit', controller: 'OwnerController', handler: 'initUpdateOwnerForm' },
+    { method: 'POST', path: '/owners/{ownerId}/edit', controller: 'OwnerController', handler: 'processUpdateOwnerForm' },
+    { method: 'GET', path: '/owners/{ownerId}/pets/new', controller: 'PetController', handler: 'initCreationForm' },
+    { method: 'POST', path: '/owners/{ownerId}/pets/new', controller: 'PetController', handler: 'processCreationForm' },
+    { method: 'GET', path: '/owners/{ownerId}/pets/{petId}/visits/new', controller: 'VisitController', handler: 'initNewVisitForm' },
+    { method: 'POST', path: '/owners/{ownerId}/pets/{petId}/visits/new', controller: 'VisitController', handler: 'processNewVisitForm' },
+    { method: 'GET', path: '/vets.html', controller: 'VetController', handler: 'showVetList' },
+    { method: 'GET', path: '/vets', controller: 'VetController', handler: 'showResourcesVetList' },
+    { method: 'GET', path: '/oups', controller: 'CrashController', handler: 'triggerException' },
+];
+
+// Scripted answers, matched in order against the lower-cased question
+export const MOCK_ANSWERS: { keywords: string[]; answer: string }[] = [
+    {
+        keywords: ['endpoint', 'rest', 'route', 'url mapping'],
+        answer: [
+            'The application exposes these HTTP endpoints:',
+            ...MOCK_ENDPOINTS.map(endpoint => `- ${endpoint.method} ${endpoint.path} → ${endpoint.controller}.${endpoint.handler}()`),
+            '',
+            'All controllers are classic Spring MVC controllers that render Thymeleaf views, except GET /vets which also produces JSON/XML.',
+        ].join('\n'),
+    },
+    {
+        keywords: ['component', 'bean', 'spring'],
+        answer: [
+            'Spring components detected in the repository:',
+            ...MOCK_SPRING_COMPONENTS
+                .filter(component => component.stereotype !== 'Entity')
+                .map(component => `- @${component.stereotype} ${component.name}${component.dependencies.length ? ` (injects ${component.dependencies.join(', ')})` : ''}`),
+        ].join('\n'),
+    },
+    {
+        keywords: ['data flow', 'flow', 'architecture', 'layer'],
+        answer: [
+            'Requests follow a simple layered flow:',
+            '1. A controller (e.g. OwnerController) receives the HTTP request and binds form data to an entity.',
+            '2. The controller calls a Spring Data repository (OwnerRepository / VetRepository) directly - there is no separate service layer.',
+            '3. Repositories are JPA interfaces; Hibernate maps the entities in the model, owner and vet packages to the database.',
+            '4. The controller returns a Thymeleaf view name and the model is rendered to HTML.',
+            'Caching of the vet list is configured in CacheConfiguration.',
+        ].join('\n'),
+    },
+    {
+        keywords: ['test'],
+        answer: 'Tests live under src/test/java. Controllers are covered with @WebMvcTest slices (OwnerControllerTests, PetControllerTests, VisitControllerTests, VetControllerTests) that mock the repositories, and PetClinicIntegrationTests boots the full application context.',
+    },
+    {
+        keywords: ['security', 'authentication', 'auth'],
+        answer: 'The repository does not configure Spring Security - there is no authentication or authorization. All endpoints are publicly accessible.',
+    },
+];
+
+export const describeMockFile = (filePath: string): string => {
+    const fileName = filePath.split('/').pop() || filePath;
+    const className = fileName.replace(/\.java$/, '');
+    const component = MOCK_SPRING_COMPONENTS.find(candidate => candidate.filePath === filePath);
+    const endpoints = MOCK_ENDPOINTS.filter(endpoint => endpoint.controller === className);
+
+    const lines = [`${className} (${filePath})`, ''];
+    if (component) {
+        lines.push(`It is a Spring @${component.stereotype}${component.beanName ? ` registered as bean "${component.beanName}"` : ''}.`);
+        if (component.dependencies.length > 0) {
+            lines.push(`Injected dependencies: ${component.dependencies.join(', ')}.`);
+        }
+    } else if (filePath in MOCK_PROJECT_FILES) {
+        const lineCount = MOCK_PROJECT_FILES[filePath].split('\n').length - 1;
+        lines.push(`It is a project file of ${lineCount} lines that configures how PetClinic is built, run or presented.`);
+    } else if (filePath.includes('/src/test/') || filePath.startsWith('src/test/')) {
+        lines.push(`It is a test class exercising ${className.replace(/Tests?$/, '')}.`);
+    } else {
+        lines.push('It is a plain Java class supporting the surrounding package.');
+    }
+    if (endpoints.length > 0) {
+        lines.push('', 'Handled endpoints:', ...endpoints.map(endpoint => `- ${endpoint.method} ${endpoint.path} → ${endpoint.handler}()`));
+    }
+    lines.push('', '(Answer generated by the offline mock backend.)');
+    return lines.join('\n');
+};
+
+const lowerFirst = (name: string): string => name.charAt(0).toLowerCase() + name.slice(1);
+
+// Plausible source for a fixture path, shaped by its component and endpoint fixtures
+export const mockFileSource = (filePath: string): string => {
+    if (filePath in MOCK_PROJECT_FILES) {
+        return MOCK_PROJECT_FILES[filePath];
+    }
+    const fileName = filePath.split('/').pop() || filePath;
+    const className = fileName.replace(/\.java$/, '');
+    const packageName = filePath.replace(/^src\/(?:main|test)\/java\//, '').split('/').slice(0, -1).join('.');
+    const component = MOCK_SPRING_COMPONENTS.find(candidate => candidate.filePath === filePath);
+    const endpoints = MOCK_ENDPOINTS.filter(endpoint => endpoint.controller === className);
+    const isTest = filePath.startsWith('src/test/') || filePath.includes('/src/test/');
+
+    if (isTest) {
+        const subject = className.replace(/Tests?$/, '');
+        return [
+            `package ${packageName};`,
+            '',
+            'import static org.assertj.core.api.Assertions.assertThat;',
+            '',
+            'import org.junit.jupiter.api.BeforeEach;',
+            'import org.junit.jupiter.api.Test;',
+            '',
+            '/**',
+            ` * Tests for {@link ${subject}}.`,
+            ' */',
+            `class ${className} {`,
+            '',
+            `    private ${subject} ${lowerFirst(subject)};`,
+            '',
+            '    @BeforeEach',
+            '    void setup() {',
+            `        ${lowerFirst(subject)} = new ${subject}();`,
+            '    }',
+            '',
+            '    @Test',
+            `    void ${lowerFirst(subject)}IsCreated() {`,
+            `        assertThat(${lowerFirst(subject)}).isNotNull();`,
+            '    }',
+            '',
+            '}',
+            '',
+        ].join('\n');
+    }
+
+    const dependencies = component?.dependencies ?? [];
+    const annotation = component?.stereotype;
+    const lines = [`package ${packageName};`, ''];
+    if (annotation) {
+        lines.push(
+            'import java.util.List;',
+            '',
+            annotation === 'Entity' ? 'import jakarta.persistence.Entity;' : `import org.springframework.stereotype.${annotation};`,
+            ...(endpoints.length > 0 ? ['import org.springframework.web.bind.annotation.GetMapping;', 'import org.springframework.web.bind.annotation.PostMapping;'] : []),
+            '',
+        );
+    }
+    lines.push('/**', ` * ${className} - part of the ${packageName.split('.').pop()} package.`, ' */');
+    if (annotation) {
+        lines.push(`@${annotation}`);
+    }
+    lines.push(`${component?.stereotype === 'Repository' ? 'public interface' : 'public class'} ${className} {`, '');
+    dependencies.forEach(dependency => lines.push(`    private final ${dependency} ${lowerFirst(dependency)};`, ''));
+    if (dependencies.length > 0) {
+        lines.push(
+            `    public ${className}(${dependencies.map(dependency => `${dependency} ${lowerFirst(dependency)}`).join(', ')}) {`,
+            ...dependencies.map(dependency => `        this.${lowerFirst(dependency)} = ${lowerFirst(dependency)};`),
+            '    }',
+            '',
+        );
+    }
+    endpoints.forEach(endpoint => lines.push(
+        `    @${endpoint.method === 'POST' ? 'Post' : 'Get'}Mapping("${endpoint.path}")`,
+        `    public String ${endpoint.handler}() {`,
+        `        // ${endpoint.method} ${endpoint.path}`,
+        `        return "${lowerFirst(className.replace(/Controller$/, ''))}s/${endpoint.handler}";`,
+        '    }',
+        '',
+    ));
+    if (component?.stereotype === 'Repository') {
+        lines.push(`    List<${className.replace(/Repository$/, '')}> findAll();`, '');
+    }
+    lines.push('}', '');
+    return lines.join('\n');
+};
@@ -0,0 +1,114 @@
+import { AnalysisStatus } from '@/types';
+import type { EventTransport } from '../progressEvents';
+
+// Local stand-in for the backend's /analysis/events stream. Keeps a numbered event log so
+// reconnecting clients can resume with Last-Event-ID, and can drop connections on demand to
+// exercise the reconnect path. Used by the mock backend and usable directly in tests:
+//   const emitter = new LocalProgressEmitter();
+//   subscribeToAnalysisEvents({ transport: emitter.transport, onEvent });
+//   emitter.emitStatus({ status: 'PARSING', ... });
+
+interface EmittedEvent {
+    id: number;
+    type: 'progress' | 'completed' | 'failed';
+    status: AnalysisStatus;
+}
+
+type Connection = (event: EmittedEvent) => void;
+
+const eventTypeFor = (status: AnalysisStatus): EmittedEvent['type'] =>
+    status.status === 'COMPLETED' ? 'completed' : status.status === 'FAILED' ? 'failed' : 'progress';
+
+const formatEvent = (event: EmittedEvent): string =>
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.status)}\n\n`;
+
+export class LocalProgressEmitter {
+    private events: EmittedEvent[] = [];
+    private connections = new Set<{ send: Connection; close: () => void }>();
+    private nextId = 1;
+
+    // Publish a status; consecutive identical statuses are collapsed into one event
+    emitStatus(status: AnalysisStatus): void {
+        const last = this.events[this.events.length - 1];
+        if (last && JSON.stringify(last.status) === JSON.stringify(status)) {
+            return;
+        }
+
+        const event: EmittedEvent = { id: this.nextId++, type: eventTypeFor(status), status };
+        this.events.push(event);
+        this.connections.forEach(connection => connection.send(event));
+    }
+
+    // Forget the event log (new analysis); ids keep increasing so old Last-Event-IDs stay valid
+    reset(): void {
+        this.events = [];
+    }
+
+    // Close every open stream, as a network drop or server restart would
+    disconnectAll(): void {
+        this.connections.forEach(connection => connection.close());
+        this.connections.clear();
+    }
+
+    get connectionCount(): number {
+        return this.connections.size;
+    }
+
+    // Open a stream that replays events after lastEventId, then follows live events
+    open(lastEventId: string | null, signal?: AbortSignal | null): Response {
+        const encoder = new TextEncoder();
+        const resumeAfter = Number(lastEventId) || 0;
+        const connections = this.connections;
+        const backlog = this.events.filter(event => event.id > resumeAfter);
+
+        let closed = false;
+        let connection: { send: Connection; close: () => void } | null = null;
+        const detach = () => {
+            closed = true;
+            if (connection) {
+                connections.delete(connection);
+            }
+        };
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                connection = {
+                    send: (event: EmittedEvent) => {
+                        if (!closed) {
+                            controller.enqueue(encoder.encode(formatEvent(event)));
+                        }
+                    },
+                    close: () => {
+                        if (!closed) {
+                            detach();
+                            controller.close();
+                        }
+                    },
+                };
+
+                controller.enqueue(encoder.encode('retry: 1000\n\n'));
+                backlog.forEach(connection.send);
+                connections.add(connection);
+
+                signal?.addEventListener('abort', () => {
+                    if (!closed) {
+                        detach();
+                        controller.error(new DOMException('Event stream aborted', 'AbortError'));
+                    }
+                }, { once: true });
+            },
+            // The client stopped reading (e.g. after the completed event)
+            cancel() {
+                detach();
+            },
+        });
+
+        return new Response(stream, {
+            status: 200,
+            headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+        });
+    }
+
+    // EventTransport backed by this emitter, for subscribeToAnalysisEvents
+    transport: EventTransport = async (lastEventId, signal) => this.open(lastEventId, signal);
+}
@@ -0,0 +1,545 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosProgressEvent, AxiosResponse, CanceledError } from 'axios';
+import { AnalysisOptions, AnalysisStatus } from '@/types';
+import { DEFAULT_ANALYSIS_OPTIONS, isPathExcluded } from '@/utils/pathFilters';
+import {
+    MOCK_ALL_FILES,
+    MOCK_ANSWERS,
+    MOCK_ENDPOINTS,
+    MOCK_JAVA_FILES,
+    MOCK_PROJECT_FILES,
+    MOCK_SPRING_COMPONENTS,
+    describeMockFile,
+    mockFileSource,
+} from './fixtures';
+import { repositoryHost, repositoryKey, uploadRepositoryUrl } from '@/utils/repositoryRef';
+import { credentialsService } from '../credentials';
+import { LocalProgressEmitter } from './localProgressEmitter';
+
+// In-process stand-in for the Java backend, used by the "mock" backend profile.
+// Implements /analysis/*, /chat/message, /repository/*, /query/* and /user/* with fixture data,
+// simulated analysis progress (polled or pushed as events) and scripted chat answers.
+
+interface MockRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>;
+    body: Record<string, unknown>;
+}
+
+interface MockResult {
+    status: number;
+    body: unknown;
+    headers?: Record<string, string>;
+}
+
+interface MockAnalysisJob {
+    repoUrl: string;
+    ref?: string;
+    options?: AnalysisOptions;
+    startedAt: number;
+    failing: boolean;
+    revision: number; // Counts analyses of the checkout - each one sees a slightly changed tree
+}
+
+interface MockState {
+    analyses: Record<string, MockAnalysisJob>; // repositoryKey (url@ref) -> analysis
+    lastAnalysisKey: string | null; // key answering progress requests that do not name a repository
+    repositories: Record<string, string[]>; // userEmail -> analyzed repository URLs
+    sessions: Record<string, { userEmail: string; repositoryUrl?: string }>;
+}
+
+const STATE_STORAGE_KEY = 'mockBackendState';
+const LATENCY_MS = Number(process.env.NEXT_PUBLIC_MOCK_LATENCY_MS ?? 250);
+const ANALYSIS_DURATION_MS = Number(process.env.NEXT_PUBLIC_MOCK_ANALYSIS_SECONDS ?? 20) * 1000;
+const EVENT_TICK_MS = 500;
+const UPLOAD_PROGRESS_STEPS = 8;
+
+// Phase boundaries as fractions of the total analysis duration
+const PHASES: { status: 'CLONING' | 'PARSING' | 'ANALYZING'; until: number; message: string }[] = [
+    { status: 'CLONING', until: 0.15, message: 'Cloning repository' },
+    { status: 'PARSING', until: 0.4, message: 'Parsing Java sources' },
+    { status: 'ANALYZING', until: 1, message: 'Creating vector embeddings' },
+];
+
+// State survives page reloads (sessionStorage) so a running mock analysis keeps progressing
+const loadState = (): MockState => {
+    if (typeof window !== 'undefined') {
+        try {
+            const stored = window.sessionStorage.getItem(STATE_STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                return { analyses: {}, lastAnalysisKey: null, repositories: {}, sessions: {}, ...parsed };
+            }
+        } catch {
+            // Fall through to a fresh state
+        }
+    }
+    return { analyses: {}, lastAnalysisKey: null, repositories: {}, sessions: {} };
+};
+
+const state: MockState = loadState();
+
+const saveState = () => {
+    if (typeof window !== 'undefined') {
+        try {
+            window.sessionStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+        } catch {
+            // Persistence is best effort
+        }
+    }
+};
+
+const ok = (body: unknown): MockResult => ({ status: 200, body });
+const notFound = (path: string): MockResult => ({ status: 404, body: { error: 'Not Found', message: `No static resource ${path}` } });
+const badRequest = (message: string): MockResult => ({ status: 400, body: { error: 'Bad Request', message } });
+const forbidden = (message: string): MockResult => ({ status: 403, body: { error: 'Forbidden', message } });
+
+// Repositories with "private" in their path behave like private ones: cloning needs a saved
+// credential for the host. The real secret stays server-side, so the listing is what counts here.
+const isAccessDenied = (repoUrl: string): boolean =>
+    /\/[^/]*private[^/]*(\/|$)/i.test(repoUrl) && !credentialsService.hasCredentialFor(repositoryHost(repoUrl));
+
+// One event log per repository, so concurrent analyses stream independently
+const progressEmitters = new Map<string, LocalProgressEmitter>();
+
+const progressEmitterFor = (key: string): LocalProgressEmitter => {
+    let emitter = progressEmitters.get(key);
+    if (!emitter) {
+        emitter = new LocalProgressEmitter();
+        progressEmitters.set(key, emitter);
+    }
+    return emitter;
+};
+
+const resolveAnalysisKey = (repoUrl?: string | null, ref?: string | null): string | null =>
+    repoUrl ? repositoryKey(repoUrl, ref) : state.lastAnalysisKey;
+
+const getAnalysisStatus = (repoUrl?: string | null, ref?: string | null, now: number = Date.now()): AnalysisStatus => {
+    const resolved = resolveAnalysisKey(repoUrl, ref);
+    const job = resolved ? state.analyses[resolved] : undefined;
+    // Path filters shrink the analysis like they would on the real backend
+    const totalFiles = job?.options
+        ? MOCK_ALL_FILES.filter(file => !isPathExcluded(file, job.options as AnalysisOptions)).length
+        : MOCK_ALL_FILES.length;
+    if (!job) {
+        return { status: 'IDLE', totalFiles: 0, processedFiles: 0, progressPercentage: 0, message: 'No analysis running' };
+    }
+
+    const fraction = Math.min(1, (now - job.startedAt) / ANALYSIS_DURATION_MS);
+    if (job.failing && fraction >= PHASES[0].until) {
+        return { status: 'FAILED', totalFiles, processedFiles: 0, progressPercentage: 15, error: 'Failed to parse repository sources' };
+    }
+    if (fraction >= 1) {
+        return { status: 'COMPLETED', totalFiles, processedFiles: totalFiles, progressPercentage: 100, message: 'Analysis completed' };
+    }
+
+    const phase = PHASES.find(candidate => fraction < candidate.until) ?? PHASES[PHASES.length - 1];
+    const processedFiles = phase.status === 'CLONING'
+        ? 0
+        : Math.floor(totalFiles * Math.min(1, (fraction - PHASES[0].until) / (1 - PHASES[0].until)));
+    return {
+        status: phase.status,
+        totalFiles,
+        processedFiles,
+        progressPercentage: Math.round(fraction * 100),
+        message: phase.message,
+    };
+};
+
+const startAnalysis = (repoUrl: string, userEmail?: string, ref?: string, options?: AnalysisOptions) => {
+    const key = repositoryKey(repoUrl, ref);
+    state.analyses[key] = {
+        repoUrl,
+        ref,
+        options,
+        startedAt: Date.now(),
+        // Lets demos and UI tests exercise the failure path
+        failing: /fail/i.test(repoUrl),
+        revision: (state.analyses[key]?.revision ?? -1) + 1,
+    };
+    state.lastAnalysisKey = key;
+    progressEmitterFor(key).reset();
+    if (userEmail) {
+        const known = state.repositories[userEmail] ?? [];
+        state.repositories[userEmail] = [repoUrl, ...known.filter(url => url !== repoUrl)];
+    }
+    saveState();
+};
+
+// Small non-cryptographic hash (FNV-1a) for deterministic mock commits and file hashes
+const mockHash = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// File listing of an analysis run. Every re-analysis drops a file, adds one and edits a few,
+// so change detection has something to show.
+const getRepositorySnapshot = (repoUrl?: string | null, ref?: string | null) => {
+    const key = resolveAnalysisKey(repoUrl, ref);
+    const revision = (key ? state.analyses[key]?.revision : undefined) ?? 0;
+    const packageDir = MOCK_JAVA_FILES[0].split('/').slice(0, -1).join('/');
+    const files = [
+        ...MOCK_JAVA_FILES.filter((_, index) => revision === 0 || index % 7 !== revision % 7),
+        ...Array.from({ length: revision }, (_, index) => `${packageDir}/Feature${index + 1}Service.java`),
+        ...Object.keys(MOCK_PROJECT_FILES),
+    ];
+    // A fifth of the files get a new version per revision, picked by their name
+    const fileHashes = Object.fromEntries(files.map(file => {
+        const bucket = parseInt(mockHash(file).slice(0, 4), 16) % 5;
+        return [file, mockHash(`${file}:${Math.floor((revision + 5 - bucket) / 5)}`)];
+    }));
+    const commitSha = Array.from({ length: 5 }, (_, part) => mockHash(`${key}:${revision}:${part}`)).join('');
+    return {
+        files,
+        javaFiles: files.filter(file => file.endsWith('.java')),
+        totalFiles: files.length,
+        commitSha,
+        fileHashes,
+    };
+};
+
+const answerQuestion = (message: string): string => {
+    const repository = message.match(/^\[Repository: ([^\]]+)\]/)?.[1];
+    const ref = message.match(/^\[Repository: [^\]]+\]\s*\[Ref: ([^\]]+)\]/)?.[1];
+    const question = message.replace(/^\[Repository: [^\]]+\]\s*(\[Ref: [^\]]+\]\s*)?/, '');
+    const lower = question.toLowerCase();
+
+    if (lower.includes('analysis status')) {
+        const status = getAnalysisStatus(repository, ref);
+        return `Current analysis status: ${status.status} (${status.progressPercentage}% - ${status.processedFiles}/${status.totalFiles} files).`;
+    }
+
+    const mentionedFile = MOCK_ALL_FILES.find(file => question.includes(file));
+    if (mentionedFile) {
+        return describeMockFile(mentionedFile);
+    }
+
+    if (lower.includes('list all the java files')) {
+        return MOCK_JAVA_FILES.join('\n');
+    }
+
+    const scripted = MOCK_ANSWERS.find(candidate => candidate.keywords.some(keyword => lower.includes(keyword)));
+    if (scripted) {
+        return scripted.answer;
+    }
+
+    return `This is the offline mock backend. In the real backend your question ("${question.slice(0, 120)}") would be answered from the indexed repository. Try asking about endpoints, Spring components, data flow or tests.`;
+};
+
+// The analyze request's "options" object, as sent by apiService.analyzeRepositoryWithChat
+const parseAnalysisOptions = (raw: unknown): AnalysisOptions | undefined => {
+    if (typeof raw !== 'object' || raw === null) {
+        return undefined;
+    }
+    const options = raw as Record<string, unknown>;
+    const patterns = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    return {
+        includePatterns: patterns(options.includePatterns),
+        excludePatterns: patterns(options.excludePatterns),
+        maxFileSizeKb: typeof options.maxFileSizeBytes === 'number' ? Math.round(options.maxFileSizeBytes / 1024) : null,
+        includeTestSources: typeof options.includeTestSources === 'boolean'
+            ? options.includeTestSources
+            : DEFAULT_ANALYSIS_OPTIONS.includeTestSources,
+    };
+};
+
+const handleChatMessage = (body: Record<string, unknown>): MockResult => {
+    const message = typeof body.message === 'string' ? body.message : '';
+    const userEmail = typeof body.userEmail === 'string' ? body.userEmail : undefined;
+    const sessionId = typeof body.sessionId === 'string' ? body.sessionId : undefined;
+    const ref = typeof body.ref === 'string' ? body.ref : undefined;
+    const options = parseAnalysisOptions(body.options);
+    if (!message) {
+        return badRequest('message is required');
+    }
+
+    const analyzeMatch = message.match(/^Analyze\s+(\S+)/);
+    if (analyzeMatch) {
+        if (isAccessDenied(analyzeMatch[1])) {
+            return forbidden(`Authentication failed for ${analyzeMatch[1]}`);
+        }
+        startAnalysis(analyzeMatch[1], userEmail, ref, options);
+        return ok({
+            response: `Repository cloning initiated for ${repositoryKey(analyzeMatch[1], ref)}. Parsing and code analysis will continue in the background.`,
+            status: 'processing',
+            sessionId,
+        });
+    }
+
+    return ok({ response: answerQuestion(message), sessionId });
+};
+
+const matchUserRoute = (path: string): { email: string; resource: string } | null => {
+    const match = path.match(/^\/user\/([^/]+)\/(repositories|session)$/);
+    return match ? { email: decodeURIComponent(match[1]), resource: match[2] } : null;
+};
+
+// Route table for the mock backend
+export const handleMockRequest = ({ method, path, params, body }: MockRequest): MockResult => {
+    const route = `${method.toUpperCase()} ${path}`;
+
+    switch (route) {
+        case 'GET /analysis/health':
+            return ok({ status: 'UP', message: 'Mock backend is running' });
+        case 'GET /analysis/progress':
+            return ok(getAnalysisStatus(params.url, params.ref));
+        case 'POST /analysis/start': {
+            const key = resolveAnalysisKey(params.url, params.ref);
+            const analysis = key ? state.analyses[key] : undefined;
+            if (!analysis) {
+                return badRequest('No repository cloned');
+            }
+            startAnalysis(analysis.repoUrl, undefined, analysis.ref, analysis.options);
+            return ok({ message: 'Analysis started' });
+        }
+        case 'POST /chat/message':
+            return handleChatMessage(body);
+        case 'POST /repository/clone': {
+            const url = params.url || (typeof body.url === 'string' ? body.url : '');
+            if (!url) {
+                return badRequest('url is required');
+            }
+            if (isAccessDenied(url)) {
+                return forbidden(`Authentication failed for ${url}`);
+            }
+            startAnalysis(url);
+            return ok({ success: true, message: 'Clone started', repositoryPath: `/tmp/mock/${url.split('/').pop()}` });
+        }
+        case 'POST /repository/upload': {
+            const archive = body.archive as { name?: string; size?: number } | undefined;
+            if (!archive?.name) {
+                return badRequest('archive is required');
+            }
+            // Unpacked archives analyze like any repository under their synthetic URL
+            const uploadId = `upl_${Date.now().toString(36)}`;
+            return ok({
+                uploadId,
+                repositoryUrl: uploadRepositoryUrl(uploadId, archive.name),
+                fileName: archive.name,
+                sizeBytes: archive.size ?? 0,
+            });
+        }
+        case 'GET /repository/files':
+            return ok(getRepositorySnapshot(params.url, params.ref));
+        case 'GET /repository/file': {
+            const filePath = params.path ?? '';
+            if (!getRepositorySnapshot(params.url, params.ref).files.includes(filePath)) {
+                return notFound(filePath);
+            }
+            const content = mockFileSource(filePath);
+            return ok({ path: filePath, content, sizeBytes: content.length });
+        }
+        case 'DELETE /repository/cleanup': {
+            const key = resolveAnalysisKey(params.url, params.ref);
+            if (key) {
+                delete state.analyses[key];
+            }
+            if (key === state.lastAnalysisKey) {
+                state.lastAnalysisKey = null;
+            }
+            saveState();
+            return ok({ message: 'Repository cleaned up' });
+        }
+        case 'POST /query/ask': {
+            const query = typeof body.query === 'string' ? body.query : '';
+            return ok({ explanation: answerQuestion(query), relatedFiles: [] });
+        }
+        case 'POST /query/search': {
+            const query = (typeof body.query === 'string' ? body.query : '').toLowerCase();
+            const results = MOCK_JAVA_FILES
+                .filter(file => file.toLowerCase().includes(query))
+                .slice(0, Number(body.limit) || 10)
+                .map((filePath, index) => ({ filePath, snippet: `class ${filePath.split('/').pop()?.replace('.java', '')} { ... }`, score: 1 - index * 0.05 }));
+            return ok({ results });
+        }
+        case 'GET /query/endpoints':
+            return ok({ endpoints: MOCK_ENDPOINTS });
+        case 'GET /query/spring-components':
+            return ok({ components: MOCK_SPRING_COMPONENTS });
+        case 'POST /user/session/start':
+        case 'POST /user/session/continue': {
+            const sessionId = typeof body.sessionId === 'string' ? body.sessionId : '';
+            const email = typeof body.email === 'string' ? body.email : '';
+            state.sessions[sessionId] = {
+                userEmail: email,
+                repositoryUrl: typeof body.repositoryUrl === 'string' ? body.repositoryUrl : state.sessions[sessionId]?.repositoryUrl,
+            };
+            saveState();
+            return ok({ sessionId, status: 'ACTIVE', message: 'Mock session ready' });
+        }
+    }
+
+    const chatContext = path.match(/^\/chat\/session\/([^/]+)\/context$/);
+    if (method.toUpperCase() === 'GET' && chatContext) {
+        const session = state.sessions[chatContext[1]];
+        return ok({ sessionId: chatContext[1], repositoryUrl: session?.repositoryUrl ?? null, messages: [] });
+    }
+
+    const userRoute = method.toUpperCase() === 'GET' ? matchUserRoute(path) : null;
+    if (userRoute?.resource === 'repositories') {
+        return ok({ repositories: state.repositories[userRoute.email] ?? [] });
+    }
+    if (userRoute?.resource === 'session') {
+        const sessionId = params.sessionId ?? '';
+        const session = state.sessions[sessionId];
+        return session
+            ? ok({ sessionId, userEmail: session.userEmail, repositoryUrl: session.repositoryUrl, isActive: true })
+            : notFound(path);
+    }
+
+    return notFound(path);
+};
+
+const simulateLatency = (signal?: AbortSignal | null): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, LATENCY_MS * (0.5 + Math.random()));
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Mock request aborted', 'AbortError'));
+        }, { once: true });
+    });
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+    // Multipart uploads: files are described by name and size only
+    if (typeof FormData !== 'undefined' && data instanceof FormData) {
+        return Object.fromEntries([...data.entries()].map(([key, value]) => [
+            key,
+            typeof value === 'string' ? value : { name: value.name, size: value.size },
+        ]));
+    }
+    if (typeof data === 'string' && data) {
+        try {
+            const parsed = JSON.parse(data);
+            return typeof parsed === 'object' && parsed !== null ? parsed : {};
+        } catch {
+            return {};
+        }
+    }
+    return typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+};
+
+// Reports an upload in a few steps, as a slow connection would
+const simulateUploadProgress = async (data: FormData, onProgress: (event: AxiosProgressEvent) => void, signal?: AbortSignal) => {
+    const total = [...data.values()].reduce((sum, value) => sum + (typeof value === 'string' ? value.length : value.size), 0);
+    for (let step = 1; step <= UPLOAD_PROGRESS_STEPS; step++) {
+        await simulateLatency(signal);
+        const loaded = Math.round(total * step / UPLOAD_PROGRESS_STEPS);
+        onProgress({ loaded, total, progress: total ? loaded / total : 1, bytes: total / UPLOAD_PROGRESS_STEPS, lengthComputable: true });
+    }
+};
+
+// axios adapter serving every request from the mock route table
+export const mockAdapter: AxiosAdapter = async (config) => {
+    try {
+        await simulateLatency(config.signal as AbortSignal | undefined);
+        if (config.onUploadProgress && typeof FormData !== 'undefined' && config.data instanceof FormData) {
+            await simulateUploadProgress(config.data, config.onUploadProgress, config.signal as AbortSignal | undefined);
+        }
+    } catch {
+        throw new CanceledError(undefined, undefined, config);
+    }
+
+    const url = new URL(config.url ?? '/', 'http://mock.backend');
+    const params: Record<string, string> = Object.fromEntries(url.searchParams.entries());
+    Object.entries(config.params ?? {}).forEach(([key, value]) => {
+        params[key] = String(value);
+    });
+
+    const result = handleMockRequest({
+        method: config.method ?? 'get',
+        path: decodeURIComponent(url.pathname),
+        params,
+        body: parseBody(config.data),
+    });
+
+    const response: AxiosResponse = {
+        data: result.body,
+        status: result.status,
+        statusText: result.status < 400 ? 'OK' : 'Error',
+        headers: new AxiosHeaders(result.headers),
+        config,
+        request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (validateStatus(response.status)) {
+        return response;
+    }
+    throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+    );
+};
+
+// GET /analysis/events - samples the simulated analysis while the stream is open and
+// publishes changes through the local emitter, which handles replay and Last-Event-ID
+const openAnalysisEvents = (repoUrl: string | null, ref: string | null, init: RequestInit): Response => {
+    const lastEventId = new Headers(init.headers).get('last-event-id');
+    const progressEmitter = progressEmitterFor(resolveAnalysisKey(repoUrl, ref) ?? '');
+    const publish = () => {
+        const status = getAnalysisStatus(repoUrl, ref);
+        progressEmitter.emitStatus(status);
+        if (status.status === 'COMPLETED' || status.status === 'FAILED') {
+            clearInterval(ticker);
+        }
+    };
+    const ticker = setInterval(publish, EVENT_TICK_MS);
+    init.signal?.addEventListener('abort', () => clearInterval(ticker), { once: true });
+
+    const response = progressEmitter.open(lastEventId, init.signal);
+    publish();
+    return response;
+};
+
+// fetch replacement for the streaming paths - chat answers are streamed word by word as SSE
+export const mockFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    await simulateLatency(init.signal);
+
+    const url = new URL(input, 'http://mock.backend');
+    const path = url.pathname.replace(/^.*\/api\/[^/]+/, '');
+    if ((init.method ?? 'GET').toUpperCase() === 'GET' && path === '/analysis/events') {
+        return openAnalysisEvents(url.searchParams.get('url'), url.searchParams.get('ref'), init);
+    }
+    const result = handleMockRequest({
+        method: init.method ?? 'GET',
+        path,
+        params: Object.fromEntries(url.searchParams.entries()),
+        body: parseBody(init.body),
+    });
+
+    const body = result.body as { response?: string; sessionId?: string };
+    if (result.status >= 400 || typeof body.response !== 'string') {
+        return new Response(JSON.stringify(result.body), {
+            status: result.status,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    const tokens = body.response.match(/\S+\s*|\s+/g) ?? [];
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            for (const token of tokens) {
+                if (init.signal?.aborted) {
+                    controller.error(new DOMException('Mock stream aborted', 'AbortError'));
+                    return;
+                }
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token })}\n\n`));
+                await new Promise(resolve => setTimeout(resolve, 25));
+            }
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true, sessionId: body.sessionId })}\n\n`));
+            controller.close();
+        },
+    });
+
+    return new Response(stream, {
+        status: 200,
+        headers: { 'Content-Type': 'text/event-stream' },
+    });
+};
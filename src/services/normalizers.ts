@@ -0,0 +1,407 @@
+import {
+    AnalysisStatus,
+    ApiEndpoint,
+    ChatResponse,
+    CloneResponse,
+    CodeSearchResult,
+    ExplainResponse,
+    FileContent,
+    HealthResponse,
+    SessionResponse,
+    RepositorySnapshot,
+    SessionStatusResponse,
+    SpringComponent,
+    SpringStereotype,
+    UploadResponse,
+    UserRepository,
+} from '@/types';
+import { uploadRepositoryUrl } from '@/utils/repositoryRef';
+
+// Raised when a backend payload cannot be turned into the expected domain model
+export class ResponseShapeError extends Error {
+    readonly endpoint: string;
+    readonly issues: string[];
+    readonly payload: unknown;
+
+    constructor(endpoint: string, issues: string[], payload: unknown) {
+        super(`Unexpected response from ${endpoint}: ${issues.join('; ')}`);
+        this.name = 'ResponseShapeError';
+        this.endpoint = endpoint;
+        this.issues = issues;
+        this.payload = payload;
+    }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// First string found under any of the given keys
+const pickString = (source: UnknownRecord, ...keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = source[key];
+        if (typeof value === 'string') {
+            return value;
+        }
+    }
+    return undefined;
+};
+
+const pickNumber = (source: UnknownRecord, ...keys: string[]): number | undefined => {
+    for (const key of keys) {
+        const value = source[key];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return value;
+        }
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+            return Number(value);
+        }
+    }
+    return undefined;
+};
+
+// First array found under any of the given keys (or the payload itself)
+const pickArray = (source: unknown, ...keys: string[]): unknown[] | undefined => {
+    if (Array.isArray(source)) {
+        return source;
+    }
+    if (!isRecord(source)) {
+        return undefined;
+    }
+    for (const key of keys) {
+        const value = source[key];
+        if (Array.isArray(value)) {
+            return value;
+        }
+    }
+    return undefined;
+};
+
+const toStringList = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string')
+        : [];
+
+const requireRecord = (endpoint: string, payload: unknown): UnknownRecord => {
+    if (!isRecord(payload)) {
+        throw new ResponseShapeError(endpoint, [`expected an object but received ${Array.isArray(payload) ? 'an array' : typeof payload}`], payload);
+    }
+    return payload;
+};
+
+export const normalizeHealth = (endpoint: string, payload: unknown): HealthResponse => {
+    // Some health endpoints answer with plain text
+    if (typeof payload === 'string') {
+        return { status: 'UP', message: payload };
+    }
+    const data = requireRecord(endpoint, payload);
+    return {
+        status: pickString(data, 'status') ?? 'UP',
+        message: pickString(data, 'message', 'details') ?? '',
+    };
+};
+
+// Session endpoints may answer with an empty body or plain text - the requested id is kept then
+export const normalizeSession = (endpoint: string, payload: unknown, fallbackSessionId: string): SessionResponse => {
+    if (payload === undefined || payload === null || typeof payload === 'string') {
+        return { sessionId: fallbackSessionId, message: payload || undefined };
+    }
+    const data = requireRecord(endpoint, payload);
+    if (data.sessionId !== undefined && typeof data.sessionId !== 'string') {
+        throw new ResponseShapeError(endpoint, ['"sessionId" is not a string'], payload);
+    }
+    return {
+        sessionId: pickString(data, 'sessionId') ?? fallbackSessionId,
+        message: pickString(data, 'message'),
+        status: pickString(data, 'status'),
+    };
+};
+
+export const normalizeSessionStatus = (endpoint: string, payload: unknown): SessionStatusResponse => {
+    const data = requireRecord(endpoint, payload);
+    const sessionId = pickString(data, 'sessionId');
+    if (!sessionId) {
+        throw new ResponseShapeError(endpoint, ['missing "sessionId"'], payload);
+    }
+    const userEmail = pickString(data, 'userEmail', 'email');
+    if (!userEmail) {
+        throw new ResponseShapeError(endpoint, ['missing "userEmail"'], payload);
+    }
+
+    return {
+        sessionId,
+        userEmail,
+        repositoryUrl: pickString(data, 'repositoryUrl', 'repoUrl'),
+        isActive: data.isActive === true || data.active === true,
+    };
+};
+
+// Repositories arrive either as plain URLs or as objects with url/name/lastAnalyzed
+export const normalizeUserRepositories = (endpoint: string, payload: unknown): UserRepository[] => {
+    const entries = pickArray(payload, 'repositories', 'data');
+    if (!entries) {
+        throw new ResponseShapeError(endpoint, ['missing "repositories" array'], payload);
+    }
+
+    return entries.flatMap((entry): UserRepository[] => {
+        const url = typeof entry === 'string'
+            ? entry
+            : isRecord(entry) ? pickString(entry, 'url', 'repositoryUrl', 'repoUrl') : undefined;
+        if (!url) {
+            return [];
+        }
+        const details = isRecord(entry) ? entry : {};
+        return [{
+            id: pickString(details, 'id') ?? url,
+            name: pickString(details, 'name') ?? url.replace(/\/+$/, '').split('/').slice(-2).join('/'),
+            url,
+            lastAnalyzed: pickString(details, 'lastAnalyzed', 'analyzedAt'),
+        }];
+    });
+};
+
+// Chat answers have been seen as "response", "answer" and "data.response"
+export const normalizeChatResponse = (endpoint: string, payload: unknown): ChatResponse => {
+    const data = requireRecord(endpoint, payload);
+    const nested = isRecord(data.data) ? data.data : {};
+    const answer = pickString(data, 'response', 'answer') ?? pickString(nested, 'response', 'answer');
+    const status = pickString(data, 'status');
+
+    if (answer === undefined && status === undefined) {
+        throw new ResponseShapeError(endpoint, ['missing answer text ("response", "answer" or "data.response") and "status"'], payload);
+    }
+
+    return {
+        answer: answer ?? '',
+        sessionId: pickString(data, 'sessionId'),
+        status,
+        timestamp: pickString(data, 'timestamp'),
+    };
+};
+
+export const normalizeCloneResponse = (endpoint: string, payload: unknown): CloneResponse => {
+    const data = requireRecord(endpoint, payload);
+    return {
+        success: data.success !== false,
+        message: pickString(data, 'message', 'status') ?? '',
+        repositoryPath: pickString(data, 'repositoryPath', 'path'),
+    };
+};
+
+// Backends that only return an upload id get the synthetic repository URL built here
+export const normalizeUploadResponse = (endpoint: string, payload: unknown, archive: { name: string; size: number }): UploadResponse => {
+    const data = requireRecord(endpoint, payload);
+    const repositoryUrl = pickString(data, 'repositoryUrl', 'url');
+    const uploadId = pickString(data, 'uploadId', 'id') ?? repositoryUrl?.split('/').slice(-2)[0];
+    if (!uploadId) {
+        throw new ResponseShapeError(endpoint, ['missing "uploadId" or "repositoryUrl"'], payload);
+    }
+    return {
+        uploadId,
+        repositoryUrl: repositoryUrl ?? uploadRepositoryUrl(uploadId, archive.name),
+        fileName: pickString(data, 'fileName', 'name') ?? archive.name,
+        sizeBytes: pickNumber(data, 'sizeBytes', 'size') ?? archive.size,
+    };
+};
+
+// File contents come as { content }, { source } or the bare text
+export const normalizeFileContent = (endpoint: string, payload: unknown, path: string): FileContent => {
+    if (typeof payload === 'string') {
+        return { path, content: payload };
+    }
+    const data = requireRecord(endpoint, payload);
+    const content = pickString(data, 'content', 'source', 'text');
+    if (content === undefined) {
+        throw new ResponseShapeError(endpoint, ['missing "content"'], payload);
+    }
+    return {
+        path: pickString(data, 'path', 'filePath') ?? path,
+        content,
+        language: pickString(data, 'language'),
+        sizeBytes: pickNumber(data, 'sizeBytes', 'size'),
+    };
+};
+
+// File listings are either { files: [...] } with every file type, { javaFiles: [...] } from older
+// backends, or a bare array. The analyzed commit and content hashes come along when the backend
+// reports them, per entry ({ path, hash }) or as a { fileHashes: { path: hash } } map
+export const normalizeRepositorySnapshot = (endpoint: string, payload: unknown): RepositorySnapshot => {
+    const entries = pickArray(payload, 'files', 'allFiles', 'javaFiles');
+    if (!entries) {
+        throw new ResponseShapeError(endpoint, ['missing "files" or "javaFiles" array'], payload);
+    }
+
+    const fileHashes: Record<string, string> = {};
+    const hashMap = isRecord(payload) && isRecord(payload.fileHashes) ? payload.fileHashes : {};
+    Object.entries(hashMap).forEach(([path, hash]) => {
+        if (typeof hash === 'string') {
+            fileHashes[path] = hash;
+        }
+    });
+
+    const files = entries.flatMap(entry => {
+        if (typeof entry === 'string') {
+            return [entry];
+        }
+        const path = isRecord(entry) ? pickString(entry, 'path', 'filePath') : undefined;
+        const hash = isRecord(entry) ? pickString(entry, 'hash', 'sha', 'checksum') : undefined;
+        if (path && hash) {
+            fileHashes[path] = hash;
+        }
+        return path ? [path] : [];
+    });
+
+    return {
+        files,
+        commitSha: isRecord(payload) ? pickString(payload, 'commitSha', 'commit', 'revision') : undefined,
+        fileHashes: Object.keys(fileHashes).length > 0 ? fileHashes : undefined,
+    };
+};
+
+const ANALYSIS_STATES: AnalysisStatus['status'][] = ['IDLE', 'CLONING', 'PARSING', 'ANALYZING', 'COMPLETED', 'FAILED'];
+
+export const normalizeAnalysisStatus = (endpoint: string, payload: unknown): AnalysisStatus => {
+    const data = requireRecord(endpoint, payload);
+    const rawStatus = pickString(data, 'status')?.toUpperCase();
+    const status = ANALYSIS_STATES.find(state => state === rawStatus);
+    if (!status) {
+        throw new ResponseShapeError(endpoint, [`unknown analysis status "${rawStatus ?? 'undefined'}"`], payload);
+    }
+
+    const totalFiles = pickNumber(data, 'totalFiles') ?? 0;
+    const processedFiles = pickNumber(data, 'processedFiles') ?? 0;
+    return {
+        status,
+        totalFiles,
+        processedFiles,
+        progressPercentage: pickNumber(data, 'progressPercentage', 'progress')
+            ?? (totalFiles > 0 ? Math.round((processedFiles / totalFiles) * 100) : 0),
+        error: pickString(data, 'error'),
+        message: pickString(data, 'message'),
+    };
+};
+
+export const normalizeExplainResponse = (endpoint: string, payload: unknown): ExplainResponse => {
+    const data = requireRecord(endpoint, payload);
+    const explanation = pickString(data, 'explanation', 'answer', 'response');
+    if (explanation === undefined) {
+        throw new ResponseShapeError(endpoint, ['missing "explanation"'], payload);
+    }
+    return {
+        explanation,
+        codeSnippets: toStringList(data.codeSnippets),
+        relatedFiles: toStringList(data.relatedFiles),
+    };
+};
+
+export const normalizeSearchResults = (endpoint: string, payload: unknown): CodeSearchResult[] => {
+    const entries = pickArray(payload, 'results', 'matches');
+    if (!entries) {
+        throw new ResponseShapeError(endpoint, ['missing "results" array'], payload);
+    }
+
+    return entries.flatMap((entry): CodeSearchResult[] => {
+        if (!isRecord(entry)) {
+            return [];
+        }
+        const filePath = pickString(entry, 'filePath', 'file', 'path');
+        if (!filePath) {
+            return [];
+        }
+        return [{
+            filePath,
+            snippet: pickString(entry, 'snippet', 'content', 'code') ?? '',
+            score: pickNumber(entry, 'score', 'similarity'),
+            lineNumber: pickNumber(entry, 'lineNumber', 'line'),
+        }];
+    });
+};
+
+export const normalizeEndpoints = (endpoint: string, payload: unknown): ApiEndpoint[] => {
+    const entries = pickArray(payload, 'endpoints', 'data');
+    if (!entries) {
+        throw new ResponseShapeError(endpoint, ['missing "endpoints" array'], payload);
+    }
+
+    return entries.flatMap((entry): ApiEndpoint[] => {
+        if (!isRecord(entry)) {
+            return [];
+        }
+        const path = pickString(entry, 'path', 'url', 'mapping');
+        if (!path) {
+            return [];
+        }
+        return [{
+            method: (pickString(entry, 'method', 'httpMethod') ?? 'GET').toUpperCase(),
+            path,
+            controller: pickString(entry, 'controller', 'className'),
+            handler: pickString(entry, 'handler', 'methodName'),
+        }];
+    });
+};
+
+const STEREOTYPE_ALIASES: Record<string, SpringStereotype> = {
+    controller: 'Controller',
+    controllers: 'Controller',
+    restcontroller: 'Controller',
+    service: 'Service',
+    services: 'Service',
+    repository: 'Repository',
+    repositories: 'Repository',
+    configuration: 'Configuration',
+    configurations: 'Configuration',
+    entity: 'Entity',
+    entities: 'Entity',
+    component: 'Component',
+    components: 'Component',
+};
+
+const toStereotype = (value: string | undefined): SpringStereotype | undefined =>
+    value ? STEREOTYPE_ALIASES[value.replace(/^@/, '').toLowerCase()] : undefined;
+
+const toSpringComponent = (entry: unknown, groupStereotype?: SpringStereotype): SpringComponent | null => {
+    if (typeof entry === 'string') {
+        return groupStereotype
+            ? { name: entry.split('.').pop() || entry, stereotype: groupStereotype, dependencies: [] }
+            : null;
+    }
+    if (!isRecord(entry)) {
+        return null;
+    }
+
+    const name = pickString(entry, 'name', 'className', 'simpleName');
+    const stereotype = toStereotype(pickString(entry, 'stereotype', 'type', 'annotation')) ?? groupStereotype;
+    if (!name || !stereotype) {
+        return null;
+    }
+
+    return {
+        name: name.split('.').pop() || name,
+        stereotype,
+        filePath: pickString(entry, 'filePath', 'file', 'path'),
+        beanName: pickString(entry, 'beanName', 'bean'),
+        dependencies: toStringList(entry.dependencies ?? entry.injectedDependencies),
+    };
+};
+
+// Components come either as a flat list or grouped by stereotype ({ controllers: [...], services: [...] })
+export const normalizeSpringComponents = (endpoint: string, payload: unknown): SpringComponent[] => {
+    const flat = pickArray(payload, 'components');
+    if (flat) {
+        return flat.map(entry => toSpringComponent(entry)).filter((component): component is SpringComponent => component !== null);
+    }
+
+    const data = requireRecord(endpoint, payload);
+    const groups = Object.entries(data).filter(([key, value]) => toStereotype(key) && Array.isArray(value));
+    if (groups.length === 0) {
+        throw new ResponseShapeError(endpoint, ['missing "components" array or stereotype groups'], payload);
+    }
+
+    return groups.flatMap(([key, value]) => (value as unknown[])
+        .map(entry => toSpringComponent(entry, toStereotype(key)))
+        .filter((component): component is SpringComponent => component !== null));
+};
+
+export const normalizeRecord = (endpoint: string, payload: unknown): Record<string, unknown> =>
+    requireRecord(endpoint, payload);
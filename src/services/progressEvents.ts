@@ -0,0 +1,259 @@
+// Push-based analysis progress: a Server-Sent Events subscription to /analysis/events with
+// automatic reconnects that resume from the last received event (Last-Event-ID).
+// fetch is used instead of EventSource because the proxy needs the profile header.
+
+import { AnalysisStatus } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { isRequestCancelled } from './api';
+import {
+    BackendProfiles,
+    PROFILE_HEADER,
+    PROXY_BASE_PATH,
+    PROXY_ERROR_HEADER,
+} from './backendProfiles';
+import { mockFetch } from './mock/mockBackend';
+import { normalizeAnalysisStatus } from './normalizers';
+import { backoffDelay, CircuitOpenError, getCircuitBreaker, waitForRetry } from './resilience';
+
+export type AnalysisEventType = 'progress' | 'completed' | 'failed';
+
+export interface AnalysisEvent {
+    id: string | null;
+    type: AnalysisEventType;
+    status: AnalysisStatus;
+}
+
+// Opens one event stream connection; lastEventId is null for the first connection
+export type EventTransport = (lastEventId: string | null, signal: AbortSignal) => Promise<Response>;
+
+export interface AnalysisEventsOptions {
+    // Repository whose analysis to follow; omitted for backends that run one analysis at a time
+    repoUrl?: string;
+    ref?: string;
+    signal?: AbortSignal;
+    onEvent: (event: AnalysisEvent) => void;
+    onConnect?: () => void;
+    transport?: EventTransport;
+}
+
+// The backend has no event stream - callers fall back to polling
+export class PushUnavailableError extends Error {
+    constructor(reason: string) {
+        super(`Analysis events are not available: ${reason}`);
+        this.name = 'PushUnavailableError';
+    }
+}
+
+const log = createLogger('analysis');
+
+const EVENTS_ENDPOINT = '/analysis/events';
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_POLICY = { maxRetries: MAX_RECONNECT_ATTEMPTS, baseDelayMs: 1000, maxDelayMs: 15000 };
+
+// Default transport through the backend proxy (or the in-process mock backend)
+const proxyTransport = (repoUrl?: string, ref?: string): EventTransport => async (lastEventId, signal) => {
+    const profile = BackendProfiles.getActive();
+    const headers: Record<string, string> = {
+        'Accept': 'text/event-stream',
+        [PROFILE_HEADER]: profile.id,
+    };
+    if (lastEventId) {
+        headers['Last-Event-ID'] = lastEventId;
+    }
+
+    // fetch bypasses the axios interceptors, so consult the circuit breaker directly - an open
+    // circuit also holds back reconnects
+    const breaker = getCircuitBreaker(profile.id);
+    if (!breaker.allowRequest()) {
+        throw new CircuitOpenError(breaker.getSnapshot().retryAt ?? Date.now());
+    }
+    const isCircuitTrial = breaker.getSnapshot().state === 'half-open';
+    const doFetch = profile.mock ? mockFetch : fetch;
+    try {
+        const query = repoUrl
+            ? `?url=${encodeURIComponent(repoUrl)}${ref ? `&ref=${encodeURIComponent(ref)}` : ''}`
+            : '';
+        const response = await doFetch(`${PROXY_BASE_PATH}${EVENTS_ENDPOINT}${query}`, { method: 'GET', headers, signal });
+        if (response.headers.get(PROXY_ERROR_HEADER) === 'upstream-unreachable') {
+            breaker.recordConnectionFailure();
+        } else {
+            breaker.recordSuccess();
+        }
+        return response;
+    } catch (error) {
+        if (!isRequestCancelled(error)) {
+            breaker.recordConnectionFailure();
+        } else if (isCircuitTrial) {
+            // Aborted by the caller before the backend answered - let the next request probe
+            breaker.releaseTrial(false);
+        }
+        throw error;
+    }
+};
+
+interface RawEvent {
+    id?: string;
+    event?: string;
+    data: string;
+    retry?: number;
+}
+
+// Split an SSE frame into its fields; comment lines (heartbeats) are ignored
+const parseFrame = (frame: string): RawEvent | null => {
+    const event: RawEvent = { data: '' };
+    const data: string[] = [];
+
+    frame.split(/\r?\n/).forEach(line => {
+        if (!line || line.startsWith(':')) {
+            return;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        switch (field) {
+            case 'id':
+                event.id = value;
+                break;
+            case 'event':
+                event.event = value;
+                break;
+            case 'data':
+                data.push(value);
+                break;
+            case 'retry':
+                event.retry = Number(value) || undefined;
+                break;
+        }
+    });
+
+    event.data = data.join('\n');
+    return event.data || event.retry ? event : null;
+};
+
+const toAnalysisEvent = (raw: RawEvent): AnalysisEvent => {
+    const status = normalizeAnalysisStatus(EVENTS_ENDPOINT, JSON.parse(raw.data));
+    const type: AnalysisEventType = raw.event === 'completed' || status.status === 'COMPLETED'
+        ? 'completed'
+        : raw.event === 'failed' || status.status === 'FAILED'
+            ? 'failed'
+            : 'progress';
+    return { id: raw.id ?? null, type, status };
+};
+
+// Subscribe to analysis events until a completed/failed event arrives.
+// Dropped connections are re-established with backoff and resume after the last event seen.
+export const subscribeToAnalysisEvents = async ({
+    repoUrl,
+    ref,
+    signal,
+    onEvent,
+    onConnect,
+    transport = proxyTransport(repoUrl, ref),
+}: AnalysisEventsOptions): Promise<AnalysisStatus> => {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+    if (signal?.aborted) {
+        controller.abort();
+    }
+
+    let lastEventId: string | null = null;
+    let attempt = 0;
+    let retryDelay: number | null = null;
+    let connectedOnce = false;
+
+    // Returns the analysis event carried by a frame, if any
+    const handleFrame = (frame: string): AnalysisEvent | null => {
+        const raw = parseFrame(frame);
+        if (!raw) {
+            return null;
+        }
+        if (raw.retry) {
+            retryDelay = raw.retry;
+        }
+        if (raw.id !== undefined) {
+            lastEventId = raw.id;
+        }
+        if (!raw.data) {
+            return null;
+        }
+
+        try {
+            const event = toAnalysisEvent(raw);
+            attempt = 0;
+            onEvent(event);
+            return event;
+        } catch (error) {
+            log.warn('Ignoring malformed analysis event', error);
+            return null;
+        }
+    };
+
+    try {
+        while (true) {
+            let response: Response | null = null;
+            try {
+                response = await transport(lastEventId, controller.signal);
+            } catch (error) {
+                if (isRequestCancelled(error) || controller.signal.aborted) {
+                    throw error;
+                }
+                log.warn('Analysis event stream connection failed', error);
+            }
+
+            if (response) {
+                const contentType = response.headers.get('content-type') || '';
+                if (!connectedOnce && ([404, 405, 501].includes(response.status) || (response.ok && !contentType.includes('text/event-stream')))) {
+                    throw new PushUnavailableError(`${EVENTS_ENDPOINT} answered with ${response.status} ${contentType}`.trim());
+                }
+
+                if (response.ok && response.body) {
+                    connectedOnce = true;
+                    onConnect?.();
+                    log.debug(lastEventId ? `Event stream resumed after event ${lastEventId}` : 'Event stream connected');
+
+                    const reader = response.body.getReader();
+                    const decoder = new TextDecoder();
+                    let buffer = '';
+
+                    try {
+                        while (true) {
+                            const { value, done } = await reader.read();
+                            if (done) {
+                                break;
+                            }
+                            buffer += decoder.decode(value, { stream: true });
+                            const frames = buffer.split(/\r?\n\r?\n/);
+                            buffer = frames.pop() ?? '';
+
+                            for (const frame of frames) {
+                                const event = handleFrame(frame);
+                                if (event && event.type !== 'progress') {
+                                    await reader.cancel();
+                                    return event.status;
+                                }
+                            }
+                        }
+                        log.debug('Event stream closed by the server - reconnecting');
+                    } catch (error) {
+                        if (isRequestCancelled(error) || controller.signal.aborted) {
+                            throw error;
+                        }
+                        log.warn('Analysis event stream interrupted', error);
+                    }
+                } else if (!response.ok) {
+                    log.warn(`Analysis event stream answered with ${response.status}`);
+                }
+            }
+
+            attempt += 1;
+            if (attempt > MAX_RECONNECT_ATTEMPTS) {
+                throw new Error(`Analysis event stream dropped ${MAX_RECONNECT_ATTEMPTS} times in a row`);
+            }
+            await waitForRetry(retryDelay ?? backoffDelay(attempt - 1, RECONNECT_POLICY), controller.signal);
+        }
+    } finally {
+        controller.abort();
+        signal?.removeEventListener('abort', forwardAbort);
+    }
+};
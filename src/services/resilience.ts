@@ -0,0 +1,228 @@
+import { AxiosError } from 'axios';
+import { PROXY_ERROR_HEADER } from './backendProfiles';
+
+// Resilience bookkeeping travels on the request config so retried requests keep their state
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        retryCount?: number;
+        profileId?: string;
+        bypassCircuit?: boolean; // Health probes must reach the backend even while the circuit is open
+        startedAt?: number; // Set by the logging interceptor to report request durations
+        circuitTrial?: boolean; // The single request let through to probe a half-open circuit
+    }
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+// Idempotent methods are retried on transient failures; POST only when the server explicitly
+// asked us to come back later (429), because it never started processing the request
+export const RETRY_POLICIES: Record<string, RetryPolicy> = {
+    get: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 8000 },
+    head: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 8000 },
+    options: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 8000 },
+    put: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+    delete: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+    post: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+};
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+const TRANSIENT_STATUSES = new Set([502, 503, 504]);
+const MAX_RETRY_AFTER_MS = 60000;
+
+// Connection-level failures: the backend process is not listening.
+// Browsers cannot see ECONNREFUSED and report ERR_NETWORK without a response instead;
+// behind the proxy the same condition arrives as a 502 flagged by the proxy.
+export const isConnectionFailure = (error: AxiosError): boolean => {
+    if (error.response) {
+        return error.response.status === 502 && error.response.headers?.[PROXY_ERROR_HEADER.toLowerCase()] === 'upstream-unreachable';
+    }
+    return error.code === 'ECONNREFUSED' ||
+        error.code === 'ENOTFOUND' ||
+        error.code === AxiosError.ERR_NETWORK;
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | null => {
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+// Decide whether (and after how long) a failed request should be retried; null means give up
+export const getRetryDelay = (error: AxiosError): number | null => {
+    const config = error.config;
+    if (!config || config.signal?.aborted) {
+        return null;
+    }
+
+    const method = (config.method || 'get').toLowerCase();
+    const policy = RETRY_POLICIES[method];
+    const attempt = config.retryCount ?? 0;
+    if (!policy || attempt >= policy.maxRetries) {
+        return null;
+    }
+
+    const status = error.response?.status;
+    if (status === 429) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+            return null;
+        }
+        return retryAfter ?? backoffDelay(attempt, policy);
+    }
+
+    if (!IDEMPOTENT_METHODS.has(method)) {
+        return null;
+    }
+
+    const isTransient = status !== undefined
+        ? TRANSIENT_STATUSES.has(status)
+        : error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT || isConnectionFailure(error);
+    return isTransient ? backoffDelay(attempt, policy) : null;
+};
+
+// Wait for a retry delay, aborting early when the request is cancelled
+export const waitForRetry = (delayMs: number, signal?: AbortSignal | null): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Request aborted during retry backoff', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitSnapshot {
+    state: CircuitState;
+    consecutiveFailures: number;
+    retryAt: number | null;
+}
+
+type CircuitListener = (snapshot: CircuitSnapshot) => void;
+
+// Raised instead of sending a request while the backend is known to be down
+export class CircuitOpenError extends Error {
+    readonly retryAt: number;
+
+    constructor(retryAt: number) {
+        super(`Backend unavailable - requests are paused until ${new Date(retryAt).toLocaleTimeString()}`);
+        this.name = 'CircuitOpenError';
+        this.retryAt = retryAt;
+    }
+}
+
+// Opens after repeated connection failures so that calls fail fast instead of each timing out;
+// after the cooldown a single trial request is let through (half-open) to probe the backend
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private retryAt: number | null = null;
+    private trialInFlight = false;
+    private readonly listeners = new Set<CircuitListener>();
+
+    constructor(
+        private readonly failureThreshold = 3,
+        private readonly cooldownMs = 15000,
+    ) {}
+
+    // Returns false when the request must not be sent
+    allowRequest(now: number = Date.now()): boolean {
+        if (this.state === 'closed') {
+            return true;
+        }
+        if (this.state === 'open' && this.retryAt !== null && now >= this.retryAt) {
+            this.transition('half-open');
+        }
+        if (this.state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.trialInFlight = false;
+        if (this.state !== 'closed' || this.consecutiveFailures > 0) {
+            this.consecutiveFailures = 0;
+            this.retryAt = null;
+            this.transition('closed');
+        }
+    }
+
+    // A trial that ends without an answer says nothing about the backend being back: a timeout
+    // counts as a failure and reopens the circuit, a cancellation lets the next request probe instead
+    releaseTrial(timedOut: boolean, now: number = Date.now()): void {
+        if (!this.trialInFlight) {
+            return;
+        }
+        if (timedOut) {
+            this.recordConnectionFailure(now);
+        } else {
+            this.trialInFlight = false;
+        }
+    }
+
+    recordConnectionFailure(now: number = Date.now()): void {
+        this.trialInFlight = false;
+        this.consecutiveFailures += 1;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.retryAt = now + this.cooldownMs;
+            this.transition('open');
+        }
+    }
+
+    getSnapshot(): CircuitSnapshot {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            retryAt: this.retryAt,
+        };
+    }
+
+    // Subscribe to state changes - returns an unsubscribe function
+    subscribe(listener: CircuitListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private transition(state: CircuitState): void {
+        this.state = state;
+        const snapshot = this.getSnapshot();
+        this.listeners.forEach(listener => listener(snapshot));
+    }
+}
+
+// One breaker per backend profile - switching profiles must not inherit an open circuit
+const breakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitBreaker = (profileId: string): CircuitBreaker => {
+    let breaker = breakers.get(profileId);
+    if (!breaker) {
+        breaker = new CircuitBreaker();
+        breakers.set(profileId, breaker);
+    }
+    return breaker;
+};
@@ -0,0 +1,28 @@
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('session');
+
+// Next.js route that issues the signed session cookie the app's own server routes (credentials,
+// backend proxy) identify the user by - the email header alone is not trusted there
+const SESSION_PATH = '/api/session';
+
+export const serverSession = {
+    // Called on every sign-in and page load; renews the cookie and keeps its subject for the same email
+    async signIn(userEmail: string): Promise<void> {
+        const response = await fetch(SESSION_PATH, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: userEmail }),
+        });
+        if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.message || `Sign-in failed with status ${response.status}`);
+        }
+        log.debug('Server session established');
+    },
+
+    async signOut(): Promise<void> {
+        await fetch(SESSION_PATH, { method: 'DELETE' });
+        log.debug('Server session ended');
+    },
+};
@@ -14,12 +14,85 @@ export interface CloneResponse {
     repositoryPath?: string;
 }
 
+// File listing of one analysis run. Commit and per-file content hashes are optional -
+// without hashes, change detection can only report added and removed files.
+export interface RepositorySnapshot {
+    files: string[];
+    commitSha?: string;
+    fileHashes?: Record<string, string>;
+}
+
+export interface FileContent {
+    path: string;
+    content: string;
+    language?: string;
+    sizeBytes?: number;
+}
+
+// Uploaded project archive - analyzed under a synthetic upload:// repository URL
+export interface UploadResponse {
+    uploadId: string;
+    repositoryUrl: string;
+    fileName: string;
+    sizeBytes: number;
+}
+
 export interface ChatResponse {
-    response: string;
-    sessionId: string;
+    answer: string;
+    sessionId?: string;
+    status?: string;
     timestamp?: string;
 }
 
+export interface SessionResponse {
+    sessionId: string;
+    message?: string;
+    status?: string;
+}
+
+export interface SessionStatusResponse {
+    sessionId: string;
+    userEmail: string;
+    repositoryUrl?: string;
+    isActive: boolean;
+}
+
+export interface UserRepository {
+    id: string;
+    name: string;
+    url: string;
+    lastAnalyzed?: string;
+}
+
+export interface HealthResponse {
+    status: string;
+    message: string;
+}
+
+export interface CodeSearchResult {
+    filePath: string;
+    snippet: string;
+    score?: number;
+    lineNumber?: number;
+}
+
+export interface ApiEndpoint {
+    method: string;
+    path: string;
+    controller?: string;
+    handler?: string;
+}
+
+export type SpringStereotype = 'Controller' | 'Service' | 'Repository' | 'Configuration' | 'Entity' | 'Component';
+
+export interface SpringComponent {
+    name: string;
+    stereotype: SpringStereotype;
+    filePath?: string;
+    beanName?: string;
+    dependencies: string[];
+}
+
 export interface FileStructureResponse {
     files: string[];
 }
@@ -30,25 +103,122 @@ export interface ExplainResponse {
     relatedFiles?: string[];
 }
 
+// Backend Configuration Types
+export interface BackendProfile {
+    id: string;
+    name: string;
+    baseUrl: string;
+    apiVersion: string;
+    timeout: number;
+    analysisTimeout: number;
+    streamChat: boolean;
+    progressEvents: boolean; // Subscribe to /analysis/events instead of only polling /analysis/progress
+    mock?: boolean; // Served by the in-process mock backend instead of the network
+}
+
+// Per-repository analysis settings sent with the analyze request
+export interface AnalysisOptions {
+    includePatterns: string[]; // Globs relative to the repository root; empty means everything
+    excludePatterns: string[];
+    maxFileSizeKb: number | null; // Larger files are skipped; null means no limit
+    includeTestSources: boolean; // src/test/**, *Test.java, *IT.java, *.test.ts, *.spec.ts
+}
+
+// Private repository access, scoped per git host. The secret only ever travels from the
+// browser to the credentials route - listings carry a masked hint instead.
+export type GitCredentialKind = 'token' | 'deploy-key';
+
+export interface GitCredentialInput {
+    host: string;
+    kind: GitCredentialKind;
+    username?: string; // Bitbucket app passwords and some GitLab setups need one
+    secret: string;
+}
+
+export interface GitCredentialSummary {
+    host: string;
+    kind: GitCredentialKind;
+    username?: string;
+    hint: string; // Last characters of the token, or the deploy key fingerprint
+    updatedAt: number;
+}
+
+// Differences between two analysis runs of the same repository checkout
+export type FileChangeKind = 'added' | 'modified' | 'removed';
+
+export interface FileChangeSummary {
+    added: string[];
+    modified: string[];
+    removed: string[];
+    fromCommit?: string;
+    toCommit?: string;
+}
+
 // UI State Types
 export interface HistoryEntry {
     id: number;
     timestamp: string;
     action: string;
-    status: 'started' | 'in_progress' | 'completed' | 'error' | 'loaded';
+    status: 'started' | 'in_progress' | 'completed' | 'error' | 'loaded' | 'cancelled';
     details: string;
 }
 
+// Project archive upload in progress, or the reason it failed
+export interface ArchiveUpload {
+    fileName: string;
+    loadedBytes: number;
+    totalBytes: number;
+    error?: string;
+}
+
+// Nested file tree - only found in sessions saved by older versions
 export interface FileTreeNode {
     [key: string]: FileTreeNode | { isFile: true; fullPath: string };
 }
 
+// File tree flattened into one node array; ids are array indexes and parents come before children
+export interface FlatTreeNode {
+    path: string;
+    name: string;
+    depth: number;
+    parent: number; // -1 for top-level entries
+    isFile: boolean;
+    children: number[]; // Folders first, then files, each by name
+    kind?: 'sourceSet' | 'package'; // Package view only - plain folders and files have none
+}
+
+// Directory layout as on disk, or source sets and Java packages (IntelliJ's package view)
+export type FileTreeView = 'directory' | 'package';
+
+export interface FlatTree {
+    nodes: FlatTreeNode[];
+    roots: number[];
+    index: Map<string, number>; // Path to node id
+    fileCount: number;
+}
+
+// Questions about several files at once, asked from the explorer's multi-selection
+export type MultiFileAction = 'explain' | 'compare' | 'trace';
+
+// AI actions in the explorer's context menu; the last one is for folders
+export type FileAction = 'explain' | 'summarize' | 'findUsages' | 'generateTests' | 'reviewBugs' | 'summarizePackage';
+
 // Component Props Types
 export interface FileExplorerProps {
-    fileStructure: FileTreeNode;
+    fileTree: FlatTree;
+    isBuildingTree?: boolean;
+    treeView?: FileTreeView;
+    onTreeViewChange?: (view: FileTreeView) => void;
     selectedFile: string | null;
     onFileSelect: (filePath: string | FileTreeNode | { isFile: true; fullPath: string }) => void;
     onExplainFile: () => void;
+    excludedFiles?: Set<string>; // Shown greyed out - skipped by the analysis options
+    fileChanges?: Map<string, FileChangeKind>; // Badges for changes since the previous analysis
+    changeSummary?: FileChangeSummary | null;
+    onAskAboutChanges?: () => void;
+    onAskAboutFiles?: (action: MultiFileAction, files: string[]) => void;
+    springComponents?: Map<string, SpringComponent>; // Stereotype badges, by file path
+    onFileAction?: (action: FileAction, path: string) => void;
 }
 
 export interface HistoryPanelProps {
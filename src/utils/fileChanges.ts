@@ -0,0 +1,34 @@
+import { FileChangeKind, FileChangeSummary, RepositorySnapshot } from '@/types';
+
+// Change detection between two analysis runs of the same checkout. Modified files can only be
+// told apart when both runs reported content hashes.
+
+export const diffSnapshots = (previous: RepositorySnapshot, next: RepositorySnapshot): FileChangeSummary => {
+    const previousFiles = new Set(previous.files);
+    const nextFiles = new Set(next.files);
+    const comparable = previous.fileHashes && next.fileHashes;
+
+    return {
+        added: next.files.filter(file => !previousFiles.has(file)),
+        removed: previous.files.filter(file => !nextFiles.has(file)),
+        modified: comparable
+            ? next.files.filter(file => previousFiles.has(file) && previous.fileHashes?.[file] !== next.fileHashes?.[file])
+            : [],
+        fromCommit: previous.commitSha,
+        toCommit: next.commitSha,
+    };
+};
+
+export const countChanges = (changes: FileChangeSummary): number =>
+    changes.added.length + changes.modified.length + changes.removed.length;
+
+// Per-path lookup for the file tree
+export const changeKinds = (changes: FileChangeSummary | null | undefined): Map<string, FileChangeKind> => {
+    const kinds = new Map<string, FileChangeKind>();
+    changes?.added.forEach(file => kinds.set(file, 'added'));
+    changes?.modified.forEach(file => kinds.set(file, 'modified'));
+    changes?.removed.forEach(file => kinds.set(file, 'removed'));
+    return kinds;
+};
+
+export const shortCommit = (commitSha?: string): string | undefined => commitSha?.slice(0, 7);
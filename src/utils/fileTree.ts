@@ -0,0 +1,189 @@
+import { FileTreeView, FlatTree, FlatTreeNode } from '@/types';
+
+export const EMPTY_FILE_TREE: FlatTree = { nodes: [], roots: [], index: new Map(), fileCount: 0 };
+
+// Source sets come before plain folders, folders before files, then by name
+const nodeRank = (node: FlatTreeNode): number => node.isFile ? 2 : node.kind === 'sourceSet' ? 0 : 1;
+
+const compareNodes = (a: FlatTreeNode, b: FlatTreeNode): number => {
+    if (nodeRank(a) !== nodeRank(b)) {
+        return nodeRank(a) - nodeRank(b);
+    }
+    return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+};
+
+const sortTree = (tree: FlatTree): FlatTree => {
+    const byName = (a: number, b: number) => compareNodes(tree.nodes[a], tree.nodes[b]);
+    tree.roots.sort(byName);
+    tree.nodes.forEach(node => node.children.sort(byName));
+    return tree;
+};
+
+// One entry per tree level on the way to a file; the last one is the file itself
+interface PathSegment {
+    path: string;
+    name: string;
+    kind?: FlatTreeNode['kind'];
+}
+
+const directorySegments = (filePath: string): PathSegment[] => {
+    let currentPath = '';
+    return filePath.split('/').map(name => {
+        currentPath = currentPath ? `${currentPath}/${name}` : name;
+        return { path: currentPath, name };
+    });
+};
+
+// One pass over the paths; folders are created the first time a path passes through them
+const buildTree = (paths: string[], segmentsOf: (filePath: string) => PathSegment[]): FlatTree => {
+    const nodes: FlatTreeNode[] = [];
+    const roots: number[] = [];
+    const index = new Map<string, number>();
+    let fileCount = 0;
+
+    paths.forEach(filePath => {
+        if (index.has(filePath)) {
+            return;
+        }
+        const segments = segmentsOf(filePath);
+        let parent = -1;
+        segments.forEach(({ path, name, kind }, depth) => {
+            const isFile = depth === segments.length - 1;
+            let id = index.get(path);
+            if (id === undefined) {
+                id = nodes.length;
+                nodes.push(kind ? { path, name, depth, parent, isFile, children: [], kind } : { path, name, depth, parent, isFile, children: [] });
+                index.set(path, id);
+                (parent === -1 ? roots : nodes[parent].children).push(id);
+                if (isFile) {
+                    fileCount++;
+                }
+            }
+            parent = id;
+        });
+    });
+
+    return { nodes, roots, index, fileCount };
+};
+
+export const buildFlatTree = (paths: string[]): FlatTree => sortTree(buildTree(paths, directorySegments));
+
+// <module>/src/<source set>/<root>/... - only source sets with one of these roots count, so an
+// unrelated src folder (a frontend's src/components, say) stays in the directory layout
+const SOURCE_SET_PATH = /^(?:(.+)\/)?src\/([^/]+)\/(java|kotlin|groovy|scala|resources)\/.+$/;
+const PACKAGE_ROOTS = new Set(['java', 'kotlin', 'groovy', 'scala']);
+
+// Source set folders of the listing (module/src/main, ...). Collected before the tree is built,
+// so a source set is one whatever order its files come in, and holds every folder below it.
+const sourceSetPaths = (paths: string[]): Set<string> => {
+    const sourceSets = new Set<string>();
+    paths.forEach(filePath => {
+        const match = SOURCE_SET_PATH.exec(filePath);
+        if (match) {
+            sourceSets.add(`${match[1] ? `${match[1]}/` : ''}src/${match[2]}`);
+        }
+    });
+    return sourceSets;
+};
+
+// Source set, then one level per package (or per plain folder such as resources), then the file.
+// Every folder keeps its real directory path, so expanded state and exclusions carry across views.
+const packageSegments = (filePath: string, sourceSets: Set<string>): PathSegment[] => {
+    const parts = filePath.split('/');
+    const start = parts.findIndex((part, i) =>
+        part === 'src' && i + 2 < parts.length && sourceSets.has(parts.slice(0, i + 2).join('/')));
+    if (start === -1) {
+        return directorySegments(filePath);
+    }
+    const modulePath = parts.slice(0, start).join('/');
+    const sourceSet = parts[start + 1];
+    const sourceSetPath = parts.slice(0, start + 2).join('/');
+    const segments: PathSegment[] = [
+        { path: sourceSetPath, name: modulePath ? `${modulePath} [${sourceSet}]` : sourceSet, kind: 'sourceSet' },
+    ];
+    // The package root itself (java, kotlin, ...) gets no level of its own
+    const isPackageRoot = PACKAGE_ROOTS.has(parts[start + 2]) && parts.length > start + 3;
+    let currentPath = sourceSetPath;
+    const rest = parts.slice(start + 2);
+    rest.forEach((name, depth) => {
+        currentPath = `${currentPath}/${name}`;
+        const isFile = depth === rest.length - 1;
+        if (isPackageRoot && depth === 0) {
+            return;
+        }
+        segments.push(isPackageRoot && !isFile ? { path: currentPath, name, kind: 'package' } : { path: currentPath, name });
+    });
+    return segments;
+};
+
+// Packages holding nothing but a single subpackage are merged into it, as IntelliJ does
+// (org.springframework.samples.petclinic rather than four nested levels). Ids are handed
+// out in visiting order, so parents still come before their children.
+const compactPackages = (tree: FlatTree): FlatTree => {
+    const nodes: FlatTreeNode[] = [];
+    const roots: number[] = [];
+    const index = new Map<string, number>();
+
+    const visit = (sourceId: number, parent: number, depth: number) => {
+        let node = tree.nodes[sourceId];
+        let name = node.name;
+        while (node.kind === 'package' && node.children.length === 1 && tree.nodes[node.children[0]].kind === 'package') {
+            node = tree.nodes[node.children[0]];
+            name = `${name}.${node.name}`;
+        }
+        const id = nodes.length;
+        nodes.push({ ...node, name, depth, parent, children: [] });
+        index.set(node.path, id);
+        (parent === -1 ? roots : nodes[parent].children).push(id);
+        node.children.forEach(child => visit(child, id, depth + 1));
+    };
+    tree.roots.forEach(root => visit(root, -1, 0));
+
+    return { nodes, roots, index, fileCount: tree.fileCount };
+};
+
+// Package view of the same file list; files outside any source set keep their directories
+export const buildPackageTree = (paths: string[]): FlatTree => {
+    const sourceSets = sourceSetPaths(paths);
+    return sortTree(compactPackages(buildTree(paths, filePath => packageSegments(filePath, sourceSets))));
+};
+
+export const buildTreeForView = (paths: string[], view: FileTreeView): FlatTree =>
+    view === 'package' ? buildPackageTree(paths) : buildFlatTree(paths);
+
+// Ids of the rows to show, in display order. Children are only visited for expanded folders,
+// so the cost follows what is on screen rather than the size of the repository.
+export const visibleTreeRows = (tree: FlatTree, expanded: Set<string>, include?: Set<number>): number[] => {
+    const rows: number[] = [];
+    const stack = [...tree.roots].reverse();
+    while (stack.length > 0) {
+        const id = stack.pop() as number;
+        if (include && !include.has(id)) {
+            continue;
+        }
+        rows.push(id);
+        const node = tree.nodes[id];
+        if (!node.isFile && expanded.has(node.path)) {
+            for (let i = node.children.length - 1; i >= 0; i--) {
+                stack.push(node.children[i]);
+            }
+        }
+    }
+    return rows;
+};
+
+// The given nodes plus every folder above them
+export const withAncestors = (tree: FlatTree, ids: Iterable<number>): Set<number> => {
+    const result = new Set<number>();
+    for (const id of ids) {
+        for (let current = id; current !== -1 && !result.has(current); current = tree.nodes[current].parent) {
+            result.add(current);
+        }
+    }
+    return result;
+};
+
+export const folderPaths = (tree: FlatTree, include?: Set<number>): string[] =>
+    tree.nodes
+        .filter((node, id) => !node.isFile && (!include || include.has(id)))
+        .map(node => node.path);
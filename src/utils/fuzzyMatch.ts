@@ -0,0 +1,68 @@
+// Fuzzy path matching for the file explorer filter: the query letters must appear in order,
+// ideally inside the file name and at word starts ("oc" finds OwnerController.java).
+
+export interface FuzzyMatch {
+    score: number;
+    positions: number[]; // Indexes into the matched path
+}
+
+const SEPARATORS = '/._-';
+
+const isWordStart = (text: string, index: number): boolean =>
+    index === 0
+    || SEPARATORS.includes(text[index - 1])
+    || (text[index] >= 'A' && text[index] <= 'Z' && text[index - 1] >= 'a' && text[index - 1] <= 'z');
+
+// Greedy left-to-right match; with preferWordStarts it jumps ahead to the next word start
+const matchFrom = (query: string, text: string, offset: number, preferWordStarts: boolean): FuzzyMatch | null => {
+    const lowerText = text.toLowerCase();
+    const positions: number[] = [];
+    let score = 0;
+    let cursor = 0;
+
+    for (const char of query) {
+        let index = lowerText.indexOf(char, cursor);
+        if (index === -1) {
+            return null;
+        }
+        const isConsecutive = positions.length > 0 && positions[positions.length - 1] === offset + index - 1;
+        if (preferWordStarts && !isConsecutive) {
+            for (let candidate = index; candidate !== -1; candidate = lowerText.indexOf(char, candidate + 1)) {
+                if (isWordStart(text, candidate)) {
+                    index = candidate;
+                    break;
+                }
+            }
+        }
+        if (positions.length > 0 && positions[positions.length - 1] === offset + index - 1) {
+            score += 5;
+        } else if (isWordStart(text, index)) {
+            score += 3;
+        } else {
+            score += 1;
+        }
+        positions.push(offset + index);
+        cursor = index + 1;
+    }
+    return { score, positions };
+};
+
+// Jumping to word starts can use up letters a plain match needed, so fall back to that
+const matchText = (query: string, text: string, offset: number): FuzzyMatch | null =>
+    matchFrom(query, text, offset, true) ?? matchFrom(query, text, offset, false);
+
+// Null when the path does not match. Queries without a slash are tried on the file name first.
+export const fuzzyMatchPath = (query: string, path: string): FuzzyMatch | null => {
+    const needle = query.trim().toLowerCase().replace(/\s+/g, '');
+    if (!needle) {
+        return null;
+    }
+    if (!needle.includes('/')) {
+        const nameStart = path.lastIndexOf('/') + 1;
+        const inName = matchText(needle, path.slice(nameStart), nameStart);
+        if (inName) {
+            return { score: inName.score + 10, positions: inName.positions };
+        }
+    }
+    return matchText(needle, path, 0);
+};
@@ -0,0 +1,133 @@
+// File languages, detected from the file name. Drives the explorer icons and filters, the
+// language breakdown, syntax highlighting and how explain questions are worded.
+
+export type LanguageId =
+    | 'java' | 'kotlin' | 'groovy' | 'typescript' | 'javascript' | 'python' | 'go'
+    | 'sql' | 'yaml' | 'properties' | 'json' | 'xml' | 'html' | 'css' | 'markdown' | 'shell'
+    | 'build' | 'docker' | 'other';
+
+// What kind of content a file holds - decides what an explanation should focus on
+export type LanguageCategory = 'code' | 'config' | 'data' | 'build' | 'markup' | 'docs';
+
+export interface LanguageInfo {
+    id: LanguageId;
+    label: string;
+    category: LanguageCategory;
+    fence: string; // Markdown code fence language
+    color: string; // Tailwind background class for the breakdown bar
+}
+
+export const LANGUAGES: Record<LanguageId, LanguageInfo> = {
+    java: { id: 'java', label: 'Java', category: 'code', fence: 'java', color: 'bg-orange-500' },
+    kotlin: { id: 'kotlin', label: 'Kotlin', category: 'code', fence: 'kotlin', color: 'bg-violet-500' },
+    groovy: { id: 'groovy', label: 'Groovy', category: 'code', fence: 'groovy', color: 'bg-teal-500' },
+    typescript: { id: 'typescript', label: 'TypeScript', category: 'code', fence: 'typescript', color: 'bg-blue-600' },
+    javascript: { id: 'javascript', label: 'JavaScript', category: 'code', fence: 'javascript', color: 'bg-yellow-400' },
+    python: { id: 'python', label: 'Python', category: 'code', fence: 'python', color: 'bg-sky-500' },
+    go: { id: 'go', label: 'Go', category: 'code', fence: 'go', color: 'bg-cyan-500' },
+    sql: { id: 'sql', label: 'SQL', category: 'data', fence: 'sql', color: 'bg-emerald-600' },
+    yaml: { id: 'yaml', label: 'YAML', category: 'config', fence: 'yaml', color: 'bg-rose-400' },
+    properties: { id: 'properties', label: 'Properties', category: 'config', fence: 'properties', color: 'bg-lime-500' },
+    json: { id: 'json', label: 'JSON', category: 'config', fence: 'json', color: 'bg-amber-400' },
+    xml: { id: 'xml', label: 'XML', category: 'config', fence: 'xml', color: 'bg-red-400' },
+    html: { id: 'html', label: 'HTML', category: 'markup', fence: 'html', color: 'bg-orange-300' },
+    css: { id: 'css', label: 'CSS', category: 'markup', fence: 'css', color: 'bg-indigo-400' },
+    markdown: { id: 'markdown', label: 'Markdown', category: 'docs', fence: 'markdown', color: 'bg-gray-500' },
+    shell: { id: 'shell', label: 'Shell', category: 'code', fence: 'bash', color: 'bg-green-500' },
+    build: { id: 'build', label: 'Build files', category: 'build', fence: '', color: 'bg-stone-500' },
+    docker: { id: 'docker', label: 'Docker', category: 'build', fence: 'dockerfile', color: 'bg-blue-400' },
+    other: { id: 'other', label: 'Other', category: 'docs', fence: '', color: 'bg-gray-300' },
+};
+
+// Build and container files are recognised by name before their extension is looked at
+const FILE_NAMES: Record<string, LanguageId> = {
+    'pom.xml': 'build',
+    'build.gradle': 'build',
+    'build.gradle.kts': 'build',
+    'settings.gradle': 'build',
+    'settings.gradle.kts': 'build',
+    'gradlew': 'build',
+    'mvnw': 'build',
+    'makefile': 'build',
+    'package.json': 'build',
+    'dockerfile': 'docker',
+    'docker-compose.yml': 'docker',
+    'docker-compose.yaml': 'docker',
+    'compose.yml': 'docker',
+    'compose.yaml': 'docker',
+};
+
+const EXTENSIONS: Record<string, LanguageId> = {
+    java: 'java',
+    kt: 'kotlin',
+    kts: 'kotlin',
+    groovy: 'groovy',
+    gradle: 'build',
+    ts: 'typescript',
+    tsx: 'typescript',
+    js: 'javascript',
+    jsx: 'javascript',
+    mjs: 'javascript',
+    cjs: 'javascript',
+    py: 'python',
+    go: 'go',
+    sql: 'sql',
+    yml: 'yaml',
+    yaml: 'yaml',
+    properties: 'properties',
+    env: 'properties',
+    json: 'json',
+    xml: 'xml',
+    xsd: 'xml',
+    html: 'html',
+    htm: 'html',
+    css: 'css',
+    scss: 'css',
+    md: 'markdown',
+    adoc: 'markdown',
+    txt: 'markdown',
+    sh: 'shell',
+    bash: 'shell',
+    cmd: 'shell',
+    bat: 'shell',
+};
+
+export const detectLanguage = (filePath: string): LanguageInfo => {
+    const fileName = (filePath.split('/').pop() || filePath).toLowerCase();
+    const byName = FILE_NAMES[fileName] ?? (fileName.startsWith('dockerfile') ? 'docker' : undefined);
+    if (byName) {
+        return LANGUAGES[byName];
+    }
+    const dot = fileName.lastIndexOf('.');
+    return LANGUAGES[(dot > 0 ? EXTENSIONS[fileName.slice(dot + 1)] : undefined) ?? 'other'];
+};
+
+export interface LanguageShare {
+    language: LanguageInfo;
+    files: number;
+    percentage: number;
+}
+
+// Languages by number of files, largest first
+export const languageBreakdown = (paths: Iterable<string>): LanguageShare[] => {
+    const counts = new Map<LanguageId, number>();
+    let total = 0;
+    for (const path of paths) {
+        const id = detectLanguage(path).id;
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+        total++;
+    }
+    return [...counts.entries()]
+        .map(([id, files]) => ({ language: LANGUAGES[id], files, percentage: total ? files / total * 100 : 0 }))
+        .sort((a, b) => b.files - a.files);
+};
+
+// What an explanation of a file should cover, by the kind of content it holds
+export const EXPLAIN_FOCUS: Record<LanguageCategory, string> = {
+    code: 'What does this file do? Please provide a detailed explanation of its purpose, main functionality, and key components. Focus on the code structure, functions or methods, dependencies, and how it fits into the overall application architecture.',
+    config: 'What does this configuration control? Explain the important settings, their effect on the application at runtime, which code reads them, and any environment-specific or sensitive values.',
+    data: 'What does this SQL do? Explain the tables, columns, constraints and data it defines or changes, when it runs (schema setup, seed data or migration), and which parts of the application depend on it.',
+    build: 'What does this build file set up? Explain the modules, plugins and dependencies it declares, the build and packaging steps, and anything unusual about how the project is built or run.',
+    markup: 'What does this file render or style? Explain its structure, the data it expects from the application, and which controllers or views use it.',
+    docs: 'What does this file describe? Summarize its content and how it relates to the rest of the repository.',
+};
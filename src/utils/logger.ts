@@ -0,0 +1,147 @@
+// Small structured logger: levels, namespaces, PII/secret redaction and an in-memory ring buffer
+// that feeds the in-app debug console.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+    id: number;
+    timestamp: number;
+    level: LogLevel;
+    namespace: string;
+    message: string;
+    data?: unknown;
+}
+
+export interface Logger {
+    debug: (message: string, data?: unknown) => void;
+    info: (message: string, data?: unknown) => void;
+    warn: (message: string, data?: unknown) => void;
+    error: (message: string, data?: unknown) => void;
+}
+
+type LogListener = (entries: LogEntry[]) => void;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const BUFFER_SIZE = 500;
+const MAX_STRING_LENGTH = 300;
+const MAX_DEPTH = 4;
+
+const SECRET_KEY = /(api[-_]?key|token|password|secret|authorization|credential|cookie)/i;
+const EMAIL_KEY = /e-?mail/i;
+const SESSION_KEY = /session[-_]?id/i;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const SESSION_PATTERN = /\bsession_(\d{4})\d*_[a-z0-9]+/gi;
+
+// Console output threshold - everything is still recorded in the ring buffer for the debug console
+const consoleLevel = (): LogLevel => {
+    const configured = process.env.NEXT_PUBLIC_LOG_LEVEL as LogLevel | undefined;
+    if (configured && configured in LEVEL_ORDER) {
+        return configured;
+    }
+    return process.env.NODE_ENV === 'production' ? 'warn' : 'info';
+};
+
+const buffer: LogEntry[] = [];
+const listeners = new Set<LogListener>();
+let nextId = 1;
+
+const maskEmail = (value: string) => value.replace(EMAIL_PATTERN, '$1***@$2');
+const maskSessionIds = (value: string) => value.replace(SESSION_PATTERN, 'session_$1…');
+
+const redactString = (value: string): string => {
+    const masked = maskSessionIds(maskEmail(value));
+    return masked.length > MAX_STRING_LENGTH
+        ? `${masked.slice(0, MAX_STRING_LENGTH)}… (${masked.length} chars)`
+        : masked;
+};
+
+// Copy a value with secrets removed, PII masked and payloads truncated
+export const redact = (value: unknown, key = '', depth = 0): unknown => {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    if (key && SECRET_KEY.test(key)) {
+        return '[REDACTED]';
+    }
+    if (typeof value === 'string') {
+        if (key && EMAIL_KEY.test(key)) {
+            return maskEmail(value);
+        }
+        if (key && SESSION_KEY.test(key)) {
+            return value.length > 12 ? `${value.slice(0, 12)}…` : value;
+        }
+        return redactString(value);
+    }
+    if (typeof value !== 'object') {
+        return value;
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redactString(value.message) };
+    }
+    if (depth >= MAX_DEPTH) {
+        return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+    }
+    if (Array.isArray(value)) {
+        const items = value.slice(0, 10).map(item => redact(item, '', depth + 1));
+        return value.length > 10 ? [...items, `… ${value.length - 10} more`] : items;
+    }
+
+    return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([entryKey, entryValue]) => [
+            entryKey,
+            redact(entryValue, entryKey, depth + 1),
+        ])
+    );
+};
+
+const write = (level: LogLevel, namespace: string, message: string, data?: unknown) => {
+    const entry: LogEntry = {
+        id: nextId++,
+        timestamp: Date.now(),
+        level,
+        namespace,
+        message: redactString(message),
+        data: data === undefined ? undefined : redact(data),
+    };
+
+    buffer.push(entry);
+    if (buffer.length > BUFFER_SIZE) {
+        buffer.splice(0, buffer.length - BUFFER_SIZE);
+    }
+
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[consoleLevel()]) {
+        const method = level === 'debug' ? 'log' : level;
+        const args: unknown[] = [`[${namespace}] ${entry.message}`];
+        if (entry.data !== undefined) {
+            args.push(entry.data);
+        }
+        console[method](...args);
+    }
+
+    if (listeners.size > 0) {
+        const snapshot = [...buffer];
+        listeners.forEach(listener => listener(snapshot));
+    }
+};
+
+export const createLogger = (namespace: string): Logger => ({
+    debug: (message, data) => write('debug', namespace, message, data),
+    info: (message, data) => write('info', namespace, message, data),
+    warn: (message, data) => write('warn', namespace, message, data),
+    error: (message, data) => write('error', namespace, message, data),
+});
+
+export const getLogEntries = (): LogEntry[] => [...buffer];
+
+export const clearLogEntries = (): void => {
+    buffer.length = 0;
+    listeners.forEach(listener => listener([]));
+};
+
+// Subscribe to buffer changes - returns an unsubscribe function
+export const subscribeToLogs = (listener: LogListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
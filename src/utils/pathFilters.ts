@@ -0,0 +1,78 @@
+import { AnalysisOptions } from '@/types';
+
+// Client-side mirror of the backend's path filtering, used to show which files an analysis skips.
+// File sizes are not part of the file list, so maxFileSizeKb is only applied by the backend.
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+    includePatterns: [],
+    excludePatterns: [],
+    maxFileSizeKb: null,
+    includeTestSources: true,
+};
+
+const TEST_SOURCE_PATTERNS = [
+    '**/src/test/**', '**/*Test.java', '**/*Tests.java', '**/*IT.java',
+    '**/*Test.kt', '**/*Tests.kt', '**/*.test.ts', '**/*.spec.ts', '**/*.test.js', '**/*.spec.js',
+];
+
+const globCache = new Map<string, RegExp>();
+
+// Convert a glob (**, *, ?) to a regular expression matching whole paths
+export const globToRegExp = (glob: string): RegExp => {
+    const cached = globCache.get(glob);
+    if (cached) {
+        return cached;
+    }
+
+    let pattern = '';
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === '*' && glob[index + 1] === '*') {
+            // "**/" matches zero or more directories, a trailing "**" everything below
+            if (glob[index + 2] === '/') {
+                pattern += '(?:.*/)?';
+                index += 2;
+            } else {
+                pattern += '.*';
+                index += 1;
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    const regExp = new RegExp(`^${pattern}$`);
+    globCache.set(glob, regExp);
+    return regExp;
+};
+
+const matchesAny = (path: string, patterns: string[]): boolean =>
+    patterns.some(pattern => globToRegExp(pattern.trim().replace(/^\.?\//, '')).test(path));
+
+export const isTestSource = (path: string): boolean => matchesAny(path, TEST_SOURCE_PATTERNS);
+
+// True when the analysis options leave this path out
+export const isPathExcluded = (path: string, options: AnalysisOptions): boolean => {
+    const includes = options.includePatterns.filter(pattern => pattern.trim());
+    if (includes.length > 0 && !matchesAny(path, includes)) {
+        return true;
+    }
+    if (matchesAny(path, options.excludePatterns.filter(pattern => pattern.trim()))) {
+        return true;
+    }
+    return !options.includeTestSources && isTestSource(path);
+};
+
+// Patterns are edited one per line or comma separated
+export const parsePatternList = (text: string): string[] =>
+    text.split(/[\n,]/).map(pattern => pattern.trim()).filter(Boolean);
+
+export const hasCustomAnalysisOptions = (options: AnalysisOptions): boolean =>
+    options.includePatterns.length > 0 ||
+    options.excludePatterns.length > 0 ||
+    options.maxFileSizeKb !== null ||
+    !options.includeTestSources;
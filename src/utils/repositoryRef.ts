@@ -0,0 +1,91 @@
+// A repository checkout is identified by its URL plus an optional branch, tag or commit SHA.
+// Without a ref the backend analyzes the default branch.
+
+// Characters git accepts in branch and tag names, minus the ones that never appear in practice
+const GIT_REF_PATTERN = /^[\w.\-/]+$/;
+
+// Branch, tag or SHA syntax as git-check-ref-format sees it (simplified)
+export const isValidGitRef = (ref: string): boolean => {
+    const trimmed = ref.trim();
+    return GIT_REF_PATTERN.test(trimmed) &&
+        !trimmed.startsWith('/') &&
+        !/[./]$/.test(trimmed) &&
+        !trimmed.includes('..') &&
+        !trimmed.includes('//');
+};
+
+// Empty input means the default branch
+export const normalizeGitRef = (ref?: string | null): string | undefined => ref?.trim() || undefined;
+
+// Stable key for everything stored per checkout (sessions, analysis jobs)
+export const repositoryKey = (repoUrl: string, ref?: string | null): string => {
+    const normalizedRef = normalizeGitRef(ref);
+    return normalizedRef ? `${repoUrl}@${normalizedRef}` : repoUrl;
+};
+
+// Uploaded archives are analyzed as upload://<uploadId>/<project name> - no git host involved
+export const UPLOAD_URL_PREFIX = 'upload://';
+
+export const isUploadedRepository = (repoUrl: string): boolean => repoUrl.trim().startsWith(UPLOAD_URL_PREFIX);
+
+// Archives the backend can unpack, and the largest one the upload accepts
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+export const MAX_ARCHIVE_SIZE_MB = Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_MB ?? 200);
+
+// Reason an archive cannot be uploaded, or null when it can
+export const archiveProblem = (archive: { name: string; size: number }): string | null => {
+    if (!ARCHIVE_EXTENSIONS.some(extension => archive.name.toLowerCase().endsWith(extension))) {
+        return `${archive.name} is not a ${ARCHIVE_EXTENSIONS.join(', ')} archive`;
+    }
+    if (archive.size > MAX_ARCHIVE_SIZE_MB * 1024 * 1024) {
+        return `${archive.name} is larger than ${MAX_ARCHIVE_SIZE_MB} MB`;
+    }
+    return null;
+};
+
+// Project name from the archive file name: customer-drop.tar.gz -> customer-drop
+export const uploadRepositoryUrl = (uploadId: string, fileName: string): string => {
+    const projectName = fileName.replace(/\.(zip|tar|tgz|tar\.gz)$/i, '').replace(/[^\w.-]+/g, '-') || 'project';
+    return `${UPLOAD_URL_PREFIX}${uploadId}/${projectName}`;
+};
+
+// Short label for badges: owner/repo (or the uploaded project's name) and the ref, if any
+export const describeRepository = (repoUrl: string, ref?: string | null): string => {
+    const name = isUploadedRepository(repoUrl)
+        ? repoUrl.split('/').pop() ?? repoUrl
+        : repoUrl.split('/').slice(-2).join('/');
+    const normalizedRef = normalizeGitRef(ref);
+    return normalizedRef ? `${name}@${normalizedRef}` : name;
+};
+
+// Hosts with built-in support; self-hosted GitLab or Bitbucket servers work with any https URL
+export const KNOWN_GIT_HOSTS: { host: string; name: string }[] = [
+    { host: 'github.com', name: 'GitHub' },
+    { host: 'gitlab.com', name: 'GitLab' },
+    { host: 'bitbucket.org', name: 'Bitbucket' },
+];
+
+// Lower-cased host of a repository URL, with its port when not the default - credentials are scoped by it
+export const repositoryHost = (repoUrl: string): string | null => {
+    if (isUploadedRepository(repoUrl)) {
+        return null;
+    }
+    try {
+        return new URL(repoUrl.trim()).host.toLowerCase() || null;
+    } catch {
+        return null;
+    }
+};
+
+// https://host/owner/repo (GitLab groups may nest deeper), or an uploaded archive
+export const isRepositoryUrl = (repoUrl: string): boolean => {
+    if (isUploadedRepository(repoUrl)) {
+        return repoUrl.trim().length > UPLOAD_URL_PREFIX.length;
+    }
+    try {
+        const url = new URL(repoUrl.trim());
+        return url.protocol === 'https:' && url.pathname.split('/').filter(Boolean).length >= 2;
+    } catch {
+        return false;
+    }
+};
@@ -1,31 +1,48 @@
 import Cookies from 'js-cookie';
-import { FileTreeNode } from '@/types';
+import { AnalysisOptions, FileTreeNode } from '@/types';
+import { createLogger } from './logger';
 
 export interface QAEntry {
   id: number;
   question: string;
   answer: string;
   timestamp: string;
+  isStreaming?: boolean; // Answer is still arriving - never persisted
+  files?: string[]; // Files the question was asked about - linked from the entry
+  action?: string; // Explorer action that asked the question, shown as a label
 }
 
+// Sessions are keyed by repository plus ref (see repositoryKey)
 export interface RepositorySessionData {
   repoUrl: string;
+  ref?: string; // Branch, tag or commit SHA - default branch when omitted
   sessionId: string;
-  fileStructure: FileTreeNode;
+  fileStructure?: FileTreeNode; // Only in sessions saved by older versions - files now stay with the analysis job
   currentStatus: string;
   userEmail: string;
   timestamp: number;
   qaHistory: QAEntry[];
+  analysisStartedAt?: number; // Start of the running analysis - keeps elapsed time correct across reloads
+  jobId?: string; // Analysis job shown when the session was saved
+  analysisOptions?: AnalysisOptions; // Options the shown analysis ran with
 }
 
 const SESSION_COOKIE_NAME = 'repo_session';
 const SESSION_EXPIRY_HOURS = 24; // 24 hours
+// Options live in localStorage: with their glob lists they outgrow a cookie, and no request needs them
+const OPTIONS_STORAGE_KEY = 'repoAnalysisOptions';
+const LEGACY_OPTIONS_COOKIE_NAME = 'repo_analysis_options';
+const MAX_STORED_OPTIONS = 20; // Repositories whose options are remembered
+
+const log = createLogger('session');
 
 export class SessionStorage {
   static saveSession(data: RepositorySessionData): void {
     try {
+      // A file tree from an older session is never written back - large trees overflow the cookie
       const sessionData = {
         ...data,
+        fileStructure: undefined,
         timestamp: Date.now()
       };
       
@@ -38,9 +55,9 @@ export class SessionStorage {
         sameSite: 'lax'
       });
       
-      console.log('Session data saved to cookie');
+      log.debug('Session data saved to cookie', { status: data.currentStatus, qaEntries: data.qaHistory?.length ?? 0 });
     } catch (error) {
-      console.error('Failed to save session data:', error);
+      log.error('Failed to save session data', error);
     }
   }
 
@@ -64,10 +81,10 @@ export class SessionStorage {
         return null;
       }
       
-      console.log('Session data loaded from cookie');
+      log.debug('Session data loaded from cookie');
       return sessionData;
     } catch (error) {
-      console.error('Failed to load session data:', error);
+      log.error('Failed to load session data', error);
       // Clear corrupted data
       SessionStorage.clearSession();
       return null;
@@ -77,20 +94,9 @@ export class SessionStorage {
   static clearSession(): void {
     try {
       Cookies.remove(SESSION_COOKIE_NAME);
-      console.log('Session data cleared from cookie');
+      log.info('Session data cleared from cookie');
     } catch (error) {
-      console.error('Failed to clear session data:', error);
-    }
-  }
-
-  static updateFileStructure(fileStructure: FileTreeNode): void {
-    const existingSession = SessionStorage.getSession();
-    if (existingSession) {
-      SessionStorage.saveSession({
-        ...existingSession,
-        fileStructure,
-        timestamp: Date.now()
-      });
+      log.error('Failed to clear session data', error);
     }
   }
 
@@ -116,13 +122,14 @@ export class SessionStorage {
     }
   }
 
-  static addQAEntry(question: string, answer: string): void {
+  static addQAEntry(question: string, answer: string, context: Pick<QAEntry, 'files' | 'action'> = {}): void {
     const existingSession = SessionStorage.getSession();
     if (existingSession) {
       const newEntry: QAEntry = {
         id: Date.now(),
         question,
         answer,
+        ...context,
         timestamp: new Date().toLocaleTimeString('en-US', {
           hour12: false,
           hour: '2-digit',
@@ -151,4 +158,44 @@ export class SessionStorage {
       });
     }
   }
-}
\ No newline at end of file
+
+  // Options saved by older versions are still in a cookie - they move to localStorage on first read
+  private static loadStoredOptions(): Record<string, AnalysisOptions> {
+    const stored = window.localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+    const legacy = Cookies.get(LEGACY_OPTIONS_COOKIE_NAME);
+    if (!legacy) {
+      return {};
+    }
+    Cookies.remove(LEGACY_OPTIONS_COOKIE_NAME);
+    window.localStorage.setItem(OPTIONS_STORAGE_KEY, legacy);
+    return JSON.parse(legacy);
+  }
+
+  // Analysis options are remembered per repository URL, independently of the active session
+  static getAnalysisOptions(repoUrl: string): AnalysisOptions | null {
+    try {
+      return SessionStorage.loadStoredOptions()[repoUrl] ?? null;
+    } catch (error) {
+      log.error('Failed to load analysis options', error);
+      return null;
+    }
+  }
+
+  static saveAnalysisOptions(repoUrl: string, options: AnalysisOptions): void {
+    try {
+      const byRepository = SessionStorage.loadStoredOptions();
+      // Re-inserted rather than updated in place, so the order stays least recently used first
+      // and the oldest repositories are forgotten first
+      delete byRepository[repoUrl];
+      byRepository[repoUrl] = options;
+      const entries = Object.entries(byRepository).slice(-MAX_STORED_OPTIONS);
+      window.localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+      log.debug('Analysis options saved', { repoUrl });
+    } catch (error) {
+      log.error('Failed to save analysis options', error);
+    }
+  }
+}
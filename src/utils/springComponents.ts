@@ -0,0 +1,26 @@
+import { SpringComponent } from '@/types';
+
+// Spring components matched to the files in the tree. The reported path is used when it is
+// listed as is; otherwise the class name decides, with the reported path (often absolute, from
+// the backend's checkout) telling apart classes that share a name.
+export const componentsByFile = (components: SpringComponent[], paths: string[]): Map<string, SpringComponent> => {
+    const listed = new Set(paths);
+    const byClassName = new Map<string, string[]>();
+    paths.forEach(path => {
+        const className = (path.split('/').pop() || path).replace(/\.(java|kt|groovy)$/, '');
+        byClassName.set(className, [...(byClassName.get(className) ?? []), path]);
+    });
+
+    const result = new Map<string, SpringComponent>();
+    components.forEach(component => {
+        const reported = component.filePath?.replace(/\\/g, '/');
+        const candidates = byClassName.get(component.name) ?? [];
+        const path = reported && listed.has(reported)
+            ? reported
+            : candidates.length === 1 ? candidates[0] : candidates.find(candidate => reported?.endsWith(`/${candidate}`));
+        if (path) {
+            result.set(path, component);
+        }
+    });
+    return result;
+};
@@ -0,0 +1,268 @@
+// Small tokenizers for the code viewer: enough for highlighting and brace folding,
+// without pulling a full highlighting library into the bundle.
+import { LanguageId } from './languages';
+
+export type TokenKind = 'keyword' | 'type' | 'string' | 'comment' | 'annotation' | 'number' | 'punctuation' | 'plain';
+
+export interface SourceToken {
+    kind: TokenKind;
+    text: string;
+}
+
+// Lines are 0-based; a region hides the lines between start and end
+export interface FoldRegion {
+    start: number;
+    end: number;
+}
+
+interface TokenRule {
+    kind: TokenKind | 'identifier';
+    pattern: RegExp;
+}
+
+interface Grammar {
+    rules: TokenRule[];
+    keywords: Set<string>;
+    caseInsensitive?: boolean;
+}
+
+const JAVA_KEYWORDS = [
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+    'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+    'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+    'protected', 'public', 'record', 'return', 'sealed', 'short', 'static', 'strictfp', 'super', 'switch',
+    'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'var', 'void', 'volatile', 'while', 'yield',
+    'true', 'false', 'null', 'permits',
+];
+
+const KOTLIN_KEYWORDS = [
+    'as', 'break', 'class', 'companion', 'continue', 'data', 'do', 'else', 'enum', 'false', 'for', 'fun', 'if',
+    'import', 'in', 'interface', 'internal', 'is', 'lateinit', 'null', 'object', 'open', 'override', 'package',
+    'private', 'protected', 'public', 'return', 'sealed', 'super', 'suspend', 'this', 'throw', 'true', 'try',
+    'typealias', 'val', 'var', 'when', 'while', 'by', 'init', 'constructor',
+];
+
+const SCRIPT_KEYWORDS = [
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+    'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+    'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private', 'protected',
+    'public', 'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type',
+    'typeof', 'undefined', 'var', 'void', 'while', 'yield', 'def', 'func', 'go', 'package', 'range', 'struct',
+    'map', 'chan', 'defer', 'None', 'True', 'False', 'elif', 'except', 'lambda', 'pass', 'raise', 'with',
+];
+
+const SQL_KEYWORDS = [
+    'add', 'all', 'alter', 'and', 'as', 'asc', 'auto_increment', 'by', 'cascade', 'check', 'column',
+    'constraint', 'create', 'default', 'delete', 'desc', 'distinct', 'drop', 'exists', 'foreign', 'from',
+    'group', 'having', 'identity', 'if', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'left',
+    'like', 'limit', 'not', 'null', 'on', 'or', 'order', 'primary', 'references', 'right', 'select', 'set',
+    'table', 'unique', 'update', 'values', 'view', 'where', 'integer', 'int', 'varchar', 'text', 'date',
+    'timestamp', 'boolean', 'bigint', 'decimal', 'serial',
+];
+
+const C_LIKE_RULES: TokenRule[] = [
+    { kind: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+    { kind: 'comment', pattern: /\/\/[^\n]*/y },
+    { kind: 'string', pattern: /"""[\s\S]*?(?:"""|$)/y },
+    { kind: 'string', pattern: /"(?:\\.|[^"\\\n])*"?/y },
+    { kind: 'string', pattern: /'(?:\\.|[^'\\\n])*'?/y },
+    { kind: 'string', pattern: /`(?:\\.|[^`\\])*`?/y },
+    { kind: 'annotation', pattern: /@[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/y },
+    { kind: 'number', pattern: /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[lLfFdD]?/y },
+    { kind: 'identifier', pattern: /[A-Za-z_$][\w$]*/y },
+    { kind: 'punctuation', pattern: /[{}()[\];,.<>=+\-*/%!&|^~?:]/y },
+    { kind: 'plain', pattern: /\s+/y },
+];
+
+// YAML, properties, shell, Python and Dockerfiles: # comments, and keys before ":" or "="
+const HASH_COMMENT_RULES: TokenRule[] = [
+    { kind: 'comment', pattern: /#[^\n]*/y },
+    { kind: 'keyword', pattern: /[\w.\-[\]]+(?=\s*(?::(?:\s|$)|=))/y },
+    { kind: 'string', pattern: /"(?:\\.|[^"\\\n])*"?/y },
+    { kind: 'string', pattern: /'(?:\\.|[^'\\\n])*'?/y },
+    { kind: 'annotation', pattern: /\$\{[^}\n]*\}?/y },
+    { kind: 'number', pattern: /\b\d+(?:\.\d+)?\b/y },
+    { kind: 'identifier', pattern: /[A-Za-z_][\w-]*/y },
+    { kind: 'punctuation', pattern: /[{}()[\]:=,|>-]/y },
+    { kind: 'plain', pattern: /\s+/y },
+];
+
+const SQL_RULES: TokenRule[] = [
+    { kind: 'comment', pattern: /--[^\n]*/y },
+    { kind: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+    { kind: 'string', pattern: /'(?:''|[^'])*'?/y },
+    { kind: 'number', pattern: /\d+(?:\.\d+)?/y },
+    { kind: 'identifier', pattern: /[A-Za-z_][\w$]*/y },
+    { kind: 'punctuation', pattern: /[(),;.=<>*+\-/]/y },
+    { kind: 'plain', pattern: /\s+/y },
+];
+
+const MARKUP_RULES: TokenRule[] = [
+    { kind: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/y },
+    { kind: 'keyword', pattern: /<\/?[A-Za-z][\w:.-]*/y },
+    { kind: 'punctuation', pattern: /\/?>/y },
+    { kind: 'type', pattern: /[A-Za-z_:][\w:.-]*(?==)/y },
+    { kind: 'string', pattern: /"[^"]*"?|'[^']*'?/y },
+    { kind: 'plain', pattern: /[^<"'\s=>/]+/y },
+    { kind: 'plain', pattern: /\s+/y },
+];
+
+const PLAIN_RULES: TokenRule[] = [{ kind: 'plain', pattern: /[^\n]+/y }];
+
+const grammar = (rules: TokenRule[], keywords: string[] = [], caseInsensitive = false): Grammar => ({
+    rules,
+    keywords: new Set(keywords),
+    caseInsensitive,
+});
+
+const JAVA = grammar(C_LIKE_RULES, JAVA_KEYWORDS);
+const HASH = grammar(HASH_COMMENT_RULES, ['true', 'false', 'null', 'yes', 'no', 'on', 'off']);
+const PLAIN = grammar(PLAIN_RULES);
+
+const GRAMMARS: Record<LanguageId, Grammar> = {
+    java: JAVA,
+    kotlin: grammar(C_LIKE_RULES, KOTLIN_KEYWORDS),
+    groovy: grammar(C_LIKE_RULES, [...JAVA_KEYWORDS, 'def', 'in', 'it']),
+    typescript: grammar(C_LIKE_RULES, SCRIPT_KEYWORDS),
+    javascript: grammar(C_LIKE_RULES, SCRIPT_KEYWORDS),
+    go: grammar(C_LIKE_RULES, SCRIPT_KEYWORDS),
+    css: grammar(C_LIKE_RULES, ['important']),
+    json: grammar(C_LIKE_RULES, ['true', 'false', 'null']),
+    python: grammar(HASH_COMMENT_RULES, SCRIPT_KEYWORDS),
+    yaml: HASH,
+    properties: HASH,
+    shell: HASH,
+    docker: grammar(HASH_COMMENT_RULES, ['FROM', 'RUN', 'CMD', 'COPY', 'ADD', 'ENV', 'ARG', 'EXPOSE', 'WORKDIR', 'ENTRYPOINT', 'USER', 'VOLUME', 'LABEL', 'AS']),
+    sql: grammar(SQL_RULES, SQL_KEYWORDS, true),
+    xml: grammar(MARKUP_RULES),
+    html: grammar(MARKUP_RULES),
+    build: HASH,
+    markdown: PLAIN,
+    other: PLAIN,
+};
+
+const classifyIdentifier = (text: string, { keywords, caseInsensitive }: Grammar): TokenKind => {
+    if (keywords.has(caseInsensitive ? text.toLowerCase() : text)) {
+        return 'keyword';
+    }
+    return /^[A-Z]/.test(text) && !caseInsensitive ? 'type' : 'plain';
+};
+
+// Build and container files are tokenized by what they contain: pom.xml as XML, Gradle
+// scripts as Groovy, compose files as YAML
+const grammarFor = (language: LanguageId, fileName: string): Grammar => {
+    if (language === 'build' || language === 'docker') {
+        const name = fileName.toLowerCase();
+        if (name.endsWith('.xml')) {
+            return GRAMMARS.xml;
+        }
+        if (name.endsWith('.json')) {
+            return GRAMMARS.json;
+        }
+        if (name.endsWith('.yml') || name.endsWith('.yaml')) {
+            return GRAMMARS.yaml;
+        }
+        if (name.includes('.gradle')) {
+            return GRAMMARS.groovy;
+        }
+    }
+    return GRAMMARS[language];
+};
+
+// Source split into lines of tokens; tokens spanning lines (block comments, text blocks) are cut
+export const tokenizeSource = (source: string, language: LanguageId = 'java', fileName = ''): SourceToken[][] => {
+    const selected = grammarFor(language, fileName);
+    const lines: SourceToken[][] = [[]];
+    const push = (kind: TokenKind, text: string) => {
+        text.split('\n').forEach((piece, index) => {
+            if (index > 0) {
+                lines.push([]);
+            }
+            if (piece) {
+                lines[lines.length - 1].push({ kind, text: piece });
+            }
+        });
+    };
+
+    const normalized = source.replace(/\r\n?/g, '\n');
+    let position = 0;
+    while (position < normalized.length) {
+        let matched = false;
+        for (const rule of selected.rules) {
+            rule.pattern.lastIndex = position;
+            const match = rule.pattern.exec(normalized);
+            if (match && match[0].length > 0) {
+                push(rule.kind === 'identifier' ? classifyIdentifier(match[0], selected) : rule.kind, match[0]);
+                position += match[0].length;
+                matched = true;
+                break;
+            }
+        }
+        if (!matched) {
+            push('plain', normalized[position]);
+            position += 1;
+        }
+    }
+    return lines;
+};
+
+// Foldable blocks: braces spanning several lines, multi-line comments and runs of imports
+export const computeFoldRegions = (lines: SourceToken[][]): FoldRegion[] => {
+    const regions: FoldRegion[] = [];
+    const openBraces: number[] = [];
+    let commentStart: number | null = null;
+    let importStart: number | null = null;
+
+    lines.forEach((tokens, lineIndex) => {
+        const isImport = tokens.some(token => token.kind === 'keyword' && token.text === 'import');
+        if (isImport && importStart === null) {
+            importStart = lineIndex;
+        }
+        const isBlank = tokens.every(token => !token.text.trim());
+        if (!isImport && !isBlank && importStart !== null) {
+            let last = lineIndex - 1;
+            while (last > importStart && lines[last].every(token => !token.text.trim())) {
+                last--;
+            }
+            if (last > importStart) {
+                regions.push({ start: importStart, end: last });
+            }
+            importStart = null;
+        }
+
+        tokens.forEach(token => {
+            // Block comments arrive cut into one piece per line: opener first, closer last
+            if (token.kind === 'comment') {
+                if (commentStart === null && (token.text.startsWith('/*') || token.text.startsWith('<!--'))) {
+                    commentStart = lineIndex;
+                }
+                if (commentStart !== null && (token.text.endsWith('*/') || token.text.endsWith('-->'))
+                    && (lineIndex > commentStart || token.text.length >= 4)) {
+                    if (lineIndex > commentStart) {
+                        regions.push({ start: commentStart, end: lineIndex });
+                    }
+                    commentStart = null;
+                }
+                return;
+            }
+            if (token.kind === 'punctuation' && token.text === '{') {
+                openBraces.push(lineIndex);
+            } else if (token.kind === 'punctuation' && token.text === '}') {
+                const start = openBraces.pop();
+                if (start !== undefined && lineIndex > start) {
+                    regions.push({ start, end: lineIndex });
+                }
+            }
+        });
+    });
+
+    // The same line can open several blocks - only the outermost one is folded from there
+    const byStart = new Map<number, FoldRegion>();
+    regions.forEach(region => {
+        const existing = byStart.get(region.start);
+        if (!existing || region.end > existing.end) {
+            byStart.set(region.start, region);
+        }
+    });
+    return [...byStart.values()].sort((a, b) => a.start - b.start);
+};
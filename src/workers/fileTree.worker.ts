@@ -0,0 +1,14 @@
+// Builds the flattened file tree away from the UI thread - see services/fileTreeBuilder
+import { FileTreeView } from '@/types';
+import { buildTreeForView } from '@/utils/fileTree';
+
+export interface FileTreeRequest {
+    requestId: number;
+    paths: string[];
+    view: FileTreeView;
+}
+
+self.addEventListener('message', (event: MessageEvent<FileTreeRequest>) => {
+    const { requestId, paths, view } = event.data;
+    self.postMessage({ requestId, tree: buildTreeForView(paths, view) });
+});